@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+import { execFileSync } from 'child_process';
+import { existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// Same fields the lsof backend asks for (LSOF_SOCKET_FIELDS)
+const FIELDS = 'pcLftPnT';
+const FIXTURES = join(process.cwd(), 'fixtures', 'lsof');
+const PARSER_PATH = join(process.cwd(), 'dist', 'lsof-parser.js');
+
+function usage() {
+  console.error('Usage: node scripts/capture-lsof-fixtures.js <name> [port]');
+  console.error('  Captures `lsof -nP -i :<port> -F pcLftPnT`, or every listener (`-iTCP -sTCP:LISTEN -iUDP`) without a port,');
+  console.error('  into fixtures/lsof/<platform>-<name>.txt with a draft .json next to it.');
+  process.exit(1);
+}
+
+async function captureLsofFixture() {
+  const [name, port] = process.argv.slice(2);
+  if (!name || !/^[a-z0-9-]+$/.test(name) || (port !== undefined && !/^\d+$/.test(port))) {
+    usage();
+  }
+  if (!existsSync(PARSER_PATH)) {
+    console.error('❌ Server not built. Please run "npm run build" first.');
+    process.exit(1);
+  }
+
+  const platform = process.platform === 'darwin' ? 'macos' : process.platform;
+  const selection = port ? ['-i', `:${port}`] : ['-iTCP', '-sTCP:LISTEN', '-iUDP'];
+  let output;
+  try {
+    output = execFileSync('lsof', ['-nP', ...selection, '-F', FIELDS], { encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+  } catch (error) {
+    // lsof exits with 1 when nothing (or only some selections) matched; the output is still what the backend sees
+    if (error.status !== 1) {
+      console.error(`❌ lsof failed: ${error.message}`);
+      process.exit(1);
+    }
+    output = error.stdout;
+  }
+
+  const base = join(FIXTURES, `${platform}-${name}`);
+  if (existsSync(`${base}.txt`)) {
+    console.error(`❌ ${base}.txt already exists; pick another name.`);
+    process.exit(1);
+  }
+
+  const { parseLsofSockets } = await import(PARSER_PATH);
+  writeFileSync(`${base}.txt`, output);
+  writeFileSync(`${base}.json`, JSON.stringify(parseLsofSockets(output), null, 2) + '\n');
+
+  console.log(`📄 Wrote ${base}.txt (${output.split('\n').filter(line => line.startsWith('p')).length} processes)`);
+  console.log(`📝 Wrote ${base}.json from the current parser. It is only a draft.`);
+  console.log('⚠️ Check every entry against the raw lsof lines before committing, and remove anything private (user names, paths, addresses).');
+}
+
+captureLsofFixture();
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 25;
+// A crashed holder cannot release its lock; nothing legitimately holds it this long
+const LOCK_STALE_MS = 30 * 1000;
+
+/**
+ * Writes to a temp file next to `path` and renames it over the original, so
+ * readers in other server processes never see half a file.
+ */
+export async function writeFileAtomic(path: string, contents: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Runs `fn` while holding a lock file shared by every server process. A lock
+ * whose holder died, or that is older than any real holder keeps it, is
+ * taken over.
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  await acquireLock(lockPath);
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true }).catch(() => undefined);
+  }
+}
+
+async function acquireLock(lockPath: string): Promise<void> {
+  await fs.mkdir(dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }), { flag: 'wx' });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (await isStaleLock(lockPath)) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}; another server process is holding it`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(lockPath);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+      return true;
+    }
+    const { pid } = JSON.parse(await fs.readFile(lockPath, 'utf-8')) as { pid?: number };
+    return typeof pid === 'number' && pid !== process.pid && !isAlive(pid);
+  } catch {
+    // Gone already, or caught between create and write: not stale yet
+    return false;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,163 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { DeniedProcess, KillSignal, PidKillOutcome, TreeKillReport } from './process-killer.js';
+import type { KillPlan, PlannedContainer } from './kill-plan.js';
+import type { ProtectedSkip } from './resource-manager.js';
+
+/**
+ * success: every signalled PID went away; partial: some survived or failed;
+ * failed: none went away; blocked: everything requested was protected or
+ * refused by the kill policy;
+ * noop: nothing was running; error: the tool itself threw.
+ */
+export type AuditOutcome = 'success' | 'partial' | 'failed' | 'blocked' | 'noop' | 'error';
+
+export interface AuditTarget {
+  pid: number;
+  processName: string;
+  command: string;
+  role: PidKillOutcome['role'];
+  ports: number[];
+  signal: KillSignal;
+  status: PidKillOutcome['status'];
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  args: Record<string, unknown>;
+  signal?: KillSignal;
+  outcome: AuditOutcome;
+  /** Every port the call touched, skipped or found free */
+  ports: number[];
+  /** Registered projects owning any of those ports at the time */
+  projects: string[];
+  targets: AuditTarget[];
+  skipped: ProtectedSkip[];
+  /** Processes the kill policy refused, with the deciding rule */
+  denied?: DeniedProcess[];
+  /** Container stop_container acted on or refused, with the kill policy's decision */
+  container?: PlannedContainer;
+  error?: string;
+}
+
+export interface AuditQuery {
+  since?: number;
+  until?: number;
+  port?: number;
+  project?: string;
+  outcome?: AuditOutcome;
+  limit?: number;
+}
+
+export const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'partial', 'failed', 'blocked', 'noop', 'error'];
+
+/**
+ * Append-only JSONL record of every kill the server performs and every
+ * protection change. Writes never fail a tool call: a log that cannot be
+ * written is reported on stderr, like session saves.
+ */
+export class AuditLog {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly logPath: string = join(homedir(), '.mac-resource-mcp', 'audit.jsonl')
+  ) {}
+
+  record(entry: Omit<AuditEntry, 'timestamp'>): Promise<void> {
+    const line = JSON.stringify({ timestamp: new Date(this.now()).toISOString(), ...entry }) + '\n';
+
+    // Chain appends so entries land in the order they were recorded
+    this.pending = this.pending.then(async () => {
+      try {
+        await fs.mkdir(dirname(this.logPath), { recursive: true });
+        await fs.appendFile(this.logPath, line);
+      } catch (error) {
+        console.error('Failed to write audit log:', error);
+      }
+    });
+    return this.pending;
+  }
+
+  async query(filter: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+    await this.pending;
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.logPath, 'utf-8');
+    } catch {
+      return { entries: [], total: 0 };
+    }
+
+    const matches: AuditEntry[] = [];
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A line cut short by a crash mid-append
+        continue;
+      }
+
+      if (this.matches(entry, filter)) {
+        matches.push(entry);
+      }
+    }
+
+    // Newest first
+    matches.reverse();
+    return {
+      entries: filter.limit !== undefined ? matches.slice(0, filter.limit) : matches,
+      total: matches.length
+    };
+  }
+
+  private matches(entry: AuditEntry, filter: AuditQuery): boolean {
+    const time = Date.parse(entry.timestamp);
+    if (filter.since !== undefined && time < filter.since) {
+      return false;
+    }
+    if (filter.until !== undefined && time > filter.until) {
+      return false;
+    }
+    if (filter.port !== undefined && !entry.ports.includes(filter.port)) {
+      return false;
+    }
+    if (filter.project && !entry.projects.some(name => name.toLowerCase() === filter.project!.toLowerCase())) {
+      return false;
+    }
+    return !filter.outcome || entry.outcome === filter.outcome;
+  }
+}
+
+export function killOutcome(plan: KillPlan, report: TreeKillReport): AuditOutcome {
+  if (report.outcomes.length === 0) {
+    return plan.skipped.length > 0 || report.denied.length > 0 ? 'blocked' : 'noop';
+  }
+
+  const gone = report.exited.length + report.escalated.length;
+  if (gone === report.outcomes.length) {
+    return 'success';
+  }
+  return gone === 0 ? 'failed' : 'partial';
+}
+
+export function auditTargets(plan: KillPlan, report: TreeKillReport): AuditTarget[] {
+  const ports = new Map(plan.targets.map(target => [target.pid, target.ports]));
+  return report.outcomes.map(outcome => ({
+    pid: outcome.pid,
+    processName: outcome.processName,
+    command: outcome.command,
+    role: outcome.role,
+    ports: ports.get(outcome.pid) ?? [],
+    signal: outcome.signal,
+    status: outcome.status
+  }));
+}
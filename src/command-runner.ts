@@ -0,0 +1,380 @@
+import { execFile, ExecFileException } from 'child_process';
+import { constants } from 'os';
+import { mkdirSync, openSync, readFileSync, writeSync, promises as fs } from 'fs';
+import { dirname } from 'path';
+
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+}
+
+export interface ExecOptions {
+  /** Kill the program and fail with EXIT_TIMED_OUT after this long (default: COMMAND_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
+
+export interface CommandTranscriptEntry {
+  /**
+   * The argument vector as formatCommand prints it; replay matches on this.
+   * File reads are keyed as formatFileRead prints them, e.g. "readFile /proc/1/stat".
+   */
+  command: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface CommandTranscript {
+  version: 1;
+  /** OS the transcript was recorded on; older transcripts without it are treated as macOS. */
+  platform?: NodeJS.Platform;
+  startedAt: number;
+  entries: CommandTranscriptEntry[];
+}
+
+/**
+ * Everything MacResourceManager needs from the host: running commands, reading
+ * the files a backend inspects (/proc on Linux) and waiting. Time goes through
+ * the runner too so replayed sessions can skip the real sleeps in killPort and
+ * monitorPort.
+ */
+export interface CommandRunner {
+  /**
+   * Runs a program with an argument vector, never through a shell, so
+   * arguments reach it verbatim whatever characters they contain. Resolves
+   * with the output, or rejects with a CommandError on a non-zero exit code
+   * or when it runs past its timeout.
+   */
+  exec(file: string, args?: readonly string[], options?: ExecOptions): Promise<CommandOutput>;
+  /** Reads a text file; rejects with the error code (ENOENT, EACCES) set when it cannot */
+  readFile(path: string): Promise<string>;
+  /** Entry names in a directory */
+  readDir(path: string): Promise<string[]>;
+  /** Target of a symbolic link */
+  readLink(path: string): Promise<string>;
+  /** Whether a path exists: false when it is missing (ENOENT), a rejection for any other error */
+  exists(path: string): Promise<boolean>;
+  sleep(ms: number): Promise<void>;
+  now(): number;
+}
+
+export class CommandError extends Error {
+  constructor(
+    readonly command: string,
+    readonly exitCode: number,
+    readonly stdout: string,
+    readonly stderr: string
+  ) {
+    super(`Command failed: ${command}${stderr ? `\n${stderr}` : ''}`);
+    this.name = 'CommandError';
+  }
+}
+
+/** A command still running after this long is killed; nothing this server runs should take close to it */
+export const COMMAND_TIMEOUT_MS = 30 * 1000;
+
+/** Exit code of a command killed at its timeout, as GNU timeout reports it */
+export const EXIT_TIMED_OUT = 124;
+
+// lsof on a busy machine prints far more than execFile's 1 MiB default
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+export type FileReadOperation = 'readFile' | 'readDir' | 'readLink' | 'exists';
+
+export class ExecFileCommandRunner implements CommandRunner {
+  exec(file: string, args: readonly string[] = [], options: ExecOptions = {}): Promise<CommandOutput> {
+    const timeoutMs = options.timeoutMs ?? COMMAND_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+      // SIGKILL, since a hung program may not be listening for anything gentler
+      execFile(file, args, { timeout: timeoutMs, killSignal: 'SIGKILL', maxBuffer: MAX_OUTPUT_BYTES }, (error, stdout, stderr) => {
+        if (error) {
+          if (error.killed && error.code === null) {
+            reject(new CommandError(formatCommand(file, args), EXIT_TIMED_OUT, stdout, `Timed out after ${timeoutMs} ms`));
+            return;
+          }
+          reject(new CommandError(formatCommand(file, args), exitCodeOf(error), stdout, stderr || error.message));
+          return;
+        }
+        resolve({ stdout, stderr });
+      });
+    });
+  }
+
+  readFile(path: string): Promise<string> {
+    return fs.readFile(path, 'utf-8');
+  }
+
+  readDir(path: string): Promise<string[]> {
+    return fs.readdir(path);
+  }
+
+  readLink(path: string): Promise<string> {
+    return fs.readlink(path);
+  }
+
+  exists(path: string): Promise<boolean> {
+    return fs.access(path).then(() => true, error => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    });
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  now(): number {
+    return Date.now();
+  }
+}
+
+/**
+ * Runs commands through another runner and appends each one to a transcript
+ * file. Entries are written over the closing brackets, which follow them
+ * again, so the file stays valid JSON without ever being re-serialised or
+ * held in memory.
+ */
+export class RecordingCommandRunner implements CommandRunner {
+  private readonly startedAt: number;
+  private fd: number | null = null;
+  // Byte offset of the closing brackets the next entries overwrite
+  private end = 0;
+  private written = 0;
+  private pending: CommandTranscriptEntry[] = [];
+  private writeQueued = false;
+
+  constructor(private readonly inner: CommandRunner, private readonly transcriptPath: string) {
+    this.startedAt = inner.now();
+  }
+
+  async exec(file: string, args: readonly string[] = [], options?: ExecOptions): Promise<CommandOutput> {
+    const command = formatCommand(file, args);
+    try {
+      const output = await this.inner.exec(file, args, options);
+      this.record({ command, stdout: output.stdout, stderr: output.stderr, exitCode: 0 });
+      return output;
+    } catch (error) {
+      if (error instanceof CommandError) {
+        this.record({ command, stdout: error.stdout, stderr: error.stderr, exitCode: error.exitCode });
+      }
+      throw error;
+    }
+  }
+
+  readFile(path: string): Promise<string> {
+    return this.recordRead('readFile', path, () => this.inner.readFile(path), contents => contents);
+  }
+
+  readDir(path: string): Promise<string[]> {
+    return this.recordRead('readDir', path, () => this.inner.readDir(path), names => names.join('\n'));
+  }
+
+  readLink(path: string): Promise<string> {
+    return this.recordRead('readLink', path, () => this.inner.readLink(path), target => target);
+  }
+
+  exists(path: string): Promise<boolean> {
+    return this.recordRead('exists', path, () => this.inner.exists(path), found => String(found));
+  }
+
+  sleep(ms: number): Promise<void> {
+    return this.inner.sleep(ms);
+  }
+
+  now(): number {
+    return this.inner.now();
+  }
+
+  /** A read is stored like a command: its contents as stdout, or exit code 1 with the error code as stderr */
+  private async recordRead<T>(operation: FileReadOperation, path: string, read: () => Promise<T>, serialize: (result: T) => string): Promise<T> {
+    const command = formatFileRead(operation, path);
+    try {
+      const result = await read();
+      this.record({ command, stdout: serialize(result), stderr: '', exitCode: 0 });
+      return result;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code ?? (error instanceof Error ? error.message : String(error));
+      this.record({ command, stdout: '', stderr: code, exitCode: 1 });
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the entries still waiting, for process exit where the queued write
+   * would never run. A /proc scan records thousands of reads at a time.
+   */
+  saveSync(): void {
+    this.writePending();
+  }
+
+  private record(entry: CommandTranscriptEntry): void {
+    this.pending.push(entry);
+    if (this.writeQueued) {
+      return;
+    }
+    // One write per turn of the event loop picks up every entry recorded in it
+    this.writeQueued = true;
+    setImmediate(() => this.writePending());
+  }
+
+  private writePending(): void {
+    this.writeQueued = false;
+    const entries = this.pending.map(entry => `\n    ${JSON.stringify(entry)}`);
+    this.pending = [];
+    try {
+      if (this.fd === null) {
+        mkdirSync(dirname(this.transcriptPath), { recursive: true });
+        this.fd = openSync(this.transcriptPath, 'w');
+        const header = `{\n  "version": 1,\n  "platform": ${JSON.stringify(process.platform)},\n  "startedAt": ${this.startedAt},\n  "entries": [`;
+        writeSync(this.fd, header + TRANSCRIPT_CLOSING, 0);
+        this.end = Buffer.byteLength(header);
+      }
+      if (entries.length === 0) {
+        return;
+      }
+      const body = (this.written > 0 ? ',' : '') + entries.join(',');
+      writeSync(this.fd, body + TRANSCRIPT_CLOSING, this.end);
+      this.end += Buffer.byteLength(body);
+      this.written += entries.length;
+    } catch (error) {
+      console.error('Failed to write command transcript:', error);
+    }
+  }
+}
+
+const TRANSCRIPT_CLOSING = '\n  ]\n}\n';
+
+/**
+ * Serves a recorded transcript back. Entries are matched by formatted command in
+ * recording order; once a command's entries run out, its last entry keeps
+ * being returned so polling loops see a stable state. Sleeping only advances
+ * a virtual clock that starts at the transcript's recording time.
+ */
+export class ReplayCommandRunner implements CommandRunner {
+  readonly platform: NodeJS.Platform;
+  private readonly queues = new Map<string, CommandTranscriptEntry[]>();
+  private readonly lastSeen = new Map<string, CommandTranscriptEntry>();
+  private clock: number;
+
+  constructor(transcript: CommandTranscript) {
+    this.platform = transcript.platform ?? 'darwin';
+    this.clock = transcript.startedAt;
+    for (const entry of transcript.entries) {
+      const queue = this.queues.get(entry.command) ?? [];
+      queue.push(entry);
+      this.queues.set(entry.command, queue);
+    }
+  }
+
+  static fromFile(transcriptPath: string): ReplayCommandRunner {
+    const transcript = JSON.parse(readFileSync(transcriptPath, 'utf-8')) as CommandTranscript;
+    if (transcript.version !== 1 || !Array.isArray(transcript.entries)) {
+      throw new Error(`Unsupported command transcript format: ${transcriptPath}`);
+    }
+    return new ReplayCommandRunner(transcript);
+  }
+
+  async exec(file: string, args: readonly string[] = []): Promise<CommandOutput> {
+    const command = formatCommand(file, args);
+    const entry = this.next(command);
+    if (entry.exitCode !== 0) {
+      throw new CommandError(command, entry.exitCode, entry.stdout, entry.stderr);
+    }
+    return { stdout: entry.stdout, stderr: entry.stderr };
+  }
+
+  async readFile(path: string): Promise<string> {
+    return this.read('readFile', path);
+  }
+
+  async readDir(path: string): Promise<string[]> {
+    const names = this.read('readDir', path);
+    return names ? names.split('\n') : [];
+  }
+
+  async readLink(path: string): Promise<string> {
+    return this.read('readLink', path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.read('exists', path) === 'true';
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.clock += ms;
+  }
+
+  now(): number {
+    return this.clock;
+  }
+
+  private read(operation: FileReadOperation, path: string): string {
+    const entry = this.next(formatFileRead(operation, path));
+    if (entry.exitCode !== 0) {
+      throw Object.assign(new Error(`${entry.stderr}: ${operation} ${path}`), { code: entry.stderr });
+    }
+    return entry.stdout;
+  }
+
+  private next(command: string): CommandTranscriptEntry {
+    const entry = this.queues.get(command)?.shift() ?? this.lastSeen.get(command);
+    if (!entry) {
+      throw new Error(`No recorded output for command: ${command}`);
+    }
+    this.lastSeen.set(command, entry);
+    return entry;
+  }
+}
+
+/**
+ * Picks the runner from the environment: MAC_RESOURCE_MCP_REPLAY serves a
+ * transcript file, MAC_RESOURCE_MCP_RECORD runs real commands and saves them
+ * to the given path, and otherwise commands run directly.
+ */
+export function createCommandRunner(env: NodeJS.ProcessEnv = process.env): CommandRunner {
+  if (env.MAC_RESOURCE_MCP_REPLAY) {
+    return ReplayCommandRunner.fromFile(env.MAC_RESOURCE_MCP_REPLAY);
+  }
+  if (env.MAC_RESOURCE_MCP_RECORD) {
+    return new RecordingCommandRunner(new ExecFileCommandRunner(), env.MAC_RESOURCE_MCP_RECORD);
+  }
+  return new ExecFileCommandRunner();
+}
+
+/**
+ * The program's own exit code, or for failures that are not its own the code
+ * a shell would report. Never 1, so they are not mistaken for lsof's "no match".
+ */
+function exitCodeOf(error: ExecFileException): number {
+  if (typeof error.code === 'number') {
+    return error.code;
+  }
+  if (error.code === 'ENOENT') {
+    return 127;
+  }
+  if (error.code === 'EACCES') {
+    return 126;
+  }
+  if (error.code == null && error.signal) {
+    return 128 + (constants.signals[error.signal] ?? 0);
+  }
+  // Output past maxBuffer and anything else execFile gives up on
+  return 125;
+}
+
+/** Transcript key of a file read, e.g. "readLink /proc/42/cwd" */
+export function formatFileRead(operation: FileReadOperation, path: string): string {
+  return formatCommand(operation, [path]);
+}
+
+/**
+ * Prints an argument vector for errors and transcripts, single-quoting
+ * arguments a shell would split or expand. Nothing is ever run from it.
+ */
+export function formatCommand(file: string, args: readonly string[] = []): string {
+  return [file, ...args]
+    .map(arg => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`)
+    .join(' ');
+}
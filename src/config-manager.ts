@@ -0,0 +1,617 @@
+import { promises as fs, watch, FSWatcher } from 'fs';
+import { basename, dirname, join } from 'path';
+import { homedir } from 'os';
+import { DEFAULT_KILL_POLICY, KillPolicyConfig, parseKillPolicy } from './kill-policy.js';
+import { DEFAULT_FRAMEWORKS, FrameworkDefinition, cloneFrameworks } from './framework-registry.js';
+
+/** The tables the resource manager consults; each can be extended or replaced by config files */
+export interface ResourceTables {
+  /** Ports that are never killed, mapped to the service that owns them */
+  protectedPorts: Record<number, string>;
+  /** Process name/command substrings marking critical services */
+  protectedProcessPatterns: string[];
+  /** Ports checked by list_dev_ports and cleaned by kill_dev_servers_selective */
+  commonDevPorts: number[];
+  /** Framework registry: process patterns for kill_dev_servers, default ports and config files for detection */
+  frameworks: Record<string, FrameworkDefinition>;
+}
+
+export interface ConfigIssue {
+  file: string;
+  /** Dotted location of the bad entry, e.g. "commonDevPorts.add[2]" */
+  path: string;
+  message: string;
+}
+
+export interface ConfigSource {
+  file: string;
+  scope: 'global' | 'project';
+  project?: string;
+  status: 'loaded' | 'missing' | 'invalid';
+}
+
+interface TableChange<T> {
+  replace?: T;
+  add?: T;
+  remove?: (string | number)[];
+}
+
+interface ConfigLayer {
+  protectedPorts?: TableChange<Record<number, string>>;
+  protectedProcessPatterns?: TableChange<string[]>;
+  commonDevPorts?: TableChange<number[]>;
+  frameworks?: TableChange<Record<string, FrameworkChange>>;
+  /** Global config only */
+  killPolicy?: KillPolicyConfig;
+  /** Global config only: kills without a confirmation token return a plan instead */
+  requireConfirmation?: boolean;
+  /** Project config only: what start_project runs instead of the package.json scripts */
+  devCommand?: string;
+}
+
+/** A framework entry in a config file; fields left out default to empty, or for `add` keep the current values */
+type FrameworkChange = Partial<FrameworkDefinition>;
+
+interface LoadedFile {
+  source: ConfigSource;
+  layer: ConfigLayer;
+  issues: ConfigIssue[];
+}
+
+export const PROJECT_CONFIG_FILE = '.mac-resource-mcp.json';
+
+export const DEFAULT_TABLES: ResourceTables = {
+  protectedPorts: {
+    // Database servers
+    3306: 'MySQL',
+    5432: 'PostgreSQL',
+    6379: 'Redis',
+    27017: 'MongoDB',
+    // Docker services
+    2375: 'Docker daemon (unsecured)',
+    2376: 'Docker daemon (secured)',
+    2377: 'Docker Swarm',
+    // Common system services
+    22: 'SSH',
+    80: 'HTTP',
+    443: 'HTTPS',
+    25: 'SMTP',
+    53: 'DNS',
+    // Development databases
+    1433: 'SQL Server',
+    5984: 'CouchDB',
+    9200: 'Elasticsearch',
+    8086: 'InfluxDB',
+    // Message brokers
+    5672: 'RabbitMQ',
+    9092: 'Kafka'
+  },
+  protectedProcessPatterns: [
+    'docker',
+    'dockerd',
+    'mysql',
+    'mysqld',
+    'postgres',
+    'redis-server',
+    'mongod',
+    'elasticsearch',
+    'rabbitmq',
+    'kafka'
+  ],
+  commonDevPorts: [3000, 3001, 4321, 5173, 8000, 8080, 8100, 9000],
+  frameworks: DEFAULT_FRAMEWORKS
+};
+
+const TABLE_NAMES: (keyof ResourceTables)[] = ['protectedPorts', 'protectedProcessPatterns', 'commonDevPorts', 'frameworks'];
+const FRAMEWORK_KEYS: (keyof FrameworkDefinition)[] = ['name', 'processPatterns', 'defaultPorts', 'configFiles', 'envPorts', 'dependencies'];
+const CHANGE_KEYS = ['replace', 'add', 'remove'];
+
+/**
+ * Layers config files over the built-in tables: defaults, then the global
+ * ~/.mac-resource-mcp/config.json, then a project's own .mac-resource-mcp.json.
+ * Each table takes `replace`, `remove` and `add`, applied in that order.
+ * Invalid entries are dropped one by one and kept as issues for config_status;
+ * files are re-read whenever they change on disk.
+ */
+export class ConfigManager {
+  private readonly globalPath: string;
+  private global: LoadedFile;
+  private readonly projects = new Map<string, { directory: string; file: LoadedFile }>();
+  private readonly watchers = new Map<string, FSWatcher>();
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(globalPath: string = join(homedir(), '.mac-resource-mcp', 'config.json')) {
+    this.globalPath = globalPath;
+    this.global = this.emptyFile({ file: globalPath, scope: 'global', status: 'missing' });
+  }
+
+  async load(): Promise<void> {
+    this.global = await this.readFile({ file: this.globalPath, scope: 'global', status: 'missing' });
+    this.watchDirectory(dirname(this.globalPath));
+  }
+
+  /** Loads overrides for every registered project and forgets projects that are gone */
+  async setProjects(projects: { name: string; directory: string }[]): Promise<void> {
+    const names = new Set(projects.map(project => project.name.toLowerCase()));
+    for (const [key, { directory }] of this.projects) {
+      if (!names.has(key)) {
+        this.projects.delete(key);
+        this.unwatchDirectory(directory);
+      }
+    }
+
+    for (const project of projects) {
+      await this.loadProject(project.name, project.directory);
+    }
+  }
+
+  /** Re-reads every file, for callers that want a fresh view regardless of watchers */
+  async reload(): Promise<void> {
+    await this.load();
+    for (const { directory, file } of [...this.projects.values()]) {
+      await this.loadProject(file.source.project!, directory);
+    }
+  }
+
+  getTables(projectName?: string): ResourceTables {
+    const tables = this.applyLayer(cloneTables(DEFAULT_TABLES), this.global.layer);
+    const project = projectName ? this.projects.get(projectName.toLowerCase()) : undefined;
+    return project ? this.applyLayer(tables, project.file.layer) : tables;
+  }
+
+  /** The project's own dev command, if its .mac-resource-mcp.json sets one */
+  getDevCommand(projectName: string): string | undefined {
+    return this.projects.get(projectName.toLowerCase())?.file.layer.devCommand;
+  }
+
+  /** The kill policy comes from the global config alone; project files cannot loosen it */
+  getKillPolicy(): KillPolicyConfig {
+    return this.global.layer.killPolicy ?? DEFAULT_KILL_POLICY;
+  }
+
+  /** Like the kill policy, only the global config can turn this on or off */
+  requiresConfirmation(): boolean {
+    return this.global.layer.requireConfirmation ?? false;
+  }
+
+  getSources(): ConfigSource[] {
+    return [this.global.source, ...[...this.projects.values()].map(project => project.file.source)];
+  }
+
+  getIssues(): ConfigIssue[] {
+    return [this.global, ...[...this.projects.values()].map(project => project.file)].flatMap(file => file.issues);
+  }
+
+  close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  private async loadProject(name: string, directory: string): Promise<void> {
+    const file = await this.readFile({
+      file: join(directory, PROJECT_CONFIG_FILE),
+      scope: 'project',
+      project: name,
+      status: 'missing'
+    });
+    this.projects.set(name.toLowerCase(), { directory, file });
+    this.watchDirectory(directory);
+  }
+
+  /** Watches the directory rather than the file so files created later are picked up */
+  private watchDirectory(directory: string): void {
+    if (this.watchers.has(directory)) {
+      return;
+    }
+
+    try {
+      const watcher = watch(directory, { persistent: false }, (_event, filename) => {
+        const name = filename?.toString();
+        if (name && name !== basename(this.globalPath) && name !== PROJECT_CONFIG_FILE) {
+          return;
+        }
+        this.scheduleReload();
+      });
+      watcher.on('error', () => this.unwatchDirectory(directory));
+      this.watchers.set(directory, watcher);
+    } catch {
+      // Directory does not exist (yet); files are still re-read by reload()
+    }
+  }
+
+  private unwatchDirectory(directory: string): void {
+    if (directory === dirname(this.globalPath)) {
+      return;
+    }
+    this.watchers.get(directory)?.close();
+    this.watchers.delete(directory);
+  }
+
+  /** Editors write a file in several steps; wait for them to settle before re-reading */
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload().catch(error => console.error('Failed to reload config:', error));
+    }, 100);
+    this.reloadTimer.unref();
+  }
+
+  private async readFile(source: ConfigSource): Promise<LoadedFile> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(source.file, 'utf-8');
+    } catch {
+      return this.emptyFile(source);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(contents);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.emptyFile({ ...source, status: 'invalid' }, [{ file: source.file, path: '', message: `Invalid JSON: ${message}` }]);
+    }
+
+    const issues: ConfigIssue[] = [];
+    const layer = this.validateLayer(parsed, source, issues);
+    return { source: { ...source, status: layer ? 'loaded' : 'invalid' }, layer: layer ?? {}, issues };
+  }
+
+  private emptyFile(source: ConfigSource, issues: ConfigIssue[] = []): LoadedFile {
+    return { source, layer: {}, issues };
+  }
+
+  private validateLayer(value: unknown, source: ConfigSource, issues: ConfigIssue[]): ConfigLayer | null {
+    const issue = (path: string, message: string) => issues.push({ file: source.file, path, message });
+
+    if (!isObject(value)) {
+      issue('', 'Config must be a JSON object');
+      return null;
+    }
+
+    const layer: ConfigLayer = {};
+    for (const [table, change] of Object.entries(value)) {
+      if (table === 'killPolicy') {
+        if (source.scope === 'global') {
+          layer.killPolicy = parseKillPolicy(change, table, issue);
+        } else {
+          issue(table, 'Only allowed in the global config, so a checked-out repository cannot change which processes may be killed');
+        }
+        continue;
+      }
+      if (table === 'requireConfirmation') {
+        if (source.scope !== 'global') {
+          issue(table, 'Only allowed in the global config, so a checked-out repository cannot turn confirmations off');
+        } else if (typeof change !== 'boolean') {
+          issue(table, 'Must be true or false');
+        } else {
+          layer.requireConfirmation = change;
+        }
+        continue;
+      }
+      if (table === 'devCommand') {
+        if (source.scope !== 'project') {
+          issue(table, `Only allowed in a project's ${PROJECT_CONFIG_FILE}, whose directory start_project runs it in`);
+        } else if (typeof change !== 'string' || !change.trim()) {
+          issue(table, 'Must be a non-empty command line');
+        } else {
+          layer.devCommand = change;
+        }
+        continue;
+      }
+      if (!TABLE_NAMES.includes(table as keyof ResourceTables) && table !== 'serverPatterns') {
+        issue(table, `Unknown setting. Use: ${[...TABLE_NAMES, 'killPolicy', 'requireConfirmation', 'devCommand'].join(', ')}`);
+        continue;
+      }
+      if (!isObject(change)) {
+        issue(table, 'Must be an object with "replace", "add" and/or "remove"');
+        continue;
+      }
+      for (const key of Object.keys(change)) {
+        if (!CHANGE_KEYS.includes(key)) {
+          issue(`${table}.${key}`, 'Unknown key. Use: replace, add, remove');
+        }
+      }
+
+      // The older form of frameworks, with command patterns only; still read so existing files keep working
+      if (table === 'serverPatterns') {
+        if ('frameworks' in value) {
+          issue(table, 'Ignored because "frameworks" is also set. Move these patterns to frameworks.<type>.processPatterns');
+          continue;
+        }
+        layer.frameworks = {
+          replace: patternsToFrameworks(this.validatePatternMap(change.replace, `${table}.replace`, issue)),
+          add: patternsToFrameworks(this.validatePatternMap(change.add, `${table}.add`, issue)),
+          remove: this.validateList(change.remove, `${table}.remove`, issue, validateServerType)
+        };
+        continue;
+      }
+
+      switch (table as keyof ResourceTables) {
+        case 'protectedPorts':
+          layer.protectedPorts = {
+            replace: this.validatePortMap(change.replace, `${table}.replace`, issue),
+            add: this.validatePortMap(change.add, `${table}.add`, issue),
+            remove: this.validateList(change.remove, `${table}.remove`, issue, validatePort)
+          };
+          break;
+        case 'protectedProcessPatterns':
+          layer.protectedProcessPatterns = {
+            replace: this.validateList(change.replace, `${table}.replace`, issue, validatePattern),
+            add: this.validateList(change.add, `${table}.add`, issue, validatePattern),
+            remove: this.validateList(change.remove, `${table}.remove`, issue, validatePattern)
+          };
+          break;
+        case 'commonDevPorts':
+          layer.commonDevPorts = {
+            replace: this.validateList(change.replace, `${table}.replace`, issue, validatePort),
+            add: this.validateList(change.add, `${table}.add`, issue, validatePort),
+            remove: this.validateList(change.remove, `${table}.remove`, issue, validatePort)
+          };
+          break;
+        case 'frameworks':
+          layer.frameworks = {
+            replace: this.validateFrameworkMap(change.replace, `${table}.replace`, issue),
+            add: this.validateFrameworkMap(change.add, `${table}.add`, issue),
+            remove: this.validateList(change.remove, `${table}.remove`, issue, validateServerType)
+          };
+          break;
+      }
+    }
+
+    return layer;
+  }
+
+  private validateList<T>(
+    value: unknown,
+    path: string,
+    issue: (path: string, message: string) => void,
+    validate: (item: unknown) => string | null
+  ): T[] | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(value)) {
+      issue(path, 'Must be an array');
+      return undefined;
+    }
+
+    const items: T[] = [];
+    value.forEach((item, index) => {
+      const error = validate(item);
+      if (error) {
+        issue(`${path}[${index}]`, error);
+      } else {
+        items.push(item as T);
+      }
+    });
+    return items;
+  }
+
+  private validatePortMap(
+    value: unknown,
+    path: string,
+    issue: (path: string, message: string) => void
+  ): Record<number, string> | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!isObject(value)) {
+      issue(path, 'Must be an object mapping port numbers to service names');
+      return undefined;
+    }
+
+    const ports: Record<number, string> = {};
+    for (const [key, service] of Object.entries(value)) {
+      const portError = /^\d+$/.test(key) ? validatePort(Number(key)) : `"${key}" is not a port number`;
+      if (portError) {
+        issue(`${path}.${key}`, portError);
+      } else if (typeof service !== 'string' || !service.trim()) {
+        issue(`${path}.${key}`, 'Service name must be a non-empty string');
+      } else {
+        ports[Number(key)] = service;
+      }
+    }
+    return ports;
+  }
+
+  private validatePatternMap(
+    value: unknown,
+    path: string,
+    issue: (path: string, message: string) => void
+  ): Record<string, string[]> | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!isObject(value)) {
+      issue(path, 'Must be an object mapping server types to lists of command patterns');
+      return undefined;
+    }
+
+    const patterns: Record<string, string[]> = {};
+    for (const [type, list] of Object.entries(value)) {
+      const typeError = validateServerType(type);
+      if (typeError) {
+        issue(`${path}.${type}`, typeError);
+        continue;
+      }
+      const valid = this.validateList<string>(list, `${path}.${type}`, issue, validatePattern);
+      if (valid) {
+        patterns[type] = valid;
+      }
+    }
+    return patterns;
+  }
+
+  private validateFrameworkMap(
+    value: unknown,
+    path: string,
+    issue: (path: string, message: string) => void
+  ): Record<string, FrameworkChange> | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!isObject(value)) {
+      issue(path, 'Must be an object mapping server types to framework definitions');
+      return undefined;
+    }
+
+    const frameworks: Record<string, FrameworkChange> = {};
+    for (const [type, definition] of Object.entries(value)) {
+      const typeError = validateServerType(type);
+      if (typeError) {
+        issue(`${path}.${type}`, typeError);
+        continue;
+      }
+      if (!isObject(definition)) {
+        issue(`${path}.${type}`, `Must be an object with ${FRAMEWORK_KEYS.join(', ')}`);
+        continue;
+      }
+
+      const framework: FrameworkChange = {};
+      for (const [key, field] of Object.entries(definition)) {
+        const fieldPath = `${path}.${type}.${key}`;
+        switch (key as keyof FrameworkDefinition) {
+          case 'name':
+            if (typeof field === 'string' && field.trim()) {
+              framework.name = field;
+            } else {
+              issue(fieldPath, 'Must be a non-empty string');
+            }
+            break;
+          case 'processPatterns':
+            framework.processPatterns = this.validateList(field, fieldPath, issue, validatePattern);
+            break;
+          case 'defaultPorts':
+            framework.defaultPorts = this.validateList(field, fieldPath, issue, validatePort);
+            break;
+          case 'configFiles':
+            framework.configFiles = this.validateList(field, fieldPath, issue, validateConfigFile);
+            break;
+          case 'envPorts':
+            framework.envPorts = this.validateList(field, fieldPath, issue, validateEnvVariable);
+            break;
+          case 'dependencies':
+            framework.dependencies = this.validateList(field, fieldPath, issue, validatePattern);
+            break;
+          default:
+            issue(fieldPath, `Unknown key. Use: ${FRAMEWORK_KEYS.join(', ')}`);
+        }
+      }
+      frameworks[type] = framework;
+    }
+    return frameworks;
+  }
+
+  private applyLayer(tables: ResourceTables, layer: ConfigLayer): ResourceTables {
+    if (layer.protectedPorts) {
+      const { replace, add, remove } = layer.protectedPorts;
+      const ports = replace ? { ...replace } : tables.protectedPorts;
+      for (const port of (remove ?? []) as number[]) {
+        delete ports[port];
+      }
+      tables.protectedPorts = { ...ports, ...add };
+    }
+
+    if (layer.protectedProcessPatterns) {
+      tables.protectedProcessPatterns = applyList(tables.protectedProcessPatterns, layer.protectedProcessPatterns);
+    }
+
+    if (layer.commonDevPorts) {
+      tables.commonDevPorts = applyList(tables.commonDevPorts, layer.commonDevPorts);
+    }
+
+    if (layer.frameworks) {
+      const { replace, add, remove } = layer.frameworks;
+      const frameworks = replace
+        ? Object.fromEntries(Object.entries(replace).map(([type, change]) => [type, mergeFramework(type, undefined, change)]))
+        : tables.frameworks;
+      for (const type of (remove ?? []) as string[]) {
+        delete frameworks[type];
+      }
+      for (const [type, change] of Object.entries(add ?? {})) {
+        frameworks[type] = mergeFramework(type, frameworks[type], change);
+      }
+      tables.frameworks = frameworks;
+    }
+
+    return tables;
+  }
+}
+
+function applyList<T>(current: T[], change: TableChange<T[]>): T[] {
+  const base = change.replace ?? current;
+  const removed = new Set<unknown>(change.remove ?? []);
+  return [...new Set([...base.filter(item => !removed.has(item)), ...(change.add ?? [])])];
+}
+
+function cloneTables(tables: ResourceTables): ResourceTables {
+  return {
+    protectedPorts: { ...tables.protectedPorts },
+    protectedProcessPatterns: [...tables.protectedProcessPatterns],
+    commonDevPorts: [...tables.commonDevPorts],
+    frameworks: cloneFrameworks(tables.frameworks)
+  };
+}
+
+/** Adding to a framework that already exists extends its lists rather than replacing them */
+function mergeFramework(type: string, current: FrameworkDefinition | undefined, change: FrameworkChange): FrameworkDefinition {
+  const merge = <K extends Exclude<keyof FrameworkDefinition, 'name'>>(key: K) =>
+    [...new Set([...(current?.[key] ?? []), ...(change[key] ?? [])])] as FrameworkDefinition[K];
+  return {
+    name: change.name ?? current?.name ?? type,
+    processPatterns: merge('processPatterns'),
+    defaultPorts: merge('defaultPorts'),
+    configFiles: merge('configFiles'),
+    envPorts: merge('envPorts'),
+    dependencies: merge('dependencies')
+  };
+}
+
+function patternsToFrameworks(patterns: Record<string, string[]> | undefined): Record<string, FrameworkChange> | undefined {
+  return patterns && Object.fromEntries(Object.entries(patterns).map(([type, list]) => [type, { processPatterns: list }]));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validatePort(value: unknown): string | null {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535
+    ? null
+    : `${JSON.stringify(value)} is not a port number (1-65535)`;
+}
+
+function validatePattern(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? null : 'Pattern must be a non-empty string';
+}
+
+function validateConfigFile(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return 'Config file must be a non-empty string';
+  }
+  return value.startsWith('/') || value.split('/').includes('..')
+    ? `"${value}" must be a path inside the project`
+    : null;
+}
+
+function validateEnvVariable(value: unknown): string | null {
+  return typeof value === 'string' && /^[A-Za-z_][A-Za-z0-9_]*$/.test(value)
+    ? null
+    : `${JSON.stringify(value)} is not an environment variable name`;
+}
+
+function validateServerType(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(value)) {
+    return `${JSON.stringify(value)} is not a valid server type (lowercase letters, digits and dashes)`;
+  }
+  return value === 'all' ? '"all" is reserved' : null;
+}
@@ -0,0 +1,481 @@
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { CommandRunner } from './command-runner.js';
+import { PROJECT_CONFIG_FILE } from './config-manager.js';
+import { PlatformBackend, portListeners } from './platform-backend.js';
+import { ProcessKiller, ResolvedProcess, TreeKillReport } from './process-killer.js';
+import type { ProjectInfo } from './session-manager.js';
+
+/** never: leave it down; on-failure: restart after a non-zero exit or crash; always: restart after any exit */
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+export type DevServerState = 'running' | 'restarting' | 'stopping' | 'stopped' | 'exited' | 'crashed';
+
+export interface DevServerInfo {
+  project: string;
+  directory: string;
+  command: string;
+  /** PID of the launched command; null while restarting or after it ended */
+  pid: number | null;
+  state: DevServerState;
+  ports: number[];
+  startedAt: number;
+  restartPolicy: RestartPolicy;
+  maxRestarts: number;
+  restarts: number;
+  exitCode: number | null;
+  exitSignal: string | null;
+  /** seq of the newest log line */
+  lastSeq: number;
+}
+
+export interface DevServerLogLine {
+  seq: number;
+  timestamp: number;
+  /** supervisor: lines written by this server about starts, exits and restarts */
+  stream: 'stdout' | 'stderr' | 'supervisor';
+  text: string;
+}
+
+export interface DevServerStartOptions {
+  /** devCommand from the project's config file, run instead of the package.json scripts; split into arguments, never run through a shell */
+  devCommand?: string;
+  restartPolicy: RestartPolicy;
+  maxRestarts: number;
+  /** How long to wait for the project's ports to start listening */
+  waitMs: number;
+}
+
+export interface DevServerStartResult {
+  server: DevServerInfo;
+  ready: boolean;
+  listening: number[];
+  waiting: number[];
+}
+
+export interface DevServerLogResult {
+  server: DevServerInfo;
+  lines: DevServerLogLine[];
+  cursor: number;
+  /** Lines after the cursor that were already dropped from the buffer */
+  missed: number;
+}
+
+export interface DevServerStopResult {
+  server: DevServerInfo;
+  processes: ResolvedProcess[];
+  report: TreeKillReport;
+}
+
+interface LaunchCommand {
+  file: string;
+  args: string[];
+  display: string;
+}
+
+interface DevServer {
+  info: DevServerInfo;
+  launch: LaunchCommand;
+  child: ChildProcess | null;
+  lines: DevServerLogLine[];
+  partial: { stdout: string; stderr: string };
+  restartTimer: NodeJS.Timeout | null;
+}
+
+const DEV_SCRIPTS = ['dev', 'start', 'serve'];
+
+// Checked in order; the first lockfile found picks the package manager
+const LOCKFILES: Array<[string, string]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun']
+];
+
+/**
+ * Runs registered projects' dev servers as children of this process. Output
+ * goes to a per-project ring buffer read with a cursor, crashes can trigger
+ * restarts with exponential backoff, and stopping goes through ProcessKiller
+ * so workers spawned by npm/vite/next go down with the launcher.
+ */
+export class DevServerSupervisor {
+  private readonly MAX_LOG_LINES = 2000;
+  private readonly MAX_LINE_LENGTH = 4000;
+  private readonly PORT_POLL_MS = 500;
+  private readonly MAX_BACKOFF_MS = 30 * 1000;
+  private readonly servers = new Map<string, DevServer>();
+
+  constructor(
+    private readonly runner: CommandRunner,
+    private readonly backend: PlatformBackend,
+    private readonly killer: ProcessKiller
+  ) {}
+
+  async start(project: ProjectInfo, options: DevServerStartOptions): Promise<DevServerStartResult> {
+    const existing = this.servers.get(this.key(project.name));
+    if (existing && this.isActive(existing)) {
+      throw new Error(`Project "${project.name}" is already ${existing.info.state} (PID ${existing.info.pid ?? 'pending'}). Use "stop_project" first.`);
+    }
+
+    for (const port of project.ports) {
+      const processInfo = portListeners(await this.backend.getPortProcesses(port), port);
+      if (processInfo.length > 0) {
+        throw new Error(`Port ${port} is already in use by ${processInfo[0].processName} (PID ${processInfo[0].pid})`);
+      }
+    }
+
+    const launch = await this.resolveCommand(project, options.devCommand);
+    const server: DevServer = {
+      info: {
+        project: project.name,
+        directory: project.directory,
+        command: launch.display,
+        pid: null,
+        state: 'running',
+        ports: [...project.ports],
+        startedAt: this.runner.now(),
+        restartPolicy: options.restartPolicy,
+        maxRestarts: options.maxRestarts,
+        restarts: 0,
+        exitCode: null,
+        exitSignal: null,
+        lastSeq: 0
+      },
+      launch,
+      child: null,
+      lines: [],
+      partial: { stdout: '', stderr: '' },
+      restartTimer: null
+    };
+    this.servers.set(this.key(project.name), server);
+    this.spawnChild(server);
+
+    const { listening, waiting } = await this.waitForPorts(server, options.waitMs);
+    return { server: { ...server.info }, ready: waiting.length === 0 && server.child !== null, listening, waiting };
+  }
+
+  async stop(projectName: string, graceMs: number): Promise<DevServerStopResult> {
+    const server = this.get(projectName);
+    const empty: TreeKillReport = { outcomes: [], exited: [], escalated: [], survived: [], failed: [], denied: [] };
+
+    if (server.restartTimer) {
+      clearTimeout(server.restartTimer);
+      server.restartTimer = null;
+    }
+
+    const child = server.child;
+    if (!child || child.pid === undefined) {
+      if (server.info.state === 'restarting') {
+        server.info.state = 'stopped';
+        this.log(server, 'supervisor', 'Stopped while waiting to restart');
+      }
+      return { server: { ...server.info }, processes: [], report: empty };
+    }
+
+    const previous = server.info.state;
+    server.info.state = 'stopping';
+    this.log(server, 'supervisor', `Stopping PID ${child.pid}`);
+    const processes = await this.killer.resolveTree([child.pid]);
+    const report = await this.killer.killResolved(processes, { force: false, graceMs });
+
+    // The child is still alive, so the server stays usable instead of being stuck in 'stopping'
+    const refused = report.denied.find(info => info.pid === child.pid);
+    if (refused) {
+      server.info.state = previous;
+      this.log(server, 'supervisor', `Kill policy rule "${refused.decision.rule}" refused to stop PID ${child.pid}: ${refused.decision.reason}`);
+      return { server: { ...server.info }, processes, report };
+    }
+    if (report.survived.includes(child.pid) || report.failed.includes(child.pid)) {
+      server.info.state = previous;
+      this.log(server, 'supervisor', `PID ${child.pid} is still running after the stop; call stop_project again`);
+      return { server: { ...server.info }, processes, report };
+    }
+
+    // Give the close handler a moment to record the exit status
+    if (server.child === child) {
+      await Promise.race([
+        new Promise(resolve => child.once('close', resolve)),
+        this.runner.sleep(1000)
+      ]);
+    }
+
+    return { server: { ...server.info }, processes, report };
+  }
+
+  /** The processes stop() would signal right now, without signalling them */
+  async resolveProcesses(projectName: string): Promise<ResolvedProcess[]> {
+    const child = this.get(projectName).child;
+    return child && child.pid !== undefined ? this.killer.resolveTree([child.pid]) : [];
+  }
+
+  logs(projectName: string, cursor: number, limit: number): DevServerLogResult {
+    const server = this.get(projectName);
+    const pending = server.lines.filter(line => line.seq > cursor);
+    const oldest = server.lines[0]?.seq ?? server.info.lastSeq + 1;
+    const lines = pending.slice(0, limit);
+
+    return {
+      server: { ...server.info },
+      lines,
+      cursor: lines.length > 0 ? lines[lines.length - 1].seq : Math.max(cursor, oldest - 1),
+      missed: Math.max(0, oldest - cursor - 1)
+    };
+  }
+
+  list(): DevServerInfo[] {
+    return [...this.servers.values()].map(server => ({ ...server.info }));
+  }
+
+  /**
+   * Synchronous so it can run from a process 'exit' handler: signals every
+   * running server's process group directly. It skips ProcessKiller and the
+   * kill policy, which are async, but only ever reaches process groups this
+   * server spawned itself.
+   */
+  killAll(): void {
+    for (const server of this.servers.values()) {
+      if (server.restartTimer) {
+        clearTimeout(server.restartTimer);
+      }
+      if (server.child?.pid !== undefined) {
+        try {
+          process.kill(-server.child.pid, 'SIGTERM');
+        } catch {
+          // Already gone
+        }
+      }
+    }
+  }
+
+  private async resolveCommand(project: ProjectInfo, devCommand?: string): Promise<LaunchCommand> {
+    if (devCommand) {
+      const [file, ...args] = splitCommandLine(devCommand);
+      return { file, args, display: devCommand };
+    }
+
+    let scripts: Record<string, unknown> = {};
+    try {
+      const packageJson = JSON.parse(await fs.readFile(join(project.directory, 'package.json'), 'utf-8'));
+      scripts = packageJson.scripts ?? {};
+    } catch {
+      // No package.json: fall through to the error below
+    }
+
+    const script = DEV_SCRIPTS.find(name => typeof scripts[name] === 'string');
+    if (!script) {
+      throw new Error(`No dev command for "${project.name}": ${join(project.directory, 'package.json')} has no ${DEV_SCRIPTS.join(', ')} script. Add one, or set devCommand in ${join(project.directory, PROJECT_CONFIG_FILE)}.`);
+    }
+
+    let packageManager = 'npm';
+    for (const [lockfile, manager] of LOCKFILES) {
+      if (await fs.access(join(project.directory, lockfile)).then(() => true, () => false)) {
+        packageManager = manager;
+        break;
+      }
+    }
+
+    return { file: packageManager, args: ['run', script], display: `${packageManager} run ${script}` };
+  }
+
+  private spawnChild(server: DevServer): void {
+    const { launch } = server;
+    // Own process group, so killAll can take the whole tree down on exit
+    const child = spawn(launch.file, launch.args, {
+      cwd: server.info.directory,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    server.child = child;
+    server.info.pid = child.pid ?? null;
+    server.info.state = 'running';
+    server.info.exitCode = null;
+    server.info.exitSignal = null;
+    this.log(server, 'supervisor', `Started \`${launch.display}\` in ${server.info.directory} (PID ${child.pid ?? 'unknown'})`);
+
+    child.stdout?.on('data', (chunk: Buffer) => this.appendOutput(server, 'stdout', chunk.toString()));
+    child.stderr?.on('data', (chunk: Buffer) => this.appendOutput(server, 'stderr', chunk.toString()));
+    child.on('error', error => this.handleExit(server, child, null, null, error.message));
+    child.on('close', (code, signal) => this.handleExit(server, child, code, signal, null));
+  }
+
+  private handleExit(server: DevServer, child: ChildProcess, code: number | null, signal: string | null, error: string | null): void {
+    // 'error' and 'close' can both fire for one child
+    if (server.child !== child) {
+      return;
+    }
+    server.child = null;
+    this.flushPartial(server);
+
+    server.info.pid = null;
+    server.info.exitCode = code;
+    server.info.exitSignal = signal;
+    const how = error ? `failed: ${error}` : signal ? `was killed by ${signal}` : `exited with code ${code}`;
+
+    if (server.info.state === 'stopping') {
+      server.info.state = 'stopped';
+      this.log(server, 'supervisor', `Stopped (${how})`);
+      return;
+    }
+
+    const failed = error !== null || code !== 0;
+    const policy = server.info.restartPolicy;
+    const wantsRestart = policy === 'always' || (policy === 'on-failure' && failed);
+
+    if (wantsRestart && server.info.restarts < server.info.maxRestarts) {
+      server.info.restarts++;
+      const delay = Math.min(1000 * 2 ** (server.info.restarts - 1), this.MAX_BACKOFF_MS);
+      server.info.state = 'restarting';
+      this.log(server, 'supervisor', `Process ${how}; restarting in ${delay / 1000}s (restart ${server.info.restarts} of ${server.info.maxRestarts})`);
+      server.restartTimer = setTimeout(() => {
+        server.restartTimer = null;
+        this.spawnChild(server);
+      }, delay);
+      server.restartTimer.unref();
+      return;
+    }
+
+    server.info.state = failed ? 'crashed' : 'exited';
+    this.log(server, 'supervisor', wantsRestart ? `Process ${how}; giving up after ${server.info.restarts} restarts` : `Process ${how}`);
+  }
+
+  private async waitForPorts(server: DevServer, waitMs: number): Promise<{ listening: number[]; waiting: number[] }> {
+    const deadline = this.runner.now() + waitMs;
+    let listening: number[] = [];
+
+    for (;;) {
+      listening = [];
+      for (const port of server.info.ports) {
+        if (portListeners(await this.backend.getPortProcesses(port), port).length > 0) {
+          listening.push(port);
+        }
+      }
+
+      const waiting = server.info.ports.filter(port => !listening.includes(port));
+      // Stop early once everything is up or the process has already died
+      if (waiting.length === 0 || !server.child || this.runner.now() >= deadline) {
+        return { listening, waiting };
+      }
+      await this.runner.sleep(this.PORT_POLL_MS);
+    }
+  }
+
+  private appendOutput(server: DevServer, stream: 'stdout' | 'stderr', chunk: string): void {
+    const lines = (server.partial[stream] + chunk).split(/\r?\n/);
+    server.partial[stream] = lines.pop() ?? '';
+    if (server.partial[stream].length > this.MAX_LINE_LENGTH) {
+      lines.push(server.partial[stream]);
+      server.partial[stream] = '';
+    }
+    for (const line of lines) {
+      this.log(server, stream, line);
+    }
+  }
+
+  private flushPartial(server: DevServer): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (server.partial[stream]) {
+        this.log(server, stream, server.partial[stream]);
+        server.partial[stream] = '';
+      }
+    }
+  }
+
+  private log(server: DevServer, stream: DevServerLogLine['stream'], text: string): void {
+    server.lines.push({
+      seq: ++server.info.lastSeq,
+      timestamp: this.runner.now(),
+      stream,
+      text: text.length > this.MAX_LINE_LENGTH ? `${text.slice(0, this.MAX_LINE_LENGTH)}…` : text
+    });
+    if (server.lines.length > this.MAX_LOG_LINES) {
+      server.lines.shift();
+    }
+  }
+
+  private isActive(server: DevServer): boolean {
+    return server.info.state === 'running' || server.info.state === 'restarting' || server.info.state === 'stopping';
+  }
+
+  private get(projectName: string): DevServer {
+    const server = this.servers.get(this.key(projectName));
+    if (!server) {
+      throw new Error(`No dev server has been started for "${projectName}". Use "start_project" first.`);
+    }
+    return server;
+  }
+
+  private key(projectName: string): string {
+    return projectName.toLowerCase();
+  }
+}
+
+// Outside single quotes these mean something only to a shell
+const SHELL_SYNTAX = /[|&;<>()$`*?[\]{}~]/;
+
+/**
+ * Splits a command line into program and arguments the way a shell would for
+ * plain words, 'single' and "double" quotes and backslash escapes. Anything
+ * that needs a real shell (pipes, redirects, variables, globs, FOO=bar
+ * prefixes) is rejected rather than passed on literally.
+ */
+function splitCommandLine(command: string): string[] {
+  const words: string[] = [];
+  let word: string | null = null;
+  let quote: '\'' | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === '\'') {
+      if (char === '\'') {
+        quote = null;
+      } else {
+        word += char;
+      }
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < command.length) {
+      const next = command[++i];
+      // Inside double quotes a backslash only escapes characters that are special there
+      word = (word ?? '') + (quote === '"' && !'"\\$`'.includes(next) ? `\\${next}` : next);
+      continue;
+    }
+    if (quote === '"' && char === '"') {
+      quote = null;
+      continue;
+    }
+    if (quote === null && (char === '\'' || char === '"')) {
+      quote = char;
+      word = word ?? '';
+      continue;
+    }
+    if (quote === null && /\s/.test(char)) {
+      if (word !== null) {
+        words.push(word);
+        word = null;
+      }
+      continue;
+    }
+    if ((quote === null && SHELL_SYNTAX.test(char)) || (quote === '"' && (char === '$' || char === '`'))) {
+      throw new Error(`Unsupported shell syntax "${char}" in command: ${command}. Commands run without a shell; put pipelines, redirects, variables and globs in a package.json script instead.`);
+    }
+    word = (word ?? '') + char;
+  }
+
+  if (quote !== null) {
+    throw new Error(`Unterminated ${quote} quote in command: ${command}`);
+  }
+  if (word !== null) {
+    words.push(word);
+  }
+  if (words.length === 0) {
+    throw new Error('Command is empty');
+  }
+  if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+    throw new Error(`Unsupported environment assignment "${words[0]}" in command: ${command}. Commands run without a shell; set variables in a package.json script instead.`);
+  }
+  return words;
+}
@@ -0,0 +1,201 @@
+import { CommandRunner } from './command-runner.js';
+
+export interface PublishedPort {
+  hostIp: string;
+  hostPort: number;
+  containerPort: number;
+  protocol: 'tcp' | 'udp' | 'sctp';
+}
+
+export interface ContainerInfo {
+  id: string;
+  name: string;
+  image: string;
+  state: string;
+  /** Human-readable status from docker, e.g. "Up 2 hours" */
+  status: string;
+  composeProject?: string;
+  composeService?: string;
+  /** Directory compose was run from */
+  composeDirectory?: string;
+  ports: PublishedPort[];
+}
+
+/** The container publishing a host port, and where that port leads inside it */
+export interface PortContainer {
+  id: string;
+  name: string;
+  image: string;
+  composeProject?: string;
+  composeService?: string;
+  containerPort: number;
+  protocol: PublishedPort['protocol'];
+}
+
+interface DockerPsRow {
+  ID?: string;
+  Names?: string;
+  Image?: string;
+  State?: string;
+  Status?: string;
+  Ports?: string;
+  Labels?: string;
+}
+
+// "0.0.0.0:8000-8002->8000-8002/tcp", "[::]:5432->5432/tcp", ":::6379->6379/tcp"
+const PUBLISHED_PORT = /^(.*):(\d+)(?:-(\d+))?->(\d+)(?:-(\d+))?\/(tcp|udp|sctp)$/;
+
+// Names and IDs only, so a reference can never be read as a docker option
+const CONTAINER_REFERENCE = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+/**
+ * Maps host ports to the Docker containers publishing them, using the
+ * `docker` CLI's JSON output. On macOS those ports belong to
+ * com.docker.backend or docker-proxy, which tells you nothing about which
+ * container is behind them. When Docker is not installed, its daemon is down
+ * or `docker ps` does not answer within a few seconds, every lookup returns
+ * nothing, so callers behave as they did before.
+ */
+export class DockerInspector {
+  private readonly CACHE_MS = 2000;
+  // Don't pay for a failing `docker` call on every port when Docker is absent
+  private readonly UNAVAILABLE_RETRY_MS = 30 * 1000;
+  private readonly PS_TIMEOUT_MS = 5 * 1000;
+  private cache: { containers: ContainerInfo[] | null; at: number } | null = null;
+
+  constructor(private readonly runner: CommandRunner) {}
+
+  /** Running containers, or null when Docker cannot be reached */
+  async listContainers(): Promise<ContainerInfo[] | null> {
+    const now = this.runner.now();
+    if (this.cache) {
+      const maxAge = this.cache.containers ? this.CACHE_MS : this.UNAVAILABLE_RETRY_MS;
+      if (now - this.cache.at < maxAge) {
+        return this.cache.containers;
+      }
+    }
+
+    let containers: ContainerInfo[] | null;
+    try {
+      // A daemon that stopped answering would otherwise hold up every port lookup
+      const { stdout } = await this.runner.exec('docker', ['ps', '--no-trunc', '--format', '{{json .}}'], { timeoutMs: this.PS_TIMEOUT_MS });
+      containers = this.parseContainers(stdout);
+    } catch {
+      containers = null;
+    }
+
+    this.cache = { containers, at: now };
+    return containers;
+  }
+
+  async findByPort(port: number): Promise<PortContainer | null> {
+    for (const container of (await this.listContainers()) ?? []) {
+      const published = container.ports.find(mapping => mapping.hostPort === port);
+      if (published) {
+        const { ports: _ports, state: _state, status: _status, composeDirectory: _directory, ...summary } = container;
+        return { ...summary, containerPort: published.containerPort, protocol: published.protocol };
+      }
+    }
+    return null;
+  }
+
+  /** Resolves a running container by name or ID prefix */
+  async findContainer(reference: string): Promise<ContainerInfo> {
+    if (!CONTAINER_REFERENCE.test(reference)) {
+      throw new Error(`Invalid container name or ID: ${reference}`);
+    }
+
+    const containers = await this.listContainers();
+    if (!containers) {
+      throw new Error('Docker is not available (the docker CLI is missing or the daemon is not running)');
+    }
+
+    const matches = containers.filter(container => container.name === reference || container.id.startsWith(reference));
+    if (matches.length === 0) {
+      throw new Error(`No running container named or with ID "${reference}"`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${reference}" matches ${matches.length} containers: ${matches.map(container => container.name).join(', ')}`);
+    }
+    return matches[0];
+  }
+
+  async stopContainer(container: ContainerInfo, timeoutSeconds: number): Promise<void> {
+    // docker stop waits out the container's own grace period before it returns
+    await this.runner.exec('docker', ['stop', '--time', String(Math.round(timeoutSeconds)), container.id], {
+      timeoutMs: (Math.round(timeoutSeconds) + 30) * 1000
+    });
+    this.cache = null;
+  }
+
+  private parseContainers(stdout: string): ContainerInfo[] {
+    const containers: ContainerInfo[] = [];
+
+    for (const line of stdout.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let row: DockerPsRow;
+      try {
+        row = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (!row.ID || !row.Names) {
+        continue;
+      }
+
+      const labels = this.parseLabels(row.Labels ?? '');
+      containers.push({
+        id: row.ID,
+        // Linked containers list extra names after the first
+        name: row.Names.split(',')[0],
+        image: row.Image ?? '',
+        state: row.State ?? '',
+        status: row.Status ?? '',
+        composeProject: labels['com.docker.compose.project'],
+        composeService: labels['com.docker.compose.service'],
+        composeDirectory: labels['com.docker.compose.project.working_dir'],
+        ports: this.parsePorts(row.Ports ?? '')
+      });
+    }
+
+    return containers;
+  }
+
+  private parsePorts(ports: string): PublishedPort[] {
+    const published: PublishedPort[] = [];
+
+    for (const entry of ports.split(',').map(part => part.trim())) {
+      // Exposed but unpublished ports ("5432/tcp") have no host side
+      const match = entry.match(PUBLISHED_PORT);
+      if (!match) {
+        continue;
+      }
+
+      const hostIp = match[1].replace(/^\[|\]$/g, '') || '::';
+      const hostStart = parseInt(match[2], 10);
+      const hostEnd = match[3] ? parseInt(match[3], 10) : hostStart;
+      const containerStart = parseInt(match[4], 10);
+      const protocol = match[6] as PublishedPort['protocol'];
+
+      for (let offset = 0; offset <= hostEnd - hostStart; offset++) {
+        published.push({ hostIp, hostPort: hostStart + offset, containerPort: containerStart + offset, protocol });
+      }
+    }
+
+    return published;
+  }
+
+  private parseLabels(labels: string): Record<string, string> {
+    const parsed: Record<string, string> = {};
+    for (const pair of labels.split(',')) {
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        parsed[pair.slice(0, separator)] = pair.slice(separator + 1);
+      }
+    }
+    return parsed;
+  }
+}
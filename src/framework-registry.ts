@@ -0,0 +1,222 @@
+/** One dev server kind: how to recognise its processes and its projects */
+export interface FrameworkDefinition {
+  /** Display name, e.g. "Next.js"; detect_project reports it as the project's framework */
+  name: string;
+  /** Argument sequences of a running dev server's command line, matched by matchesProcessPattern */
+  processPatterns: string[];
+  /** Ports the dev server listens on when nothing in the project overrides them */
+  defaultPorts: number[];
+  /**
+   * Files relative to the project root that identify the framework. Names
+   * without a matching file are also tried with .js, .mjs, .cjs, .ts, .mts
+   * and .cts, so "vite.config" finds vite.config.ts.
+   */
+  configFiles: string[];
+  /** Variables in a project's .env files, besides PORT, that set the dev server's port */
+  envPorts: string[];
+  /** package.json dependencies that identify the framework */
+  dependencies: string[];
+}
+
+/**
+ * Built-in frameworks, keyed by the id kill_dev_servers takes as server_type.
+ * Project detection tries them in this order and takes the first match, so
+ * meta-frameworks come before the bundler they are built on (Astro and
+ * SvelteKit ship Vite) and Storybook, usually added to an app, comes last.
+ * Package manager entries only match processes; they never identify a project.
+ */
+export const DEFAULT_FRAMEWORKS: Record<string, FrameworkDefinition> = {
+  next: {
+    name: 'Next.js',
+    processPatterns: ['next dev', 'next start'],
+    defaultPorts: [3000],
+    configFiles: ['next.config'],
+    envPorts: [],
+    dependencies: ['next']
+  },
+  nuxt: {
+    name: 'Nuxt',
+    processPatterns: ['nuxt dev', 'nuxi dev'],
+    defaultPorts: [3000],
+    configFiles: ['nuxt.config'],
+    envPorts: ['NUXT_PORT', 'NITRO_PORT'],
+    dependencies: ['nuxt']
+  },
+  astro: {
+    name: 'Astro',
+    processPatterns: ['astro dev', 'astro preview'],
+    defaultPorts: [4321],
+    configFiles: ['astro.config'],
+    envPorts: [],
+    dependencies: ['astro']
+  },
+  sveltekit: {
+    name: 'SvelteKit',
+    processPatterns: [],
+    defaultPorts: [5173],
+    configFiles: ['svelte.config'],
+    envPorts: [],
+    dependencies: ['@sveltejs/kit']
+  },
+  remix: {
+    name: 'Remix',
+    processPatterns: ['remix dev', 'remix vite:dev'],
+    defaultPorts: [3000],
+    configFiles: ['remix.config'],
+    envPorts: [],
+    dependencies: ['@remix-run/dev']
+  },
+  gatsby: {
+    name: 'Gatsby',
+    processPatterns: ['gatsby develop'],
+    defaultPorts: [8000],
+    configFiles: ['gatsby-config'],
+    envPorts: [],
+    dependencies: ['gatsby']
+  },
+  angular: {
+    name: 'Angular',
+    processPatterns: ['ng serve'],
+    defaultPorts: [4200],
+    configFiles: ['angular.json'],
+    envPorts: [],
+    dependencies: ['@angular/cli']
+  },
+  'create-react-app': {
+    name: 'Create React App',
+    processPatterns: ['react-scripts start'],
+    defaultPorts: [3000],
+    configFiles: [],
+    envPorts: [],
+    dependencies: ['react-scripts']
+  },
+  vite: {
+    name: 'Vite',
+    processPatterns: ['vite', 'vite dev', 'vite serve'],
+    defaultPorts: [5173],
+    configFiles: ['vite.config'],
+    envPorts: [],
+    dependencies: ['vite']
+  },
+  webpack: {
+    name: 'webpack',
+    processPatterns: ['webpack serve', 'webpack-dev-server'],
+    defaultPorts: [8080],
+    configFiles: ['webpack.config'],
+    envPorts: [],
+    dependencies: ['webpack-dev-server']
+  },
+  django: {
+    name: 'Django',
+    processPatterns: ['manage.py runserver', 'django-admin runserver'],
+    defaultPorts: [8000],
+    configFiles: ['manage.py'],
+    envPorts: [],
+    dependencies: []
+  },
+  rails: {
+    name: 'Rails',
+    processPatterns: ['rails server', 'puma -C config/puma.rb'],
+    defaultPorts: [3000],
+    configFiles: ['config/puma.rb', 'bin/rails'],
+    envPorts: [],
+    dependencies: []
+  },
+  flask: {
+    name: 'Flask',
+    processPatterns: ['flask run'],
+    defaultPorts: [5000],
+    configFiles: ['.flaskenv'],
+    envPorts: ['FLASK_RUN_PORT'],
+    dependencies: []
+  },
+  deno: {
+    name: 'Deno',
+    processPatterns: ['deno task dev', 'deno task start', 'deno serve'],
+    defaultPorts: [8000],
+    configFiles: ['deno.json', 'deno.jsonc'],
+    envPorts: [],
+    dependencies: []
+  },
+  npm: {
+    name: 'npm',
+    processPatterns: ['npm run dev', 'npm start', 'npm run serve'],
+    defaultPorts: [],
+    configFiles: [],
+    envPorts: [],
+    dependencies: []
+  },
+  pnpm: {
+    name: 'pnpm',
+    processPatterns: ['pnpm dev', 'pnpm run dev', 'pnpm start'],
+    defaultPorts: [],
+    configFiles: [],
+    envPorts: [],
+    dependencies: []
+  },
+  yarn: {
+    name: 'Yarn',
+    processPatterns: ['yarn dev', 'yarn run dev', 'yarn start'],
+    defaultPorts: [],
+    configFiles: [],
+    envPorts: [],
+    dependencies: []
+  },
+  bun: {
+    name: 'Bun',
+    processPatterns: ['bun dev', 'bun run dev', 'bun --watch'],
+    defaultPorts: [],
+    configFiles: [],
+    envPorts: [],
+    dependencies: []
+  },
+  storybook: {
+    name: 'Storybook',
+    processPatterns: ['storybook dev', 'start-storybook'],
+    defaultPorts: [6006],
+    configFiles: ['.storybook/main'],
+    envPorts: ['SBCONFIG_PORT'],
+    dependencies: ['storybook']
+  }
+};
+
+/** Ids kill_dev_servers accepts: every framework with at least one process pattern */
+export function killableServerTypes(frameworks: Record<string, FrameworkDefinition>): string[] {
+  return Object.keys(frameworks).filter(id => frameworks[id].processPatterns.length > 0);
+}
+
+/**
+ * True when the command line runs the pattern. The pattern's first word must
+ * be a whole argument, or the file name at the end of one with an optional
+ * .js, .mjs or .cjs (node_modules/.bin/vite, vite.js), and its other words
+ * the arguments right after it. Plain substrings would also catch vitest,
+ * an /invite-service/ path or an editor opened on a vite-app folder.
+ */
+export function matchesProcessPattern(command: string, pattern: string): boolean {
+  const args = command.split(/\s+/).filter(arg => arg);
+  const [first, ...rest] = pattern.split(/\s+/).filter(word => word);
+  if (!first) {
+    return false;
+  }
+
+  return args.some((arg, index) =>
+    (arg === first || arg.slice(arg.lastIndexOf('/') + 1).replace(/\.[mc]?js$/, '') === first.replace(/\.[mc]?js$/, '')) &&
+    rest.every((word, offset) => args[index + 1 + offset] === word)
+  );
+}
+
+/** Every process pattern in the registry, for callers that only care whether something is a dev server */
+export function allProcessPatterns(frameworks: Record<string, FrameworkDefinition>): string[] {
+  return [...new Set(Object.values(frameworks).flatMap(framework => framework.processPatterns))];
+}
+
+export function cloneFrameworks(frameworks: Record<string, FrameworkDefinition>): Record<string, FrameworkDefinition> {
+  return Object.fromEntries(Object.entries(frameworks).map(([id, framework]) => [id, {
+    name: framework.name,
+    processPatterns: [...framework.processPatterns],
+    defaultPorts: [...framework.defaultPorts],
+    configFiles: [...framework.configFiles],
+    envPorts: [...framework.envPorts],
+    dependencies: [...framework.dependencies]
+  }]));
+}
@@ -5,10 +5,27 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel,
   CallToolResult,
   TextContent,
 } from '@modelcontextprotocol/sdk/types.js';
-import { MacResourceManager } from './resource-manager.js';
+import { MacResourceManager, ToolResult } from './resource-manager.js';
+import { createCommandRunner, ExecFileCommandRunner, RecordingCommandRunner } from './command-runner.js';
+import { DEFAULT_GRACE_MS } from './process-killer.js';
+import { KillConfirmation } from './kill-plan.js';
+import { AuditOutcome, AUDIT_OUTCOMES } from './audit-log.js';
+import { ResourcePublisher } from './resource-publisher.js';
+import { DEFAULT_MONITOR_DURATION_MS } from './port-monitor.js';
+import { RestartPolicy } from './dev-server-supervisor.js';
+import { OrphanReason } from './orphan-detector.js';
+import { ToolDefinition, validateToolArguments } from './tool-arguments.js';
+import { killableServerTypes } from './framework-registry.js';
 
 const server = new Server(
   {
@@ -18,207 +35,905 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {
+        subscribe: true,
+        listChanged: true,
+      },
+      logging: {},
     },
   }
 );
 
-const resourceManager = new MacResourceManager();
+const runner = createCommandRunner();
+const resourceManager = new MacResourceManager(runner);
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+let logLevel: LoggingLevel = 'info';
+
+// Background monitor events go out as logging notifications as they happen
+resourceManager.onMonitorEvent((monitor, event) => {
+  const level: LoggingLevel = event.change === 'error' ? 'warning' : 'info';
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(logLevel)) {
+    return;
+  }
+  server.sendLoggingMessage({
+    level,
+    logger: `port-monitor/${monitor.id}`,
+    data: { monitorId: monitor.id, message: resourceManager.formatMonitorEvent(event), event },
+  }).catch(() => {
+    // Not connected yet, or the client went away; events stay pollable
+  });
+});
+
+const resourcePublisher = new ResourcePublisher(resourceManager, {
+  resourceUpdated: (uri) => server.sendResourceUpdated({ uri }),
+  resourceListChanged: () => server.sendResourceListChanged(),
+});
+
+// Every tool accepts `format`; structured data is always attached as structuredContent
+const GRACE_PROPERTY = {
+  type: 'number',
+  description: 'Seconds to wait after SIGTERM before escalating to SIGKILL (default: 5)',
+  default: 5,
+  minimum: 0,
+  maximum: 60,
+};
+
+const PLAN_PROPERTY = {
+  type: 'boolean',
+  description: 'Dry run: return the processes that would be signalled and a confirmation token instead of killing',
+  default: false,
+};
+
+const CONFIRMATION_TOKEN_PROPERTY = {
+  type: 'string',
+  description: 'Token from an earlier plan; the kill only runs if the same processes are still targeted',
+};
+
+const FORMAT_PROPERTY = {
+  type: 'string',
+  description: 'Response format: "text" for the human-readable summary, "json" to return the structured result as JSON text',
+  enum: ['text', 'json'],
+  default: 'text',
+};
+
+function graceMs(args: Record<string, unknown> | undefined): number {
+  const seconds = args?.grace_seconds;
+  return typeof seconds === 'number' && seconds >= 0 ? Math.min(seconds, 60) * 1000 : DEFAULT_GRACE_MS;
+}
+
+function confirmation(args: Record<string, unknown> | undefined): KillConfirmation {
+  return {
+    plan: args?.plan === true,
+    token: typeof args?.confirmation_token === 'string' ? args.confirmation_token : undefined,
+  };
+}
+
+function applyFormat(result: ToolResult, format: unknown): ToolResult {
+  if (format !== 'json' || result.structuredContent === undefined) {
+    return result;
+  }
   return {
-    tools: [
-      {
-        name: 'check_port',
-        description: 'Check if a specific port is in use and show process details',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            port: {
-              type: 'number',
-              description: 'Port number to check (1-65535)',
-              minimum: 1,
-              maximum: 65535,
-            },
-          },
-          required: ['port'],
-        },
-      },
-      {
-        name: 'kill_port',
-        description: 'Kill processes running on a specific port',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            port: {
-              type: 'number',
-              description: 'Port number to kill processes on (1-65535)',
-              minimum: 1,
-              maximum: 65535,
-            },
-            force: {
-              type: 'boolean',
-              description: 'Force kill with SIGKILL instead of graceful SIGTERM',
-              default: false,
-            },
-          },
-          required: ['port'],
-        },
-      },
-      {
-        name: 'list_dev_ports',
-        description: 'Check status of common development ports (3000, 3001, 4321, 5173, 8000, 8080, 8100, 9000)',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'system_resources',
-        description: 'Get current system resource usage (memory, CPU, network)',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'kill_dev_servers',
-        description: 'Kill development servers by type or all',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            server_type: {
-              type: 'string',
-              description: 'Type of server to kill: astro, npm, vite, next, or all',
-              enum: ['astro', 'npm', 'vite', 'next', 'all'],
-              default: 'all',
-            },
-          },
-        },
-      },
-      {
-        name: 'monitor_port',
-        description: 'Monitor a port for changes in real-time',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            port: {
-              type: 'number',
-              description: 'Port number to monitor (1-65535)',
-              minimum: 1,
-              maximum: 65535,
-            },
-            duration: {
-              type: 'number',
-              description: 'Duration to monitor in seconds (default: 30)',
-              default: 30,
-              minimum: 5,
-              maximum: 300,
-            },
-          },
-          required: ['port'],
-        },
-      },
-      {
-        name: 'list_protected_services',
-        description: 'List all protected ports and services that cannot be killed',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'kill_dev_servers_selective',
-        description: 'Intelligently kill only development servers while protecting databases and system services',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'add_project',
-        description: 'Register a project with its ports for session persistence',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'Project name',
-            },
-            directory: {
-              type: 'string',
-              description: 'Project directory path',
-            },
-            ports: {
-              type: 'array',
-              items: { type: 'number' },
-              description: 'Array of ports used by this project',
-            },
-            framework: {
-              type: 'string',
-              description: 'Framework being used (e.g., Next.js, Astro, Vite)',
-            },
-          },
-          required: ['name', 'directory', 'ports', 'framework'],
-        },
-      },
-      {
-        name: 'list_active_projects',
-        description: 'List all registered active projects and their ports',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'kill_project_ports',
-        description: 'Kill ports for a specific project only',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            project_name: {
-              type: 'string',
-              description: 'Name of the project to clean up',
-            },
-          },
-          required: ['project_name'],
-        },
-      },
-      {
-        name: 'add_protected_port',
-        description: 'Add a custom port to the protected list',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            port: {
-              type: 'number',
-              description: 'Port number to protect (1-65535)',
-              minimum: 1,
-              maximum: 65535,
-            },
-            service: {
-              type: 'string',
-              description: 'Description of the service running on this port',
-            },
-          },
-          required: ['port', 'service'],
-        },
-      },
-    ],
+    ...result,
+    content: [{
+      type: 'text',
+      text: JSON.stringify(result.structuredContent, null, 2),
+    }],
   };
+}
+
+// Dev ports and the framework registry come from config files, so the tools describe the current ones
+function listTools(): ToolDefinition[] {
+  const { commonDevPorts, frameworks } = resourceManager.getResourceTables();
+  const serverTypes = [...killableServerTypes(frameworks), 'all'];
+  const frameworkNames = [...new Set(Object.values(frameworks).map(framework => framework.name))];
+
+  return [
+    {
+      name: 'check_port',
+      description: 'Check if a specific port is in use and show process details',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          port: {
+            type: 'number',
+            description: 'Port number to check (1-65535)',
+            minimum: 1,
+            maximum: 65535,
+          },
+        },
+        required: ['port'],
+      },
+    },
+    {
+      name: 'process_info',
+      description: 'Inspect a process by PID, or every process holding a port: full command line, working directory, user, parent and children, start time, CPU, memory, listening sockets, owning project and anything that makes it unsafe to kill. Use before killing something you did not start.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          pid: {
+            type: 'number',
+            description: 'Process ID to inspect',
+            minimum: 1,
+          },
+          port: {
+            type: 'number',
+            description: 'Inspect the processes using this port instead (1-65535)',
+            minimum: 1,
+            maximum: 65535,
+          },
+        },
+      },
+    },
+    {
+      name: 'kill_port',
+      description: 'Kill processes running on a specific port',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          port: {
+            type: 'number',
+            description: 'Port number to kill processes on (1-65535)',
+            minimum: 1,
+            maximum: 65535,
+          },
+          force: {
+            type: 'boolean',
+            description: 'Force kill with SIGKILL instead of graceful SIGTERM',
+            default: false,
+          },
+          include_clients: {
+            type: 'boolean',
+            description: 'Also kill processes that only hold client connections to the port, not just its listeners',
+            default: false,
+          },
+          grace_seconds: GRACE_PROPERTY,
+          plan: PLAN_PROPERTY,
+          confirmation_token: CONFIRMATION_TOKEN_PROPERTY,
+        },
+        required: ['port'],
+      },
+    },
+    {
+      name: 'list_dev_ports',
+      description: `Check status of common development ports (${commonDevPorts.join(', ')})`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'system_resources',
+      description: 'Get current system resource usage (memory, CPU, network)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'top_consumers',
+      description: 'Show which project and dev-server processes used the most CPU or memory over the last few minutes, grouped by registered project',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          limit: {
+            type: 'number',
+            description: 'Number of processes to list (default: 10)',
+            default: 10,
+            minimum: 1,
+            maximum: 100,
+          },
+          minutes: {
+            type: 'number',
+            description: 'Look back this many minutes, up to 60 (default: 10)',
+            default: 10,
+            minimum: 1,
+            maximum: 60,
+          },
+          sort_by: {
+            type: 'string',
+            enum: ['cpu', 'memory'],
+            description: 'Rank by average CPU or average resident memory (default: cpu)',
+            default: 'cpu',
+          },
+        },
+      },
+    },
+    {
+      name: 'kill_dev_servers',
+      description: 'Kill development servers by type or all',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          server_type: {
+            type: 'string',
+            description: `Type of server to kill: ${serverTypes.map(type => type === 'all' ? type : `${type} (${frameworks[type].name})`).join(', ')}`,
+            enum: serverTypes,
+            default: 'all',
+          },
+          grace_seconds: GRACE_PROPERTY,
+          plan: PLAN_PROPERTY,
+          confirmation_token: CONFIRMATION_TOKEN_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'find_orphans',
+      description: 'Find forgotten dev servers: processes matching the dev-server patterns or listening on a dev port that run outside every registered project, from a deleted directory, or have had no inbound connections for idle_minutes',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          idle_minutes: {
+            type: 'number',
+            description: 'Minutes without an inbound connection before a listening dev server counts as idle (default: 30)',
+            minimum: 1,
+            default: 30,
+          },
+        },
+      },
+    },
+    {
+      name: 'kill_orphans',
+      description: 'Kill the orphaned dev servers find_orphans reports, with the same protection checks as kill_port. Use plan: true first to review',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          idle_minutes: {
+            type: 'number',
+            description: 'Minutes without an inbound connection before a listening dev server counts as idle (default: 30)',
+            minimum: 1,
+            default: 30,
+          },
+          reasons: {
+            type: 'array',
+            items: { type: 'string', enum: ['outside-projects', 'missing-directory', 'idle'] },
+            description: 'Only kill orphans flagged for at least one of these reasons (default: missing-directory and idle, so an unregistered server in active use survives)',
+          },
+          grace_seconds: GRACE_PROPERTY,
+          plan: PLAN_PROPERTY,
+          confirmation_token: CONFIRMATION_TOKEN_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'monitor_port',
+      description: 'Monitor a port for changes, blocking until the duration ends. Prefer start_port_monitor to keep working while ports are watched',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          port: {
+            type: 'number',
+            description: 'Port number to monitor (1-65535)',
+            minimum: 1,
+            maximum: 65535,
+          },
+          duration: {
+            type: 'number',
+            description: 'Duration to monitor in seconds (default: 30)',
+            default: 30,
+            minimum: 5,
+            maximum: 300,
+          },
+        },
+        required: ['port'],
+      },
+    },
+    {
+      name: 'start_port_monitor',
+      description: 'Watch one or more ports in the background and return a monitor ID immediately; read changes with poll_port_monitor',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          ports: {
+            type: 'array',
+            items: { type: 'number', minimum: 1, maximum: 65535 },
+            description: 'Ports to watch (up to 50)',
+          },
+          interval_ms: {
+            type: 'number',
+            description: 'How often to check the ports in milliseconds (default: 1000)',
+            default: 1000,
+            minimum: 250,
+            maximum: 60000,
+          },
+          duration_seconds: {
+            type: 'number',
+            description: 'Stop automatically after this many seconds (default: 3600, max: 86400)',
+            default: 3600,
+            minimum: 1,
+            maximum: 86400,
+          },
+        },
+        required: ['ports'],
+      },
+    },
+    {
+      name: 'poll_port_monitor',
+      description: 'Get change events a background monitor recorded after the given cursor',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          monitor_id: {
+            type: 'string',
+            description: 'ID returned by start_port_monitor',
+          },
+          cursor: {
+            type: 'number',
+            description: 'Cursor from the previous poll; 0 for all buffered events (default: 0)',
+            default: 0,
+            minimum: 0,
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of events to return (default: 100)',
+            default: 100,
+            minimum: 1,
+          },
+        },
+        required: ['monitor_id'],
+      },
+    },
+    {
+      name: 'stop_port_monitor',
+      description: 'Stop a background port monitor; its buffered events can still be polled',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          monitor_id: {
+            type: 'string',
+            description: 'ID returned by start_port_monitor',
+          },
+        },
+        required: ['monitor_id'],
+      },
+    },
+    {
+      name: 'list_port_monitors',
+      description: 'List background port monitors and whether they are still running',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'stop_container',
+      description: 'Stop a running Docker container by name or ID, e.g. the one publishing a port that kill_port refused to touch. A container publishing a protected port is only stopped from a confirmed plan (plan: true, then confirmation_token)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          container: {
+            type: 'string',
+            description: 'Container name or ID prefix',
+          },
+          timeout_seconds: {
+            type: 'number',
+            description: 'Seconds Docker waits after SIGTERM before killing the container (default: 10)',
+            default: 10,
+            minimum: 0,
+            maximum: 300,
+          },
+          plan: PLAN_PROPERTY,
+          confirmation_token: CONFIRMATION_TOKEN_PROPERTY,
+        },
+        required: ['container'],
+      },
+    },
+    {
+      name: 'take_socket_snapshot',
+      description: 'Record every listening TCP socket and bound UDP socket on the machine (port, protocol, bind address, PID, command) for later comparison',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          name: {
+            type: 'string',
+            description: 'Optional name to keep this snapshot beyond the recent history; replaces an older snapshot with the same name',
+          },
+        },
+      },
+    },
+    {
+      name: 'list_socket_snapshots',
+      description: 'List stored socket snapshots, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'diff_socket_snapshots',
+      description: 'Show new listeners, vanished listeners and owner changes between two socket snapshots',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          from: {
+            type: 'string',
+            description: 'Snapshot ID, name, or age such as "5m", "2h" or "1d" (the newest snapshot at least that old)',
+          },
+          to: {
+            type: 'string',
+            description: 'Snapshot to compare against; omit to take a fresh snapshot now',
+          },
+        },
+        required: ['from'],
+      },
+    },
+    {
+      name: 'find_free_port',
+      description: 'Find free ports in a range, skipping protected ports and ports registered to other projects',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          range_start: {
+            type: 'number',
+            description: 'First port of the search range (default: 3000)',
+            default: 3000,
+            minimum: 1,
+            maximum: 65535,
+          },
+          range_end: {
+            type: 'number',
+            description: 'Last port of the search range (default: 9999)',
+            default: 9999,
+            minimum: 1,
+            maximum: 65535,
+          },
+          preferred: {
+            type: 'number',
+            description: 'Port to try first; the search continues upward and wraps around the range',
+            minimum: 1,
+            maximum: 65535,
+          },
+          count: {
+            type: 'number',
+            description: 'Number of free ports to return (default: 1)',
+            default: 1,
+            minimum: 1,
+          },
+          consecutive: {
+            type: 'boolean',
+            description: 'Require the ports to be consecutive (e.g. app, HMR and API ports)',
+            default: false,
+          },
+          project_name: {
+            type: 'string',
+            description: 'Project requesting the ports; its own registered ports are not treated as taken',
+          },
+        },
+      },
+    },
+    {
+      name: 'list_protected_services',
+      description: 'List all protected ports and services that cannot be killed',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'kill_dev_servers_selective',
+      description: 'Intelligently kill only development servers while protecting databases and system services',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          grace_seconds: GRACE_PROPERTY,
+          plan: PLAN_PROPERTY,
+          confirmation_token: CONFIRMATION_TOKEN_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'add_project',
+      description: 'Register a project with its ports for session persistence, reporting ports that clash with protected ports, other projects, leases or unrelated running processes',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          name: {
+            type: 'string',
+            description: 'Project name',
+          },
+          directory: {
+            type: 'string',
+            description: 'Project directory path',
+          },
+          ports: {
+            type: 'array',
+            items: { type: 'number', minimum: 1, maximum: 65535 },
+            description: 'Array of ports used by this project',
+          },
+          framework: {
+            type: 'string',
+            description: `Framework being used (known: ${frameworkNames.join(', ')}; others are accepted)`,
+          },
+          strict: {
+            type: 'boolean',
+            description: 'Refuse to register the project if any port conflicts (default: false, register and warn)',
+            default: false,
+          },
+        },
+        required: ['name', 'directory', 'ports', 'framework'],
+      },
+    },
+    {
+      name: 'detect_project',
+      description: 'Infer a project\'s framework and ports from package.json, framework configs and .env files, with the evidence for each inference; optionally register it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          directory: {
+            type: 'string',
+            description: 'Project directory path',
+          },
+          register: {
+            type: 'boolean',
+            description: 'Register the detected project as if add_project had been called',
+            default: false,
+          },
+          name: {
+            type: 'string',
+            description: 'Project name to use instead of the package.json name',
+          },
+        },
+        required: ['directory'],
+      },
+    },
+    {
+      name: 'list_active_projects',
+      description: 'List all registered active projects and their ports',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'kill_project_ports',
+      description: 'Kill ports for a specific project only',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Name of the project to clean up',
+          },
+          include_clients: {
+            type: 'boolean',
+            description: 'Also kill processes that only hold client connections to the project ports, not just their listeners',
+            default: false,
+          },
+          grace_seconds: GRACE_PROPERTY,
+          plan: PLAN_PROPERTY,
+          confirmation_token: CONFIRMATION_TOKEN_PROPERTY,
+        },
+        required: ['project_name'],
+      },
+    },
+    {
+      name: 'start_project',
+      description: 'Start a registered project\'s dev server (its package.json dev, start or serve script, or the devCommand in its .mac-resource-mcp.json) in its directory, supervise it, and wait until its registered ports are listening',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Name of the registered project to start',
+          },
+          restart_policy: {
+            type: 'string',
+            enum: ['never', 'on-failure', 'always'],
+            description: 'Restart the dev server when it exits: never, only after a crash or non-zero exit, or always (default: never)',
+            default: 'never',
+          },
+          max_restarts: {
+            type: 'number',
+            description: 'Give up after this many restarts (default: 3)',
+            default: 3,
+            minimum: 0,
+            maximum: 20,
+          },
+          wait_seconds: {
+            type: 'number',
+            description: 'How long to wait for the project\'s ports to start listening (default: 30)',
+            default: 30,
+            minimum: 0,
+            maximum: 300,
+          },
+        },
+        required: ['project_name'],
+      },
+    },
+    {
+      name: 'stop_project',
+      description: 'Stop a dev server started with start_project, together with its child processes. Use plan: true first to review',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Name of the project to stop',
+          },
+          grace_seconds: GRACE_PROPERTY,
+          plan: PLAN_PROPERTY,
+          confirmation_token: CONFIRMATION_TOKEN_PROPERTY,
+        },
+        required: ['project_name'],
+      },
+    },
+    {
+      name: 'project_logs',
+      description: 'Read the stdout and stderr a supervised dev server produced after the given cursor',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Name of the project started with start_project',
+          },
+          cursor: {
+            type: 'number',
+            description: 'Cursor from the previous read; 0 for all buffered lines (default: 0)',
+            default: 0,
+            minimum: 0,
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of lines to return (default: 200)',
+            default: 200,
+            minimum: 1,
+          },
+        },
+        required: ['project_name'],
+      },
+    },
+    {
+      name: 'acquire_port_lease',
+      description: 'Reserve ports for a project with an expiry; fails and reports the holder if another project holds them',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Project claiming the ports',
+          },
+          ports: {
+            type: 'array',
+            items: { type: 'number', minimum: 1, maximum: 65535 },
+            description: 'Ports to reserve',
+          },
+          ttl_minutes: {
+            type: 'number',
+            description: 'Lease duration in minutes (default: 60)',
+            default: 60,
+            minimum: 1,
+            maximum: 10080,
+          },
+        },
+        required: ['project_name', 'ports'],
+      },
+    },
+    {
+      name: 'renew_port_lease',
+      description: 'Extend all active port leases held by a project',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Project whose leases to renew',
+          },
+          ttl_minutes: {
+            type: 'number',
+            description: 'New lease duration in minutes (default: keep each lease\'s original duration)',
+            minimum: 1,
+            maximum: 10080,
+          },
+        },
+        required: ['project_name'],
+      },
+    },
+    {
+      name: 'release_port_lease',
+      description: 'Release port leases held by a project',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Project whose leases to release',
+          },
+          ports: {
+            type: 'array',
+            items: { type: 'number', minimum: 1, maximum: 65535 },
+            description: 'Ports to release (default: all of the project\'s leases)',
+          },
+        },
+        required: ['project_name'],
+      },
+    },
+    {
+      name: 'list_port_leases',
+      description: 'List all active port leases and their holders',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'add_protected_port',
+      description: 'Add a custom port to the protected list',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          port: {
+            type: 'number',
+            description: 'Port number to protect (1-65535)',
+            minimum: 1,
+            maximum: 65535,
+          },
+          service: {
+            type: 'string',
+            description: 'Description of the service running on this port',
+          },
+        },
+        required: ['port', 'service'],
+      },
+    },
+    {
+      name: 'config_status',
+      description: 'Show loaded config files, invalid entries that were ignored, and the effective protected ports, process patterns, dev ports and server patterns',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          project_name: {
+            type: 'string',
+            description: 'Include this project\'s .mac-resource-mcp.json overrides in the effective settings',
+          },
+        },
+      },
+    },
+    {
+      name: 'query_audit_log',
+      description: 'Search the audit log of kills and protection changes made by this server',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: FORMAT_PROPERTY,
+          since: {
+            type: 'string',
+            description: 'Only entries at or after this ISO 8601 time',
+          },
+          until: {
+            type: 'string',
+            description: 'Only entries at or before this ISO 8601 time',
+          },
+          port: {
+            type: 'number',
+            description: 'Only entries that touched this port',
+            minimum: 1,
+            maximum: 65535,
+          },
+          project: {
+            type: 'string',
+            description: 'Only entries touching ports registered to this project',
+          },
+          outcome: {
+            type: 'string',
+            description: 'Only entries with this outcome',
+            enum: AUDIT_OUTCOMES,
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of entries to return, newest first (default: 50)',
+            default: 50,
+            minimum: 1,
+          },
+        },
+      },
+    },
+  ];
+}
+
+// List available tools
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return { tools: listTools() };
 });
 
 // Handle tool calls
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
+  return applyFormat(await callTool(name, args), args?.format);
+});
+
+server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+  logLevel = request.params.level;
+  return {};
+});
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return { resources: resourcePublisher.listResources() };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return { resourceTemplates: resourcePublisher.listTemplates() };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  return { contents: [await resourcePublisher.read(request.params.uri)] };
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  await resourcePublisher.subscribe(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  resourcePublisher.unsubscribe(request.params.uri);
+  return {};
+});
 
+async function callTool(name: string, args: Record<string, unknown> | undefined): Promise<ToolResult> {
   try {
+    const tool = listTools().find(candidate => candidate.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    // Nothing reaches a handler, and through it a command, without matching the schema clients were given
+    validateToolArguments(tool.inputSchema, args);
+
     switch (name) {
       case 'check_port':
         return await resourceManager.checkPort(args?.port as number);
 
+      case 'process_info':
+        return await resourceManager.getProcessInfo(args?.pid as number | undefined, args?.port as number | undefined);
+
       case 'kill_port':
-        return await resourceManager.killPort(args?.port as number, (args?.force as boolean) || false);
+        return await resourceManager.killPort(
+          args?.port as number,
+          (args?.force as boolean) || false,
+          graceMs(args),
+          (args?.include_clients as boolean) || false,
+          confirmation(args)
+        );
 
       case 'list_dev_ports':
         return await resourceManager.listDevPorts();
@@ -226,54 +941,197 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'system_resources':
         return await resourceManager.getSystemResources();
 
+      case 'top_consumers':
+        return await resourceManager.getTopConsumers(
+          (args?.limit as number) || 10,
+          (args?.minutes as number) || 10,
+          (args?.sort_by as 'cpu' | 'memory') || 'cpu'
+        );
+
       case 'kill_dev_servers':
-        return await resourceManager.killDevServers((args?.server_type as string) || 'all');
+        return await resourceManager.killDevServers((args?.server_type as string) || 'all', graceMs(args), confirmation(args));
+
+      case 'find_orphans':
+        return await resourceManager.findOrphans(typeof args?.idle_minutes === 'number' ? args.idle_minutes : 30);
+
+      case 'kill_orphans':
+        return await resourceManager.killOrphans(
+          typeof args?.idle_minutes === 'number' ? args.idle_minutes : 30,
+          (args?.reasons as OrphanReason[] | undefined) ?? ['missing-directory', 'idle'],
+          graceMs(args),
+          confirmation(args)
+        );
 
       case 'monitor_port':
         return await resourceManager.monitorPort(args?.port as number, (args?.duration as number) || 30);
 
+      case 'start_port_monitor':
+        return await resourceManager.startPortMonitor(
+          args?.ports as number[],
+          (args?.interval_ms as number) || 1000,
+          typeof args?.duration_seconds === 'number' ? args.duration_seconds * 1000 : DEFAULT_MONITOR_DURATION_MS
+        );
+
+      case 'poll_port_monitor':
+        return await resourceManager.pollPortMonitor(
+          args?.monitor_id as string,
+          (args?.cursor as number) || 0,
+          (args?.limit as number) || 100
+        );
+
+      case 'stop_port_monitor':
+        return await resourceManager.stopPortMonitor(args?.monitor_id as string);
+
+      case 'list_port_monitors':
+        return await resourceManager.listPortMonitors();
+
+      case 'stop_container':
+        return await resourceManager.stopContainer(
+          args?.container as string,
+          typeof args?.timeout_seconds === 'number' ? args.timeout_seconds : 10,
+          confirmation(args)
+        );
+
+      case 'take_socket_snapshot':
+        return await resourceManager.takeSocketSnapshot(args?.name as string | undefined);
+
+      case 'list_socket_snapshots':
+        return await resourceManager.listSocketSnapshots();
+
+      case 'diff_socket_snapshots':
+        return await resourceManager.diffSocketSnapshots(args?.from as string, args?.to as string | undefined);
+
+      case 'find_free_port':
+        return await resourceManager.findFreePorts({
+          rangeStart: (args?.range_start as number) || 3000,
+          rangeEnd: (args?.range_end as number) || 9999,
+          preferred: args?.preferred as number | undefined,
+          count: (args?.count as number) || 1,
+          consecutive: (args?.consecutive as boolean) || false,
+          projectName: args?.project_name as string | undefined,
+        });
+
       case 'list_protected_services':
         return await resourceManager.listProtectedServices();
 
       case 'kill_dev_servers_selective':
-        return await resourceManager.killDevServersSelective();
+        return await resourceManager.killDevServersSelective(graceMs(args), confirmation(args));
 
       case 'add_project':
         return await resourceManager.addProject(
           args?.name as string,
           args?.directory as string,
           args?.ports as number[],
-          args?.framework as string
+          args?.framework as string,
+          (args?.strict as boolean) || false
+        );
+
+      case 'detect_project':
+        return await resourceManager.detectProject(
+          args?.directory as string,
+          (args?.register as boolean) || false,
+          args?.name as string | undefined
         );
 
       case 'list_active_projects':
         return await resourceManager.listActiveProjects();
 
       case 'kill_project_ports':
-        return await resourceManager.killProjectPorts(args?.project_name as string);
+        return await resourceManager.killProjectPorts(
+          args?.project_name as string,
+          graceMs(args),
+          (args?.include_clients as boolean) || false,
+          confirmation(args)
+        );
+
+      case 'start_project':
+        return await resourceManager.startProject(args?.project_name as string, {
+          restartPolicy: (args?.restart_policy as RestartPolicy) || 'never',
+          maxRestarts: typeof args?.max_restarts === 'number' ? args.max_restarts : 3,
+          waitMs: Math.max(0, Math.min(typeof args?.wait_seconds === 'number' ? args.wait_seconds : 30, 300)) * 1000,
+        });
+
+      case 'stop_project':
+        return await resourceManager.stopProject(args?.project_name as string, graceMs(args), confirmation(args));
+
+      case 'project_logs':
+        return await resourceManager.getProjectLogs(
+          args?.project_name as string,
+          (args?.cursor as number) || 0,
+          (args?.limit as number) || 200
+        );
+
+      case 'acquire_port_lease':
+        return await resourceManager.acquirePortLease(
+          args?.project_name as string,
+          args?.ports as number[],
+          (args?.ttl_minutes as number) || 60
+        );
+
+      case 'renew_port_lease':
+        return await resourceManager.renewPortLease(args?.project_name as string, args?.ttl_minutes as number | undefined);
+
+      case 'release_port_lease':
+        return await resourceManager.releasePortLease(args?.project_name as string, args?.ports as number[] | undefined);
+
+      case 'list_port_leases':
+        return await resourceManager.listPortLeases();
 
       case 'add_protected_port':
         return await resourceManager.addCustomProtectedPort(args?.port as number, args?.service as string);
 
+      case 'config_status':
+        return await resourceManager.getConfigStatus(args?.project_name as string | undefined);
+
+      case 'query_audit_log':
+        return await resourceManager.queryAuditLog({
+          since: args?.since as string | undefined,
+          until: args?.until as string | undefined,
+          port: args?.port as number | undefined,
+          project: args?.project as string | undefined,
+          outcome: args?.outcome as AuditOutcome | undefined,
+          limit: args?.limit as number | undefined,
+        });
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
     return {
       content: [
         {
           type: 'text',
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error: ${message}`,
         },
       ],
+      structuredContent: { error: message },
       isError: true,
     };
   }
+}
+
+// Supervised dev servers keep stdio pipes open, so leave explicitly when the client goes away
+process.on('exit', () => {
+  resourceManager.shutdown();
+  if (runner instanceof RecordingCommandRunner) {
+    runner.saveSync();
+  }
 });
+process.on('SIGINT', () => process.exit(0));
+process.on('SIGTERM', () => process.exit(0));
+process.stdin.on('end', () => process.exit(0));
 
 async function main() {
+  // The kill policy and protected ports come from config, so no tool may run before it is read
+  await resourceManager.ready;
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  // Pollers would fill a recording with their own commands and drain a replay's entries before any tool runs
+  if (runner instanceof ExecFileCommandRunner) {
+    resourcePublisher.start();
+    resourceManager.startResourceSampler();
+  }
   console.error('Mac Resource MCP Server running on stdio');
 }
 
@@ -0,0 +1,109 @@
+import { randomBytes } from 'crypto';
+import { DeniedProcess, KillSignal, ResolvedProcess } from './process-killer.js';
+import type { ProtectedSkip } from './resource-manager.js';
+import type { ContainerInfo } from './docker-inspector.js';
+import type { KillDecision } from './kill-policy.js';
+
+export interface PlannedTarget extends ResolvedProcess {
+  /** Ports the process tree was found on; empty for pattern-matched kills */
+  ports: number[];
+}
+
+/** A container stop_container would stop, with the kill policy's decision on it */
+export interface PlannedContainer extends ContainerInfo {
+  decision: KillDecision;
+}
+
+export interface KillPlan {
+  tool: string;
+  signal: KillSignal;
+  targets: PlannedTarget[];
+  skipped: ProtectedSkip[];
+  /** Processes the kill policy would not allow; they are left running */
+  denied: DeniedProcess[];
+  /** Requested ports that had nothing listening */
+  availablePorts: number[];
+  /** Set for stop_container, which stops a container instead of signalling processes */
+  container?: PlannedContainer;
+}
+
+export interface KillConfirmation {
+  /** Only build and return the plan, with a token to run it later */
+  plan?: boolean;
+  /** Token from an earlier plan; the kill runs only if the process set still matches */
+  token?: string;
+}
+
+export interface KillPlanResult {
+  mode: 'plan';
+  plan: KillPlan;
+  token: string;
+  expiresAt: number;
+  /** Set when a confirmation token was rejected because the processes changed */
+  stale?: boolean;
+  /** Set when the call asked for no plan but requireConfirmation is on, so nothing was killed */
+  confirmationRequired?: boolean;
+}
+
+interface IssuedPlan {
+  tool: string;
+  argsKey: string;
+  signature: string;
+  expiresAt: number;
+}
+
+export type RedeemResult =
+  | { ok: true; signature: string }
+  | { ok: false; reason: string };
+
+/**
+ * Short-lived, single-use tokens binding a destructive tool call to the plan
+ * it was shown. A token only works for the same tool and arguments, and the
+ * caller must re-check that the live process set still has the same signature.
+ */
+export class KillPlanStore {
+  private readonly TOKEN_TTL_MS = 2 * 60 * 1000;
+  private readonly plans = new Map<string, IssuedPlan>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  issue(plan: KillPlan, argsKey: string): { token: string; expiresAt: number } {
+    this.prune();
+    const token = randomBytes(8).toString('hex');
+    const expiresAt = this.now() + this.TOKEN_TTL_MS;
+    this.plans.set(token, { tool: plan.tool, argsKey, signature: planSignature(plan), expiresAt });
+    return { token, expiresAt };
+  }
+
+  redeem(token: string, tool: string, argsKey: string): RedeemResult {
+    this.prune();
+    const issued = this.plans.get(token);
+    this.plans.delete(token);
+
+    if (!issued) {
+      return { ok: false, reason: 'Confirmation token is unknown, already used or expired' };
+    }
+    if (issued.tool !== tool || issued.argsKey !== argsKey) {
+      return { ok: false, reason: `Confirmation token was issued for a different ${issued.tool} call` };
+    }
+    return { ok: true, signature: issued.signature };
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [token, issued] of this.plans) {
+      if (issued.expiresAt <= now) {
+        this.plans.delete(token);
+      }
+    }
+  }
+}
+
+/** Identifies the exact process set a plan would signal, including what it skips */
+export function planSignature(plan: KillPlan): string {
+  const targets = plan.targets.map(target => `${target.pid}:${target.command}`).sort();
+  const skipped = plan.skipped.map(skip => `${skip.port}:${skip.reason}`).sort();
+  const denied = plan.denied.map(info => `${info.pid}:${info.decision.rule}`).sort();
+  const container = plan.container ? `${plan.container.id}:${plan.container.decision.effect}:${plan.container.decision.rule}` : null;
+  return JSON.stringify({ signal: plan.signal, targets, skipped, denied, container });
+}
@@ -0,0 +1,489 @@
+import { homedir, userInfo } from 'os';
+import { ListeningSocket, PlatformBackend } from './platform-backend.js';
+import { isInsideDirectory } from './resource-sampler.js';
+import type { ProjectInfo } from './session-manager.js';
+
+export type KillEffect = 'allow' | 'deny';
+
+/**
+ * What a rule looks at. Every condition given must hold for the set to
+ * match. A fact the OS will not reveal (another user's working directory)
+ * never matches anything.
+ */
+export interface PolicyConditions {
+  /** Login names owning the process; "$self" is the account running this server */
+  users?: string[];
+  /** Directories the working directory must be inside; "~/" is expanded and "$projects" means any registered project's directory */
+  cwdUnder?: string[];
+  /** Executable paths; an entry ending in "/" matches every program below that directory */
+  executables?: string[];
+  /** Ports or "from-to" ranges the process is being killed for or listens on */
+  ports?: Array<number | string>;
+  /** Registered projects the process belongs to; "*" means any registered project */
+  projects?: string[];
+  /** Local time window "HH:MM-HH:MM"; a window ending before it starts runs past midnight */
+  hours?: string;
+  /** Days of the week: mon, tue, wed, thu, fri, sat, sun */
+  days?: string[];
+}
+
+export interface PolicyRule {
+  name: string;
+  effect: KillEffect;
+  /** The rule applies when all of these hold; omitted means always */
+  when?: PolicyConditions;
+  /** ...except when all of these hold */
+  unless?: PolicyConditions;
+  description?: string;
+}
+
+export interface KillPolicyConfig {
+  /** Effect when no rule matches */
+  default: KillEffect;
+  rules: PolicyRule[];
+}
+
+export interface KillDecision {
+  effect: KillEffect;
+  /** Name of the rule that decided, or "default" when none matched */
+  rule: string;
+  /** The rule is one of BUILT_IN_RULES rather than from config */
+  builtIn: boolean;
+  reason: string;
+}
+
+export interface KillSubject {
+  pid: number;
+  /** Ports the process is being killed for, on top of the ones it listens on */
+  ports?: number[];
+}
+
+/** A Docker container about to be stopped */
+export interface ContainerSubject {
+  /** Host ports it publishes */
+  ports: number[];
+  /** Compose project directory, if it was started by compose */
+  directory: string | null;
+}
+
+export interface KillPolicySources {
+  getProjects(): ProjectInfo[];
+  getPolicy(): KillPolicyConfig;
+}
+
+export const DEFAULT_KILL_POLICY: KillPolicyConfig = { default: 'allow', rules: [] };
+
+/** Evaluated after the configured rules, so a configured allow rule can carve out an exception */
+export const BUILT_IN_RULES: PolicyRule[] = [
+  {
+    name: 'other-users',
+    effect: 'deny',
+    unless: { users: ['$self'] },
+    description: 'Processes owned by root or another user'
+  }
+];
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const CONDITION_KEYS: (keyof PolicyConditions)[] = ['users', 'cwdUnder', 'executables', 'ports', 'projects', 'hours', 'days'];
+const HOURS = /^([01]\d|2[0-3]):([0-5]\d)-([01]\d|2[0-3]):([0-5]\d)$/;
+const PORT_RANGE = /^(\d+)-(\d+)$/;
+
+interface SubjectFacts {
+  user: string | null;
+  cwd: string | null;
+  executable: string | null;
+  ports: number[];
+  projects: string[];
+  time: Date;
+}
+
+interface ConditionResult {
+  holds: boolean;
+  /** What the process looked like, e.g. "owner root" */
+  fact: string;
+  /** What the condition asked for, e.g. "$self (alice)" */
+  expected: string;
+}
+
+/**
+ * Decides whether a process may be signalled. Rules are tried in order,
+ * configured ones first and then BUILT_IN_RULES, and the first one that
+ * applies decides; when none does the policy's default effect is used.
+ * Facts come from the backend (owner, working directory, executable,
+ * listening ports), the registered projects and the runner's clock.
+ */
+export class KillPolicy {
+  private readonly self: string | null;
+
+  constructor(
+    private readonly backend: PlatformBackend,
+    private readonly sources: KillPolicySources,
+    private readonly now: () => number = Date.now
+  ) {
+    let self: string | null;
+    try {
+      self = userInfo().username;
+    } catch {
+      // No passwd entry for our uid (some containers)
+      self = process.env.USER ?? null;
+    }
+    this.self = self;
+  }
+
+  async evaluate(subjects: KillSubject[]): Promise<Map<number, KillDecision>> {
+    const decisions = new Map<number, KillDecision>();
+    if (subjects.length === 0) {
+      return decisions;
+    }
+
+    const policy = this.sources.getPolicy();
+    const projects = this.sources.getProjects();
+    let sockets: ListeningSocket[] = [];
+    try {
+      sockets = await this.backend.listListeningSockets();
+    } catch {
+      // Ports passed in by the caller still count
+    }
+    const time = new Date(this.now());
+
+    for (const subject of subjects) {
+      const facts = await this.gatherFacts(subject, sockets, projects, time);
+      decisions.set(subject.pid, this.decide(policy, facts, projects));
+    }
+    return decisions;
+  }
+
+  /**
+   * Decides whether a container may be stopped. It has no host owner or
+   * executable, so only configured rules apply (the built-in other-users
+   * rule is about host processes) and conditions on those facts never hold.
+   * The compose project directory stands in for the working directory.
+   */
+  evaluateContainer(container: ContainerSubject): KillDecision {
+    const projects = this.sources.getProjects();
+    const ports = [...new Set(container.ports)].sort((a, b) => a - b);
+    const facts: SubjectFacts = {
+      user: null,
+      cwd: container.directory,
+      executable: null,
+      ports,
+      projects: this.projectsFor(ports, container.directory, projects),
+      time: new Date(this.now())
+    };
+    return this.decide(this.sources.getPolicy(), facts, projects, []);
+  }
+
+  private async gatherFacts(subject: KillSubject, sockets: ListeningSocket[], projects: ProjectInfo[], time: Date): Promise<SubjectFacts> {
+    const details = await this.backend.getProcessDetails(subject.pid);
+    // Linux marks a deleted working directory with a suffix
+    const cwd = details?.cwd?.replace(/ \(deleted\)$/, '') ?? null;
+    const ports = [...new Set([
+      ...(subject.ports ?? []),
+      ...sockets.filter(socket => socket.pid === subject.pid).map(socket => socket.port)
+    ])].sort((a, b) => a - b);
+
+    return {
+      user: details?.user ?? null,
+      cwd,
+      executable: details?.executable ?? null,
+      ports,
+      projects: this.projectsFor(ports, cwd, projects),
+      time
+    };
+  }
+
+  private projectsFor(ports: number[], cwd: string | null, projects: ProjectInfo[]): string[] {
+    return projects
+      .filter(project => project.ports.some(port => ports.includes(port)) || (cwd !== null && isInsideDirectory(cwd, project.directory)))
+      .map(project => project.name);
+  }
+
+  private decide(policy: KillPolicyConfig, facts: SubjectFacts, projects: ProjectInfo[], builtInRules: PolicyRule[] = BUILT_IN_RULES): KillDecision {
+    const rules = [...policy.rules.map(rule => ({ rule, builtIn: false })), ...builtInRules.map(rule => ({ rule, builtIn: true }))];
+
+    for (const { rule, builtIn } of rules) {
+      const when = rule.when ? this.check(rule.when, facts, projects) : [];
+      if (when.some(result => !result.holds)) {
+        continue;
+      }
+      const unless = rule.unless ? this.check(rule.unless, facts, projects) : [];
+      if (rule.unless && unless.every(result => result.holds)) {
+        continue;
+      }
+
+      const because = [
+        ...when.map(result => result.fact),
+        ...unless.filter(result => !result.holds).map(result => `${result.fact}, not ${result.expected}`)
+      ].join('; ') || 'applies to every process';
+      return {
+        effect: rule.effect,
+        rule: rule.name,
+        builtIn,
+        reason: rule.description ? `${rule.description} (${because})` : because
+      };
+    }
+
+    return { effect: policy.default, rule: 'default', builtIn: false, reason: 'No rule matched' };
+  }
+
+  private check(conditions: PolicyConditions, facts: SubjectFacts, projects: ProjectInfo[]): ConditionResult[] {
+    const results: ConditionResult[] = [];
+
+    if (conditions.users) {
+      const users = conditions.users.map(user => user === '$self' ? this.self : user);
+      results.push({
+        holds: facts.user !== null && users.includes(facts.user),
+        fact: `owner ${facts.user ?? 'unknown'}`,
+        expected: conditions.users.map(user => user === '$self' ? `$self (${this.self ?? 'unknown'})` : user).join(' or ')
+      });
+    }
+
+    if (conditions.cwdUnder) {
+      const cwd = facts.cwd;
+      const roots = conditions.cwdUnder.flatMap(root => root === '$projects' ? projects.map(project => project.directory) : [expandHome(root)]);
+      results.push({
+        holds: cwd !== null && roots.some(root => isInsideDirectory(cwd, root)),
+        fact: `cwd ${cwd ?? 'unknown'}`,
+        expected: `under ${conditions.cwdUnder.join(' or ')}`
+      });
+    }
+
+    if (conditions.executables) {
+      const executable = facts.executable;
+      results.push({
+        holds: executable !== null && conditions.executables.map(expandHome).some(path =>
+          path.endsWith('/') ? executable.startsWith(path) : executable === path
+        ),
+        fact: `executable ${executable ?? 'unknown'}`,
+        expected: conditions.executables.join(' or ')
+      });
+    }
+
+    if (conditions.ports) {
+      const ranges = conditions.ports.map(parsePortRange);
+      results.push({
+        holds: facts.ports.some(port => ranges.some(([from, to]) => port >= from && port <= to)),
+        fact: facts.ports.length > 0 ? `port ${facts.ports.join(', ')}` : 'no ports',
+        expected: `port ${conditions.ports.join(', ')}`
+      });
+    }
+
+    if (conditions.projects) {
+      const wanted = conditions.projects.map(name => name.toLowerCase());
+      results.push({
+        holds: facts.projects.some(name => wanted.includes('*') || wanted.includes(name.toLowerCase())),
+        fact: facts.projects.length > 0 ? `project ${facts.projects.join(', ')}` : 'no registered project',
+        expected: wanted.includes('*') ? 'a registered project' : `project ${conditions.projects.join(' or ')}`
+      });
+    }
+
+    if (conditions.hours) {
+      const [, fromHour, fromMinute, toHour, toMinute] = conditions.hours.match(HOURS)!;
+      const from = Number(fromHour) * 60 + Number(fromMinute);
+      const to = Number(toHour) * 60 + Number(toMinute);
+      const minute = facts.time.getHours() * 60 + facts.time.getMinutes();
+      results.push({
+        holds: from <= to ? minute >= from && minute < to : minute >= from || minute < to,
+        fact: `time ${String(facts.time.getHours()).padStart(2, '0')}:${String(facts.time.getMinutes()).padStart(2, '0')}`,
+        expected: `within ${conditions.hours}`
+      });
+    }
+
+    if (conditions.days) {
+      const day = DAYS[facts.time.getDay()];
+      results.push({
+        holds: conditions.days.includes(day),
+        fact: `day ${day}`,
+        expected: conditions.days.join(', ')
+      });
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Validates the killPolicy section of the global config. A rule with any
+ * bad condition is dropped as a whole, since keeping the valid part of it
+ * would make it match more than was written.
+ */
+export function parseKillPolicy(
+  value: unknown,
+  path: string,
+  issue: (path: string, message: string) => void
+): KillPolicyConfig | undefined {
+  if (!isObject(value)) {
+    issue(path, 'Must be an object with "default" and/or "rules"');
+    return undefined;
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== 'default' && key !== 'rules') {
+      issue(`${path}.${key}`, 'Unknown key. Use: default, rules');
+    }
+  }
+
+  const policy: KillPolicyConfig = { default: 'allow', rules: [] };
+  if (value.default !== undefined) {
+    if (value.default === 'allow' || value.default === 'deny') {
+      policy.default = value.default;
+    } else {
+      issue(`${path}.default`, 'Must be "allow" or "deny"');
+    }
+  }
+
+  if (value.rules !== undefined && !Array.isArray(value.rules)) {
+    issue(`${path}.rules`, 'Must be an array');
+    return policy;
+  }
+
+  const names = new Set<string>();
+  ((value.rules ?? []) as unknown[]).forEach((rule, index) => {
+    const parsed = parseRule(rule, `${path}.rules[${index}]`, issue);
+    if (!parsed) {
+      return;
+    }
+    if (names.has(parsed.name)) {
+      issue(`${path}.rules[${index}].name`, `Duplicate rule name "${parsed.name}"`);
+      return;
+    }
+    names.add(parsed.name);
+    policy.rules.push(parsed);
+  });
+  return policy;
+}
+
+function parseRule(value: unknown, path: string, issue: (path: string, message: string) => void): PolicyRule | null {
+  if (!isObject(value)) {
+    issue(path, 'Rule must be an object with "name", "effect" and "when" and/or "unless"');
+    return null;
+  }
+
+  let valid = true;
+  const fail = (at: string, message: string) => {
+    issue(at, message);
+    valid = false;
+  };
+
+  for (const key of Object.keys(value)) {
+    if (!['name', 'effect', 'when', 'unless', 'description'].includes(key)) {
+      fail(`${path}.${key}`, 'Unknown key. Use: name, effect, when, unless, description');
+    }
+  }
+  if (typeof value.name !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(value.name)) {
+    fail(`${path}.name`, 'Must be lowercase letters, digits and dashes');
+  } else if (value.name === 'default') {
+    fail(`${path}.name`, '"default" is reserved');
+  }
+  if (value.effect !== 'allow' && value.effect !== 'deny') {
+    fail(`${path}.effect`, 'Must be "allow" or "deny"');
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    fail(`${path}.description`, 'Must be a string');
+  }
+
+  const rule: PolicyRule = { name: value.name as string, effect: value.effect as KillEffect };
+  for (const key of ['when', 'unless'] as const) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    const conditions = parseConditions(value[key], `${path}.${key}`, fail);
+    if (conditions) {
+      rule[key] = conditions;
+    }
+  }
+  if (typeof value.description === 'string') {
+    rule.description = value.description;
+  }
+
+  return valid ? rule : null;
+}
+
+function parseConditions(value: unknown, path: string, fail: (path: string, message: string) => void): PolicyConditions | null {
+  if (!isObject(value)) {
+    fail(path, `Must be an object with any of: ${CONDITION_KEYS.join(', ')}`);
+    return null;
+  }
+
+  const strings = (key: string, check: (item: string) => string | null): string[] | undefined => {
+    const list = value[key];
+    if (!Array.isArray(list) || list.length === 0) {
+      fail(`${path}.${key}`, 'Must be a non-empty array');
+      return undefined;
+    }
+    list.forEach((item, index) => {
+      const error = typeof item === 'string' && item ? check(item) : 'Must be a non-empty string';
+      if (error) {
+        fail(`${path}.${key}[${index}]`, error);
+      }
+    });
+    return list as string[];
+  };
+  const absolute = (item: string) =>
+    item.startsWith('/') || item.startsWith('~/') ? null : `"${item}" must be an absolute path or start with ~/`;
+
+  const conditions: PolicyConditions = {};
+  for (const key of Object.keys(value)) {
+    switch (key as keyof PolicyConditions) {
+      case 'users':
+        conditions.users = strings(key, () => null);
+        break;
+      case 'projects':
+        conditions.projects = strings(key, () => null);
+        break;
+      case 'cwdUnder':
+        conditions.cwdUnder = strings(key, item => item === '$projects' ? null : absolute(item));
+        break;
+      case 'executables':
+        conditions.executables = strings(key, absolute);
+        break;
+      case 'days':
+        conditions.days = strings(key, item => DAYS.includes(item) ? null : `"${item}" is not a day. Use: ${DAYS.join(', ')}`);
+        break;
+      case 'hours':
+        if (typeof value.hours !== 'string' || !HOURS.test(value.hours)) {
+          fail(`${path}.hours`, 'Must be a local time window like "09:00-18:00"');
+        } else {
+          conditions.hours = value.hours;
+        }
+        break;
+      case 'ports': {
+        const ports = value.ports;
+        if (!Array.isArray(ports) || ports.length === 0) {
+          fail(`${path}.ports`, 'Must be a non-empty array');
+          break;
+        }
+        ports.forEach((port, index) => {
+          const range = typeof port === 'number' || typeof port === 'string' ? parsePortRange(port) : null;
+          if (!range || !(range[0] >= 1 && range[1] <= 65535 && range[0] <= range[1])) {
+            fail(`${path}.ports[${index}]`, `${JSON.stringify(port)} is not a port (1-65535) or "from-to" range`);
+          }
+        });
+        conditions.ports = ports;
+        break;
+      }
+      default:
+        fail(`${path}.${key}`, `Unknown condition. Use: ${CONDITION_KEYS.join(', ')}`);
+    }
+  }
+  return conditions;
+}
+
+/** A port or "from-to" range as [from, to]; a malformed entry matches nothing */
+function parsePortRange(port: number | string): [number, number] {
+  if (typeof port === 'number') {
+    return Number.isInteger(port) ? [port, port] : [NaN, NaN];
+  }
+  const range = port.match(PORT_RANGE);
+  if (range) {
+    return [Number(range[1]), Number(range[2])];
+  }
+  return /^\d+$/.test(port) ? [Number(port), Number(port)] : [NaN, NaN];
+}
+
+function expandHome(path: string): string {
+  return path.startsWith('~/') ? `${homedir()}${path.slice(1)}` : path;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
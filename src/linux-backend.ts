@@ -0,0 +1,611 @@
+import { join } from 'path';
+import { CommandRunner } from './command-runner.js';
+import { EstablishedConnection, ListeningSocket, PlatformBackend, PortProcess, PortSocket, ProcessDetails, ProcessEntry, ProcessUsage, SocketState, SystemUsage, sortPortSockets } from './platform-backend.js';
+
+export interface ProcNetSocket {
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+  state: number;
+  inode: number;
+}
+
+// st column values: TCP_LISTEN for tcp tables, TCP_CLOSE for unconnected udp sockets
+const TCP_ESTABLISHED = 0x01;
+const TCP_LISTEN = 0x0a;
+const UDP_UNCONNECTED = 0x07;
+
+// Kernel TCP state numbers (include/net/tcp_states.h), named as lsof names them
+const TCP_STATES: Record<number, SocketState> = {
+  0x01: 'ESTABLISHED',
+  0x02: 'SYN_SENT',
+  0x03: 'SYN_RCVD',
+  0x04: 'FIN_WAIT_1',
+  0x05: 'FIN_WAIT_2',
+  0x06: 'TIME_WAIT',
+  0x07: 'CLOSED',
+  0x08: 'CLOSE_WAIT',
+  0x09: 'LAST_ACK',
+  0x0a: 'LISTEN',
+  0x0b: 'CLOSING'
+};
+
+// Used when getconf is unavailable: USER_HZ, the unit of /proc/<pid>/stat
+// times, is 100 on every mainstream kernel, and x86 and most ARM builds use 4 KiB pages
+const DEFAULT_CLOCK_TICKS_PER_SECOND = 100;
+const DEFAULT_PAGE_SIZE = 4096;
+// How long system_resources watches /proc/stat to work out CPU usage
+const CPU_SAMPLE_MS = 1000;
+
+/** Units of /proc/<pid>/stat: clock ticks for CPU times and pages for resident memory */
+interface KernelUnits {
+  ticksPerSecond: number;
+  pageSize: number;
+}
+
+/**
+ * Parses /proc/net/{tcp,tcp6,udp,udp6}. Addresses are hex "ADDR:PORT" pairs
+ * with the address stored as host-order 32-bit words.
+ */
+export function parseProcNetTcp(contents: string): ProcNetSocket[] {
+  const sockets: ProcNetSocket[] = [];
+
+  // Skip header line
+  for (const line of contents.trim().split('\n').slice(1)) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 10) {
+      continue;
+    }
+
+    const [localHex, localPortHex] = parts[1].split(':');
+    const localPort = parseInt(localPortHex, 16);
+    const [remoteHex, remotePortHex] = parts[2].split(':');
+    const remotePort = parseInt(remotePortHex, 16);
+    const state = parseInt(parts[3], 16);
+    const inode = parseInt(parts[9], 10);
+
+    if (!isNaN(localPort) && !isNaN(remotePort) && !isNaN(inode)) {
+      sockets.push({
+        localAddress: decodeProcAddress(localHex),
+        localPort,
+        remoteAddress: decodeProcAddress(remoteHex),
+        remotePort,
+        state,
+        inode
+      });
+    }
+  }
+
+  return sockets;
+}
+
+function decodeProcAddress(hex: string): string {
+  // Each 32-bit word is in host byte order; x86 and ARM hosts are little-endian
+  const bytes: number[] = [];
+  for (let word = 0; word < hex.length; word += 8) {
+    for (let byte = 6; byte >= 0; byte -= 2) {
+      bytes.push(parseInt(hex.slice(word + byte, word + byte + 2), 16));
+    }
+  }
+
+  if (bytes.length === 4) {
+    return bytes.join('.');
+  }
+  // An IPv4 address on a dual-stack socket (::ffff:127.0.0.1), written the way isLoopbackAddress expects
+  if (bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return `::ffff:${bytes.slice(12).join('.')}`;
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < bytes.length; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+  // Collapse the longest run of zero groups, as in "::1"
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < groups.length;) {
+    let end = i;
+    while (end < groups.length && groups[end] === '0') {
+      end++;
+    }
+    if (end - i > bestLength) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = Math.max(end, i + 1);
+  }
+
+  if (bestLength < 2) {
+    return groups.join(':');
+  }
+  return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
+}
+
+export class LinuxProcBackend implements PlatformBackend {
+  readonly platform: NodeJS.Platform = 'linux';
+  private readonly SOCKET_TABLES: Array<{ table: string; protocol: ListeningSocket['protocol']; family: ListeningSocket['family'] }> = [
+    { table: 'net/tcp', protocol: 'tcp', family: 'IPv4' },
+    { table: 'net/tcp6', protocol: 'tcp', family: 'IPv6' },
+    { table: 'net/udp', protocol: 'udp', family: 'IPv4' },
+    { table: 'net/udp6', protocol: 'udp', family: 'IPv6' }
+  ];
+
+  // CPU ticks seen for each PID at the previous sample, to turn totals into a rate
+  private readonly lastCpuTicks = new Map<number, { ticks: number; at: number }>();
+  private units: Promise<KernelUnits> | null = null;
+
+  /** Every /proc read goes through the runner, so sessions on Linux can be recorded and replayed too */
+  constructor(
+    private readonly runner: CommandRunner,
+    private readonly procRoot: string = '/proc'
+  ) {}
+
+  async getPortProcesses(port: number): Promise<PortSocket[]> {
+    return (await this.getPortsProcesses([port])).get(port) ?? [];
+  }
+
+  /** One pass over the socket tables and one /proc/<pid>/fd scan, however many ports are asked for */
+  async getPortsProcesses(ports: number[]): Promise<Map<number, PortSocket[]>> {
+    const wanted = new Set(ports);
+    const byPort = new Map(ports.map(port => [port, [] as PortSocket[]]));
+    const matches: Array<ProcNetSocket & Pick<PortSocket, 'protocol' | 'family'>> = [];
+
+    for (const { table, protocol, family } of this.SOCKET_TABLES) {
+      const contents = await this.readProcFile(table);
+      if (!contents) {
+        continue;
+      }
+      for (const socket of parseProcNetTcp(contents)) {
+        // Inode 0 means the socket has no owning process (e.g. TIME_WAIT)
+        if (socket.inode !== 0 && (wanted.has(socket.localPort) || wanted.has(socket.remotePort))) {
+          matches.push({ ...socket, protocol, family });
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      return byPort;
+    }
+
+    const owners = await this.findSocketOwners(new Set(matches.map(socket => socket.inode)));
+    const details = new Map<number, PortProcess | null>();
+
+    for (const socket of matches) {
+      // Unconnected sockets have an all-zero peer
+      const connected = socket.remotePort !== 0;
+      const state: SocketState = socket.protocol === 'udp'
+        ? (connected ? 'CONNECTED' : 'BOUND')
+        : TCP_STATES[socket.state] ?? 'CLOSED';
+
+      for (const pid of owners.get(socket.inode) ?? []) {
+        if (!details.has(pid)) {
+          details.set(pid, await this.readProcessDetails(pid));
+        }
+        const info = details.get(pid);
+        if (!info) {
+          continue;
+        }
+        const entry: PortSocket = {
+          ...info,
+          protocol: socket.protocol,
+          family: socket.family,
+          localAddress: socket.localAddress,
+          localPort: socket.localPort,
+          remoteAddress: connected ? socket.remoteAddress : null,
+          remotePort: connected ? socket.remotePort : null,
+          state
+        };
+        for (const port of new Set([socket.localPort, socket.remotePort])) {
+          byPort.get(port)?.push(entry);
+        }
+      }
+    }
+
+    byPort.forEach(sortPortSockets);
+    return byPort;
+  }
+
+  async listProcesses(): Promise<ProcessEntry[]> {
+    const processes: ProcessEntry[] = [];
+    let entries: string[];
+
+    try {
+      entries = await this.runner.readDir(this.procRoot);
+    } catch {
+      return processes;
+    }
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) {
+        continue;
+      }
+
+      const stat = await this.readProcFile(join(entry, 'stat'));
+      if (!stat) {
+        continue;
+      }
+
+      // The comm field is wrapped in parentheses and may itself contain spaces or parentheses
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      const state = fields[0];
+      const ppid = parseInt(fields[1], 10);
+      if (state === 'Z' || isNaN(ppid)) {
+        continue;
+      }
+
+      const details = await this.readProcessDetails(parseInt(entry, 10));
+      if (details) {
+        processes.push({ ...details, ppid });
+      }
+    }
+
+    return processes;
+  }
+
+  async sampleUsage(): Promise<ProcessUsage[]> {
+    const processes: ProcessUsage[] = [];
+    const { ticksPerSecond, pageSize } = await this.kernelUnits();
+    const uptime = parseFloat((await this.readProcFile('uptime')) ?? '');
+    const now = this.runner.now();
+    const seen = new Set<number>();
+    let entries: string[];
+
+    try {
+      entries = await this.runner.readDir(this.procRoot);
+    } catch {
+      return processes;
+    }
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) {
+        continue;
+      }
+
+      const pid = parseInt(entry, 10);
+      const stat = await this.readProcFile(join(entry, 'stat'));
+      if (!stat) {
+        continue;
+      }
+
+      // Fields after the comm: state ppid ... utime(11) stime(12) ... starttime(19) vsize(20) rss(21)
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      const ppid = parseInt(fields[1], 10);
+      if (fields[0] === 'Z' || isNaN(ppid)) {
+        continue;
+      }
+
+      const details = await this.readProcessDetails(pid);
+      if (!details) {
+        continue;
+      }
+
+      const ticks = parseInt(fields[11], 10) + parseInt(fields[12], 10);
+      const previous = this.lastCpuTicks.get(pid);
+      let cpuPercent: number;
+      if (previous && now > previous.at && ticks >= previous.ticks) {
+        cpuPercent = ((ticks - previous.ticks) / ticksPerSecond) / ((now - previous.at) / 1000) * 100;
+      } else {
+        // First sight of this PID: average over its lifetime
+        const lifetime = uptime - parseInt(fields[19], 10) / ticksPerSecond;
+        cpuPercent = lifetime > 0 ? (ticks / ticksPerSecond) / lifetime * 100 : 0;
+      }
+      this.lastCpuTicks.set(pid, { ticks, at: now });
+      seen.add(pid);
+
+      processes.push({
+        ...details,
+        ppid,
+        cpuPercent: Math.round(cpuPercent * 10) / 10,
+        rssBytes: parseInt(fields[21], 10) * pageSize
+      });
+    }
+
+    // Forget exited PIDs so a reused PID starts fresh
+    for (const pid of this.lastCpuTicks.keys()) {
+      if (!seen.has(pid)) {
+        this.lastCpuTicks.delete(pid);
+      }
+    }
+
+    return processes;
+  }
+
+  async getProcessDetails(pid: number): Promise<ProcessDetails | null> {
+    const stat = await this.readProcFile(join(String(pid), 'stat'));
+    const details = await this.readProcessDetails(pid);
+    if (!stat || !details) {
+      return null;
+    }
+
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const ppid = parseInt(fields[1], 10);
+    if (fields[0] === 'Z' || isNaN(ppid)) {
+      return null;
+    }
+
+    const { ticksPerSecond, pageSize } = await this.kernelUnits();
+    // starttime is in ticks since boot; btime in /proc/stat is boot time in epoch seconds
+    const bootTime = (await this.readProcFile('stat'))?.match(/^btime (\d+)$/m);
+    const startTicks = parseInt(fields[19], 10);
+    const startedAt = bootTime ? (parseInt(bootTime[1], 10) + startTicks / ticksPerSecond) * 1000 : null;
+
+    // Prefer the rate since the last sample; without one, average over the process lifetime
+    const ticks = parseInt(fields[11], 10) + parseInt(fields[12], 10);
+    const previous = this.lastCpuTicks.get(pid);
+    const now = this.runner.now();
+    let cpuPercent = 0;
+    if (previous && now > previous.at && ticks >= previous.ticks) {
+      cpuPercent = ((ticks - previous.ticks) / ticksPerSecond) / ((now - previous.at) / 1000) * 100;
+    } else if (startedAt !== null && now > startedAt) {
+      cpuPercent = (ticks / ticksPerSecond) / ((now - startedAt) / 1000) * 100;
+    }
+
+    let cwd: string | null;
+    try {
+      cwd = await this.runner.readLink(join(this.procRoot, String(pid), 'cwd'));
+    } catch {
+      // Other users' processes hide their cwd
+      cwd = null;
+    }
+
+    let executable: string | null;
+    try {
+      executable = (await this.runner.readLink(join(this.procRoot, String(pid), 'exe'))).replace(/ \(deleted\)$/, '');
+    } catch {
+      executable = null;
+    }
+
+    const uid = (await this.readProcFile(join(String(pid), 'status')))?.match(/^Uid:\s+(\d+)/m)?.[1];
+
+    return {
+      ...details,
+      ppid,
+      user: uid === undefined ? 'unknown' : await this.lookupUser(uid),
+      cwd,
+      executable,
+      startedAt: startedAt === null ? null : Math.round(startedAt),
+      cpuPercent: Math.round(cpuPercent * 10) / 10,
+      rssBytes: parseInt(fields[21], 10) * pageSize
+    };
+  }
+
+  async listListeningSockets(): Promise<ListeningSocket[]> {
+    const listeners: Array<ProcNetSocket & Pick<ListeningSocket, 'protocol' | 'family'>> = [];
+
+    for (const { table, protocol, family } of this.SOCKET_TABLES) {
+      const contents = await this.readProcFile(table);
+      if (!contents) {
+        continue;
+      }
+      for (const socket of parseProcNetTcp(contents)) {
+        const listening = protocol === 'tcp'
+          ? socket.state === TCP_LISTEN
+          : socket.state === UDP_UNCONNECTED && socket.remotePort === 0;
+        if (listening && socket.inode !== 0) {
+          listeners.push({ ...socket, protocol, family });
+        }
+      }
+    }
+
+    const owners = await this.findSocketOwners(new Set(listeners.map(socket => socket.inode)));
+    const details = new Map<number, PortProcess | null>();
+    const sockets: ListeningSocket[] = [];
+
+    for (const socket of listeners) {
+      for (const pid of owners.get(socket.inode) ?? []) {
+        if (!details.has(pid)) {
+          details.set(pid, await this.readProcessDetails(pid));
+        }
+        const info = details.get(pid);
+        if (info) {
+          sockets.push({
+            protocol: socket.protocol,
+            family: socket.family,
+            address: socket.localAddress,
+            port: socket.localPort,
+            ...info
+          });
+        }
+      }
+    }
+
+    return sockets;
+  }
+
+  async listEstablishedConnections(): Promise<EstablishedConnection[]> {
+    const established: Array<ProcNetSocket & Pick<EstablishedConnection, 'family'>> = [];
+
+    for (const { table, family } of this.SOCKET_TABLES.filter(entry => entry.protocol === 'tcp')) {
+      const contents = await this.readProcFile(table);
+      if (!contents) {
+        continue;
+      }
+      for (const socket of parseProcNetTcp(contents)) {
+        if (socket.state === TCP_ESTABLISHED && socket.inode !== 0) {
+          established.push({ ...socket, family });
+        }
+      }
+    }
+
+    const owners = await this.findSocketOwners(new Set(established.map(socket => socket.inode)));
+    return established.flatMap(socket => (owners.get(socket.inode) ?? []).map(pid => ({
+      family: socket.family,
+      localAddress: socket.localAddress,
+      localPort: socket.localPort,
+      remoteAddress: socket.remoteAddress,
+      remotePort: socket.remotePort,
+      pid
+    })));
+  }
+
+  async getSystemUsage(): Promise<SystemUsage> {
+    const meminfo = this.parseMeminfo((await this.readProcFile('meminfo')) ?? '');
+    const total = meminfo.get('MemTotal');
+    const available = meminfo.get('MemAvailable');
+
+    // Pressure stall information (Linux 4.20+): the share of time tasks waited on memory
+    const stall = (await this.readProcFile('pressure/memory'))?.match(/^some avg10=([\d.]+) avg60=([\d.]+) avg300=([\d.]+)/m);
+    let memoryPressure: string | null = null;
+    if (stall) {
+      memoryPressure = `Tasks stalled on memory ${stall[1]}% of the last 10s, ${stall[2]}% of the last minute, ${stall[3]}% of the last 5 minutes`;
+    } else if (total && available !== undefined) {
+      memoryPressure = `${Math.round(available / total * 100)}% of memory available`;
+    }
+
+    const memoryUsage = ['MemTotal', 'MemAvailable', 'MemFree', 'SwapFree']
+      .filter(key => meminfo.has(key))
+      .map(key => `${key}: ${formatKiB(meminfo.get(key)!)}`)
+      .join('\n') || null;
+
+    return { memoryPressure, memoryUsage, cpuUsage: await this.sampleSystemCpu() };
+  }
+
+  /** Kernel units from getconf, asked once */
+  private kernelUnits(): Promise<KernelUnits> {
+    if (!this.units) {
+      this.units = (async () => ({
+        ticksPerSecond: await this.getconf('CLK_TCK', DEFAULT_CLOCK_TICKS_PER_SECOND),
+        pageSize: await this.getconf('PAGE_SIZE', DEFAULT_PAGE_SIZE)
+      }))();
+    }
+    return this.units;
+  }
+
+  private async getconf(name: string, fallback: number): Promise<number> {
+    try {
+      const value = parseInt((await this.runner.exec('getconf', [name])).stdout.trim(), 10);
+      return value > 0 ? value : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /** Values of /proc/meminfo in KiB, keyed by field name */
+  private parseMeminfo(contents: string): Map<string, number> {
+    const fields = new Map<string, number>();
+    for (const line of contents.split('\n')) {
+      const match = line.match(/^(\w+):\s+(\d+)/);
+      if (match) {
+        fields.set(match[1], parseInt(match[2], 10));
+      }
+    }
+    return fields;
+  }
+
+  /** Share of CPU time spent in user, system and idle over CPU_SAMPLE_MS, from the aggregate line of /proc/stat */
+  private async sampleSystemCpu(): Promise<string | null> {
+    const before = this.readCpuTimes(await this.readProcFile('stat'));
+    await this.runner.sleep(CPU_SAMPLE_MS);
+    const after = this.readCpuTimes(await this.readProcFile('stat'));
+    if (!before || !after) {
+      return null;
+    }
+
+    const elapsed = after.total - before.total;
+    if (elapsed <= 0) {
+      return null;
+    }
+    const percent = (field: 'user' | 'system' | 'idle') => ((after[field] - before[field]) / elapsed * 100).toFixed(2);
+    // Worded like the CPU usage line of macOS top
+    return `CPU usage: ${percent('user')}% user, ${percent('system')}% sys, ${percent('idle')}% idle`;
+  }
+
+  private readCpuTimes(stat: string | null): { user: number; system: number; idle: number; total: number } | null {
+    // cpu user nice system idle iowait irq softirq steal ...
+    const times = stat?.match(/^cpu\s+(.*)$/m)?.[1].trim().split(/\s+/).map(value => parseInt(value, 10));
+    if (!times || times.length < 4 || times.some(isNaN)) {
+      return null;
+    }
+    const [user, nice, system, idle, iowait = 0, irq = 0, softirq = 0, steal = 0] = times;
+    return {
+      user: user + nice,
+      system: system + irq + softirq,
+      idle: idle + iowait,
+      total: user + nice + system + idle + iowait + irq + softirq + steal
+    };
+  }
+
+  /** Maps each socket inode to the PIDs holding it; forked workers can share one listening socket */
+  private async findSocketOwners(inodes: Set<number>): Promise<Map<number, number[]>> {
+    const owners = new Map<number, number[]>();
+    let entries: string[];
+
+    try {
+      entries = await this.runner.readDir(this.procRoot);
+    } catch {
+      return owners;
+    }
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) {
+        continue;
+      }
+
+      let fds: string[];
+      try {
+        fds = await this.runner.readDir(join(this.procRoot, entry, 'fd'));
+      } catch {
+        // Process exited or belongs to another user
+        continue;
+      }
+
+      const pid = parseInt(entry, 10);
+      for (const fd of fds) {
+        try {
+          const target = await this.runner.readLink(join(this.procRoot, entry, 'fd', fd));
+          const match = target.match(/^socket:\[(\d+)\]$/);
+          const inode = match ? parseInt(match[1], 10) : NaN;
+          if (inodes.has(inode) && !owners.get(inode)?.includes(pid)) {
+            owners.set(inode, [...(owners.get(inode) ?? []), pid]);
+          }
+        } catch {
+          // fd closed while scanning
+        }
+      }
+    }
+
+    return owners;
+  }
+
+  private async readProcessDetails(pid: number): Promise<PortProcess | null> {
+    const comm = await this.readProcFile(join(String(pid), 'comm'));
+    if (comm === null) {
+      return null;
+    }
+
+    const processName = comm.trim();
+    const cmdline = await this.readProcFile(join(String(pid), 'cmdline'));
+    const command = cmdline ? cmdline.split('\0').filter(arg => arg).join(' ') : '';
+
+    return { pid, processName, command: command || processName };
+  }
+
+  /** User name for a UID from /etc/passwd, or the UID itself when it has no entry */
+  private async lookupUser(uid: string): Promise<string> {
+    try {
+      const passwd = await this.runner.readFile('/etc/passwd');
+      for (const line of passwd.split('\n')) {
+        const [name, , id] = line.split(':');
+        if (id === uid) {
+          return name;
+        }
+      }
+    } catch {
+      // No passwd file (e.g. some containers)
+    }
+    return uid;
+  }
+
+  private async readProcFile(relativePath: string): Promise<string | null> {
+    try {
+      return await this.runner.readFile(join(this.procRoot, relativePath));
+    } catch {
+      return null;
+    }
+  }
+}
+
+function formatKiB(kib: number): string {
+  return kib >= 1024 * 1024 ? `${(kib / 1024 / 1024).toFixed(1)} GB` : `${Math.round(kib / 1024)} MB`;
+}
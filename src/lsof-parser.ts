@@ -0,0 +1,181 @@
+import type { PortSocket, SocketState } from './platform-backend.js';
+
+/**
+ * Fields to request with `lsof -F`: PID, command name, login, then per file
+ * the descriptor, type (IPv4/IPv6), protocol, name and TCP info (state).
+ */
+export const LSOF_SOCKET_FIELDS = 'pcLftPnT';
+
+export interface LsofFile {
+  fd: string;
+  /** IPv4, IPv6, REG, DIR, ... */
+  type: string;
+  /** TCP or UDP for network files */
+  protocol: string | null;
+  name: string;
+  /** TCP state from the T field (TST=...), when lsof reported one */
+  tcpState: string | null;
+}
+
+export interface LsofProcess {
+  pid: number;
+  /** Command name as lsof reports it: truncated (usually to 9 or 15 characters) and possibly containing spaces */
+  command: string;
+  login: string | null;
+  files: LsofFile[];
+}
+
+// Linux lsof spells a few states differently from the BSD names lsof uses on macOS
+const STATE_ALIASES: Record<string, SocketState> = {
+  SYN_RECV: 'SYN_RCVD',
+  FIN_WAIT1: 'FIN_WAIT_1',
+  FIN_WAIT2: 'FIN_WAIT_2',
+  CLOSE: 'CLOSED'
+};
+
+const TCP_STATES = new Set<string>([
+  'LISTEN', 'SYN_SENT', 'SYN_RCVD', 'ESTABLISHED', 'FIN_WAIT_1', 'FIN_WAIT_2',
+  'TIME_WAIT', 'CLOSED', 'CLOSE_WAIT', 'LAST_ACK', 'CLOSING'
+]);
+
+/**
+ * Parses `lsof -F` output. Every line is one field: a single identifying
+ * character followed by its value. A `p` line starts a process set and an
+ * `f` line starts a file set within it. Output from `-F0` (fields ended by
+ * NUL instead of newline) is accepted too. Unknown fields are ignored, so
+ * asking lsof for more fields than this reads is harmless.
+ */
+export function parseLsofFields(output: string): LsofProcess[] {
+  const processes: LsofProcess[] = [];
+  let current: LsofProcess | null = null;
+  let file: LsofFile | null = null;
+
+  for (const field of output.split(/[\0\n]/)) {
+    if (!field) {
+      continue;
+    }
+    const id = field[0];
+    const value = field.slice(1).replace(/\r$/, '');
+
+    if (id === 'p') {
+      const pid = parseInt(value, 10);
+      current = isNaN(pid) ? null : { pid, command: '', login: null, files: [] };
+      file = null;
+      if (current) {
+        processes.push(current);
+      }
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    if (id === 'f') {
+      file = { fd: value, type: '', protocol: null, name: '', tcpState: null };
+      current.files.push(file);
+      continue;
+    }
+
+    if (!file) {
+      // Process-level fields come before the first file
+      if (id === 'c') {
+        current.command = value;
+      } else if (id === 'L') {
+        current.login = value;
+      }
+      continue;
+    }
+
+    switch (id) {
+      case 't':
+        file.type = value;
+        break;
+      case 'P':
+        file.protocol = value;
+        break;
+      case 'n':
+        file.name = value;
+        break;
+      case 'T':
+        // TCP info comes as several T fields: TST=LISTEN, TQR=0, TQS=0, ...
+        if (value.startsWith('ST=')) {
+          file.tcpState = value.slice(3);
+        }
+        break;
+    }
+  }
+
+  return processes;
+}
+
+/**
+ * Parses `lsof -F` output into one entry per TCP or UDP socket and owning
+ * process. processName and command are lsof's truncated command name; callers
+ * wanting the full command line have to look it up separately.
+ */
+export function parseLsofSockets(output: string): PortSocket[] {
+  const sockets: PortSocket[] = [];
+
+  for (const info of parseLsofFields(output)) {
+    for (const file of info.files) {
+      const protocol = file.protocol?.toLowerCase();
+      if ((file.type !== 'IPv4' && file.type !== 'IPv6') || (protocol !== 'tcp' && protocol !== 'udp')) {
+        continue;
+      }
+
+      const [local, remote] = file.name.split('->');
+      const localEnd = parseLsofEndpoint(local, file.type);
+      const remoteEnd = remote ? parseLsofEndpoint(remote, file.type) : null;
+      // "*:*" is a UDP socket that is not bound to a port yet
+      if (!localEnd) {
+        continue;
+      }
+
+      sockets.push({
+        pid: info.pid,
+        processName: info.command,
+        command: info.command,
+        protocol,
+        family: file.type,
+        localAddress: localEnd.address,
+        localPort: localEnd.port,
+        remoteAddress: remoteEnd?.address ?? null,
+        remotePort: remoteEnd?.port ?? null,
+        state: protocol === 'udp' ? (remoteEnd ? 'CONNECTED' : 'BOUND') : normalizeTcpState(file.tcpState)
+      });
+    }
+  }
+
+  return sockets;
+}
+
+/**
+ * Splits "127.0.0.1:3000", "[::1]:3000", "[fe80::1%lo0]:3000" or "*:3000"
+ * into address and port. The wildcard becomes 0.0.0.0 or :: by family.
+ * Returns null when there is no numeric port.
+ */
+export function parseLsofEndpoint(endpoint: string, family: 'IPv4' | 'IPv6'): { address: string; port: number } | null {
+  const separator = endpoint.lastIndexOf(':');
+  if (separator < 0 || !/^\d+$/.test(endpoint.slice(separator + 1))) {
+    return null;
+  }
+
+  let address = endpoint.slice(0, separator);
+  if (address.startsWith('[') && address.endsWith(']')) {
+    address = address.slice(1, -1);
+  }
+  if (address === '*') {
+    address = family === 'IPv6' ? '::' : '0.0.0.0';
+  }
+  return { address, port: parseInt(endpoint.slice(separator + 1), 10) };
+}
+
+function normalizeTcpState(state: string | null): SocketState {
+  if (!state) {
+    // No TST field: lsof could not read the state on this system
+    return 'CLOSED';
+  }
+  const upper = state.toUpperCase();
+  const normalized = STATE_ALIASES[upper] ?? upper;
+  return TCP_STATES.has(normalized) ? normalized as SocketState : 'CLOSED';
+}
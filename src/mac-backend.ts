@@ -0,0 +1,271 @@
+import { basename } from 'path';
+import { CommandRunner, CommandError } from './command-runner.js';
+import { EstablishedConnection, ListeningSocket, PlatformBackend, PortProcess, PortSocket, ProcessDetails, ProcessEntry, ProcessUsage, SystemUsage, sortPortSockets } from './platform-backend.js';
+import { LSOF_SOCKET_FIELDS, parseLsofFields, parseLsofSockets } from './lsof-parser.js';
+
+export class MacLsofBackend implements PlatformBackend {
+  readonly platform: NodeJS.Platform = 'darwin';
+
+  constructor(private readonly runner: CommandRunner) {}
+
+  async getPortProcesses(port: number): Promise<PortSocket[]> {
+    return (await this.getPortsProcesses([port])).get(port) ?? [];
+  }
+
+  async getPortsProcesses(ports: number[]): Promise<Map<number, PortSocket[]>> {
+    const byPort = new Map(ports.map(port => [port, [] as PortSocket[]]));
+    if (ports.length === 0) {
+      return byPort;
+    }
+
+    // Several -i selections are ORed, so one lsof run covers every port
+    const sockets = await this.withFullCommands(parseLsofSockets(await this.lsof(ports.flatMap(port => ['-i', `:${port}`]))));
+    for (const socket of sockets) {
+      for (const port of new Set([socket.localPort, socket.remotePort ?? socket.localPort])) {
+        byPort.get(port)?.push(socket);
+      }
+    }
+    byPort.forEach(sortPortSockets);
+    return byPort;
+  }
+
+  async listProcesses(): Promise<ProcessEntry[]> {
+    const names = await this.processNames(['-ax']);
+    const { stdout } = await this.runner.exec('ps', ['-axww', '-o', 'pid=,ppid=,stat=,args=']);
+    const processes: ProcessEntry[] = [];
+
+    for (const line of stdout.split('\n')) {
+      const match = line.trim().match(/^(\d+)\s+(\d+)\s+(\S+)\s+(.*)$/);
+      if (!match || match[3].startsWith('Z')) {
+        continue;
+      }
+
+      const pid = parseInt(match[1], 10);
+      const command = match[4];
+      processes.push({
+        pid,
+        ppid: parseInt(match[2], 10),
+        processName: names.get(pid) ?? fallbackName(command),
+        command
+      });
+    }
+
+    return processes;
+  }
+
+  async sampleUsage(): Promise<ProcessUsage[]> {
+    const names = await this.processNames(['-ax']);
+    // %cpu from ps is a decaying average over roughly the last minute
+    const { stdout } = await this.runner.exec('ps', ['-axww', '-o', 'pid=,ppid=,stat=,%cpu=,rss=,args=']);
+    const processes: ProcessUsage[] = [];
+
+    for (const line of stdout.split('\n')) {
+      const match = line.trim().match(/^(\d+)\s+(\d+)\s+(\S+)\s+([\d.]+)\s+(\d+)\s+(.*)$/);
+      if (!match || match[3].startsWith('Z')) {
+        continue;
+      }
+
+      const pid = parseInt(match[1], 10);
+      const command = match[6];
+      processes.push({
+        pid,
+        ppid: parseInt(match[2], 10),
+        processName: names.get(pid) ?? fallbackName(command),
+        command,
+        cpuPercent: parseFloat(match[4]),
+        // ps reports RSS in KiB
+        rssBytes: parseInt(match[5], 10) * 1024
+      });
+    }
+
+    return processes;
+  }
+
+  async getProcessDetails(pid: number): Promise<ProcessDetails | null> {
+    let stdout: string;
+    try {
+      // lstart is always five words, e.g. "Mon Oct 19 10:04:31 2026"
+      ({ stdout } = await this.runner.exec('ps', ['-ww', '-p', String(pid), '-o', 'pid=,ppid=,stat=,user=,%cpu=,rss=,lstart=,args=']));
+    } catch (error) {
+      // ps exits with 1 when the PID does not exist
+      if (error instanceof CommandError && error.exitCode === 1) {
+        return null;
+      }
+      throw error;
+    }
+
+    const match = stdout.trim().match(/^(\d+)\s+(\d+)\s+(\S+)\s+(\S+)\s+([\d.]+)\s+(\d+)\s+(\w+\s+\w+\s+\d+\s+[\d:]+\s+\d+)\s+(.*)$/);
+    if (!match || match[3].startsWith('Z')) {
+      return null;
+    }
+
+    const startedAt = new Date(match[7]).getTime();
+    const command = match[8];
+    const { cwd, executable } = await this.getProcessFiles(pid);
+    const names = await this.processNames(['-p', String(pid)]);
+    return {
+      pid,
+      ppid: parseInt(match[2], 10),
+      processName: names.get(pid) ?? fallbackName(command),
+      command,
+      user: match[4],
+      cwd,
+      executable,
+      startedAt: isNaN(startedAt) ? null : startedAt,
+      cpuPercent: parseFloat(match[5]),
+      rssBytes: parseInt(match[6], 10) * 1024
+    };
+  }
+
+  async listListeningSockets(): Promise<ListeningSocket[]> {
+    const sockets = parseLsofSockets(await this.lsof(['-iTCP', '-sTCP:LISTEN', '-iUDP']))
+      // Connected UDP sockets are clients, not listeners
+      .filter(socket => socket.state === 'LISTEN' || socket.state === 'BOUND');
+
+    return (await this.withFullCommands(sockets)).map(socket => ({
+      protocol: socket.protocol,
+      family: socket.family,
+      address: socket.localAddress,
+      port: socket.localPort,
+      pid: socket.pid,
+      processName: socket.processName,
+      command: socket.command
+    }));
+  }
+
+  async listEstablishedConnections(): Promise<EstablishedConnection[]> {
+    const connections: EstablishedConnection[] = [];
+    for (const socket of parseLsofSockets(await this.lsof(['-iTCP', '-sTCP:ESTABLISHED']))) {
+      if (socket.state === 'ESTABLISHED' && socket.remoteAddress !== null && socket.remotePort !== null) {
+        connections.push({
+          family: socket.family,
+          localAddress: socket.localAddress,
+          localPort: socket.localPort,
+          remoteAddress: socket.remoteAddress,
+          remotePort: socket.remotePort,
+          pid: socket.pid
+        });
+      }
+    }
+    return connections;
+  }
+
+  async getSystemUsage(): Promise<SystemUsage> {
+    const usage: SystemUsage = { memoryPressure: null, memoryUsage: null, cpuUsage: null };
+
+    try {
+      usage.memoryPressure = (await this.runner.exec('memory_pressure')).stdout.trim();
+    } catch {
+      // Left null
+    }
+
+    try {
+      // The page size line and the free, active and inactive page counts
+      usage.memoryUsage = (await this.runner.exec('vm_stat')).stdout.trim().split('\n').slice(0, 4).join('\n');
+    } catch {
+      // Left null
+    }
+
+    try {
+      const { stdout } = await this.runner.exec('top', ['-l', '1', '-n', '0']);
+      usage.cpuUsage = stdout.split('\n').find(line => line.includes('CPU usage'))?.trim() ?? null;
+    } catch {
+      // Left null
+    }
+
+    return usage;
+  }
+
+  /** Working directory and executable; the first txt file lsof lists is the program itself */
+  private async getProcessFiles(pid: number): Promise<Pick<ProcessDetails, 'cwd' | 'executable'>> {
+    try {
+      const { stdout } = await this.runner.exec('lsof', ['-a', '-p', String(pid), '-d', 'cwd,txt', '-F', 'fn']);
+      const files = parseLsofFields(stdout)[0]?.files ?? [];
+      return {
+        cwd: files.find(file => file.fd === 'cwd')?.name || null,
+        executable: files.find(file => file.fd === 'txt')?.name || null
+      };
+    } catch {
+      // Not permitted for other users' processes without sudo
+      return { cwd: null, executable: null };
+    }
+  }
+
+  /** Runs lsof with machine-readable output over the given selection; no match is an empty result */
+  private async lsof(selection: string[]): Promise<string> {
+    try {
+      const { stdout } = await this.runner.exec('lsof', ['-nP', ...selection, '-F', LSOF_SOCKET_FIELDS]);
+      return stdout;
+    } catch (error) {
+      // lsof exits with 1 when nothing matches, or when one of several selections (say -iUDP) matched nothing
+      if (error instanceof CommandError && error.exitCode === 1) {
+        return error.stdout;
+      }
+      throw error;
+    }
+  }
+
+  /** lsof truncates COMMAND to a few characters, so names and command lines come from ps */
+  private async withFullCommands<T extends PortProcess>(sockets: T[]): Promise<T[]> {
+    const pids = [...new Set(sockets.map(socket => socket.pid))];
+    if (pids.length === 0) {
+      return sockets;
+    }
+
+    const names = await this.processNames(['-p', pids.join(',')]);
+    let stdout = '';
+    try {
+      ({ stdout } = await this.runner.exec('ps', ['-ww', '-o', 'pid=,args=', '-p', pids.join(',')]));
+    } catch (error) {
+      // ps exits with 1 when some of the processes have exited since, but still lists the rest
+      if (error instanceof CommandError) {
+        stdout = error.stdout;
+      }
+    }
+
+    // Processes that are gone keep lsof's truncated names
+    const commands = new Map<number, string>();
+    for (const line of stdout.split('\n')) {
+      const match = line.trim().match(/^(\d+)\s+(.*)$/);
+      if (match) {
+        commands.set(parseInt(match[1], 10), match[2]);
+      }
+    }
+
+    return sockets.map(socket => {
+      const command = commands.get(socket.pid);
+      return command ? { ...socket, processName: names.get(socket.pid) ?? socket.processName, command } : socket;
+    });
+  }
+
+  /**
+   * Program names by PID. comm is the executable path, which may contain
+   * spaces ("/Applications/Google Chrome.app/..."), so it gets a ps call of
+   * its own as the last column instead of being cut out of args.
+   */
+  private async processNames(selection: string[]): Promise<Map<number, string>> {
+    let stdout = '';
+    try {
+      ({ stdout } = await this.runner.exec('ps', ['-ww', ...selection, '-o', 'pid=,comm=']));
+    } catch (error) {
+      // ps exits with 1 when some of the processes have exited, but still lists the rest
+      if (error instanceof CommandError) {
+        stdout = error.stdout;
+      }
+    }
+
+    const names = new Map<number, string>();
+    for (const line of stdout.split('\n')) {
+      const match = line.trim().match(/^(\d+)\s+(.+)$/);
+      if (match) {
+        names.set(parseInt(match[1], 10), basename(match[2]));
+      }
+    }
+    return names;
+  }
+}
+
+/** For a process started between two ps calls: the first word of its command line */
+function fallbackName(command: string): string {
+  return basename(command.split(' ')[0]);
+}
@@ -0,0 +1,269 @@
+import { CommandRunner } from './command-runner.js';
+import { EstablishedConnection, ListeningSocket, PlatformBackend, ProcessEntry } from './platform-backend.js';
+import { matchesProcessPattern } from './framework-registry.js';
+import { isInsideDirectory, runsFrom } from './resource-sampler.js';
+import type { ProjectInfo } from './session-manager.js';
+
+/**
+ * outside-projects: not running from any registered project's directory
+ * missing-directory: its working directory has been deleted (a removed worktree or branch checkout)
+ * idle: no inbound connections for the requested number of minutes
+ */
+export type OrphanReason = 'outside-projects' | 'missing-directory' | 'idle';
+
+export interface OrphanCandidate {
+  pid: number;
+  ppid: number;
+  processName: string;
+  command: string;
+  cwd: string | null;
+  startedAt: number | null;
+  /** Ports the process or its descendants listen on */
+  ports: number[];
+  /** Registered project whose directory the process runs from */
+  project: string | null;
+  reasons: OrphanReason[];
+  /** Time since the last inbound connection was seen, or since tracking began if none was; null when nothing in the tree listens */
+  idleMs: number | null;
+  /** How long connection activity has been tracked for this process */
+  observedMs: number;
+}
+
+export interface OrphanScan {
+  idleMs: number;
+  /** Dev-server-like processes examined */
+  scanned: number;
+  orphans: OrphanCandidate[];
+}
+
+export interface OrphanSources {
+  getProjects(): ProjectInfo[];
+  /** Process patterns that mark a process as a dev server */
+  getServerPatterns(): string[];
+  getDevPorts(): number[];
+}
+
+interface Activity {
+  command: string;
+  since: number;
+  lastActiveAt: number | null;
+}
+
+export const ACTIVITY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Finds dev servers nobody is using any more: processes matching the server
+ * patterns or listening on a dev port that run outside every registered
+ * project, from a directory that no longer exists, or that have not had an
+ * inbound connection for a while. Idleness can only be judged over the time
+ * this server has been watching, so connection activity is recorded in the
+ * background from startup.
+ */
+export class OrphanDetector {
+  private readonly activity = new Map<number, Activity>();
+  private timer: NodeJS.Timeout | null = null;
+  private observing = false;
+
+  constructor(
+    private readonly runner: CommandRunner,
+    private readonly backend: PlatformBackend,
+    private readonly sources: OrphanSources,
+    private readonly intervalMs: number = ACTIVITY_INTERVAL_MS
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const tick = () => this.observe().catch(error => console.error('Connection activity check failed:', error));
+    tick();
+    this.timer = setInterval(tick, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Records which processes currently have inbound connections */
+  async observe(): Promise<void> {
+    if (this.observing) {
+      return;
+    }
+    this.observing = true;
+
+    try {
+      const [processes, sockets, connections] = await Promise.all([
+        this.backend.listProcesses(),
+        this.backend.listListeningSockets(),
+        this.backend.listEstablishedConnections()
+      ]);
+      this.record(processes, sockets, connections);
+    } finally {
+      this.observing = false;
+    }
+  }
+
+  async find(idleMs: number): Promise<OrphanScan> {
+    const [processes, sockets, connections] = await Promise.all([
+      this.backend.listProcesses(),
+      this.backend.listListeningSockets(),
+      this.backend.listEstablishedConnections()
+    ]);
+    this.record(processes, sockets, connections);
+
+    const projects = this.sources.getProjects();
+    const candidates = this.findCandidates(processes, sockets);
+    const now = this.runner.now();
+    const orphans: OrphanCandidate[] = [];
+
+    for (const info of candidates) {
+      const details = await this.backend.getProcessDetails(info.pid);
+      if (!details) {
+        continue;
+      }
+
+      const cwd = details.cwd;
+      const project = projects.find(candidate =>
+        cwd !== null ? isInsideDirectory(cwd, candidate.directory) : runsFrom(details.command, candidate.directory)
+      );
+      const ports = this.treePorts(info.pid, processes, sockets);
+      const activity = this.activity.get(info.pid);
+      const since = activity?.since ?? now;
+      // Watchers and build tools never accept connections, so silence says nothing about them
+      const idleFor = ports.length > 0 ? now - (activity?.lastActiveAt ?? since) : null;
+
+      const reasons: OrphanReason[] = [];
+      if (!project) {
+        reasons.push('outside-projects');
+      }
+      if (cwd !== null && await this.isMissingDirectory(cwd)) {
+        reasons.push('missing-directory');
+      }
+      if (idleFor !== null && idleFor >= idleMs) {
+        reasons.push('idle');
+      }
+      if (reasons.length === 0) {
+        continue;
+      }
+
+      orphans.push({
+        pid: info.pid,
+        ppid: info.ppid,
+        processName: details.processName,
+        command: details.command,
+        // Linux marks a deleted working directory with a suffix
+        cwd: cwd?.replace(/ \(deleted\)$/, '') ?? null,
+        startedAt: details.startedAt,
+        ports,
+        project: project?.name ?? null,
+        reasons,
+        idleMs: idleFor,
+        observedMs: now - since
+      });
+    }
+
+    return { idleMs, scanned: candidates.length, orphans };
+  }
+
+  /** Dev-server-like processes, keeping only the topmost of each tree since killing it takes the rest */
+  private findCandidates(processes: ProcessEntry[], sockets: ListeningSocket[]): ProcessEntry[] {
+    const patterns = this.sources.getServerPatterns();
+    const devPorts = new Set(this.sources.getDevPorts());
+    const devListeners = new Set(sockets.filter(socket => devPorts.has(socket.port)).map(socket => socket.pid));
+    const byPid = new Map(processes.map(info => [info.pid, info]));
+
+    // This server and the editor that launched it are never orphans
+    const excluded = new Set<number>([process.pid]);
+    for (let info = byPid.get(process.pid); info && info.ppid > 1; info = byPid.get(info.ppid)) {
+      excluded.add(info.ppid);
+    }
+
+    const matches = new Set(processes
+      .filter(info => !excluded.has(info.pid))
+      .filter(info => devListeners.has(info.pid) || patterns.some(pattern => matchesProcessPattern(info.command, pattern)))
+      .map(info => info.pid));
+
+    return [...matches]
+      .filter(pid => {
+        for (let parent = byPid.get(byPid.get(pid)!.ppid); parent; parent = byPid.get(parent.ppid)) {
+          if (matches.has(parent.pid)) {
+            return false;
+          }
+          if (parent.ppid === parent.pid) {
+            break;
+          }
+        }
+        return true;
+      })
+      .map(pid => byPid.get(pid)!);
+  }
+
+  private treePorts(pid: number, processes: ProcessEntry[], sockets: ListeningSocket[]): number[] {
+    const tree = new Set([pid]);
+    const queue = [pid];
+    while (queue.length > 0) {
+      const parent = queue.shift()!;
+      for (const child of processes) {
+        if (child.ppid === parent && !tree.has(child.pid)) {
+          tree.add(child.pid);
+          queue.push(child.pid);
+        }
+      }
+    }
+    return [...new Set(sockets.filter(socket => tree.has(socket.pid)).map(socket => socket.port))].sort((a, b) => a - b);
+  }
+
+  private record(processes: ProcessEntry[], sockets: ListeningSocket[], connections: EstablishedConnection[]): void {
+    const now = this.runner.now();
+    // A connection whose local port something listens on was accepted from a client, so it counts as use
+    const listeningPorts = new Set(sockets.map(socket => socket.port));
+    const active = new Set(connections.filter(connection => listeningPorts.has(connection.localPort)).map(connection => connection.pid));
+    const alive = new Set<number>();
+
+    for (const info of processes) {
+      alive.add(info.pid);
+      let activity = this.activity.get(info.pid);
+      // A changed command means the PID was reused
+      if (!activity || activity.command !== info.command) {
+        activity = { command: info.command, since: now, lastActiveAt: null };
+        this.activity.set(info.pid, activity);
+      }
+      if (active.has(info.pid)) {
+        activity.lastActiveAt = now;
+      }
+    }
+
+    // The listener is usually a worker below `npm run dev`; its connections count for every process above it
+    const byPid = new Map(processes.map(info => [info.pid, info]));
+    for (const pid of active) {
+      for (let parent = byPid.get(byPid.get(pid)?.ppid ?? 0); parent && !active.has(parent.pid); parent = byPid.get(parent.ppid)) {
+        this.activity.get(parent.pid)!.lastActiveAt = now;
+        if (parent.ppid === parent.pid) {
+          break;
+        }
+      }
+    }
+
+    for (const pid of this.activity.keys()) {
+      if (!alive.has(pid)) {
+        this.activity.delete(pid);
+      }
+    }
+  }
+
+  private async isMissingDirectory(cwd: string): Promise<boolean> {
+    if (cwd.endsWith(' (deleted)')) {
+      return true;
+    }
+    try {
+      return !(await this.runner.exists(cwd));
+    } catch {
+      // A directory we may not look into is still there
+      return false;
+    }
+  }
+}
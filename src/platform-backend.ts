@@ -0,0 +1,169 @@
+import { CommandRunner, ReplayCommandRunner } from './command-runner.js';
+import { MacLsofBackend } from './mac-backend.js';
+import { LinuxProcBackend } from './linux-backend.js';
+
+export interface PortProcess {
+  pid: number;
+  processName: string;
+  command: string;
+}
+
+/** TCP states as lsof names them; UDP has no states, so its sockets are BOUND (unconnected) or CONNECTED */
+export type SocketState =
+  | 'LISTEN' | 'SYN_SENT' | 'SYN_RCVD' | 'ESTABLISHED' | 'FIN_WAIT_1' | 'FIN_WAIT_2'
+  | 'TIME_WAIT' | 'CLOSED' | 'CLOSE_WAIT' | 'LAST_ACK' | 'CLOSING'
+  | 'BOUND' | 'CONNECTED';
+
+/** One socket touching a port and the process holding it */
+export interface PortSocket extends PortProcess {
+  protocol: 'tcp' | 'udp';
+  family: 'IPv4' | 'IPv6';
+  /** Bind address: 0.0.0.0 or :: for all interfaces */
+  localAddress: string;
+  localPort: number;
+  /** Peer of a connected socket; null for listeners and unconnected UDP sockets */
+  remoteAddress: string | null;
+  remotePort: number | null;
+  state: SocketState;
+}
+
+/**
+ * all-interfaces: something listens on 0.0.0.0 or ::, reachable from the network
+ * loopback: listeners are bound to 127.0.0.0/8 or ::1 only
+ * interface: listeners are bound to one specific non-loopback address
+ * client-only: nothing listens; the sockets are outbound connections to that port elsewhere
+ */
+export type PortExposure = 'all-interfaces' | 'loopback' | 'interface' | 'client-only';
+
+export interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  processName: string;
+  command: string;
+}
+
+export interface ProcessUsage extends ProcessEntry {
+  /** Share of one core, so a process using two cores fully reports 200 */
+  cpuPercent: number;
+  rssBytes: number;
+}
+
+export interface ProcessDetails extends ProcessUsage {
+  user: string;
+  /** Working directory, or null when the OS will not tell us (another user's process) */
+  cwd: string | null;
+  /** Path of the program the process is running, or null when the OS will not tell us */
+  executable: string | null;
+  /** Epoch milliseconds */
+  startedAt: number | null;
+}
+
+export interface ListeningSocket {
+  protocol: 'tcp' | 'udp';
+  family: 'IPv4' | 'IPv6';
+  /** Bind address: 0.0.0.0 or :: for all interfaces */
+  address: string;
+  port: number;
+  pid: number;
+  processName: string;
+  command: string;
+}
+
+export interface EstablishedConnection {
+  family: 'IPv4' | 'IPv6';
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+  pid: number;
+}
+
+/** Host-wide memory and CPU figures for system_resources; null where the OS would not say */
+export interface SystemUsage {
+  memoryPressure: string | null;
+  memoryUsage: string | null;
+  cpuUsage: string | null;
+}
+
+/**
+ * OS-specific port ownership and process table lookups. Everything above this
+ * layer works on these records and does not care whether they came from lsof,
+ * ps or /proc.
+ */
+export interface PlatformBackend {
+  readonly platform: NodeJS.Platform;
+  /** Every socket whose local or remote end is on the port with its owning process, like `lsof -i :<port>`. */
+  getPortProcesses(port: number): Promise<PortSocket[]>;
+  /** getPortProcesses for several ports from a single lookup, keyed by port; every requested port has an entry. */
+  getPortsProcesses(ports: number[]): Promise<Map<number, PortSocket[]>>;
+  /** Every live process on the machine. Zombies are left out since they cannot be signalled away. */
+  listProcesses(): Promise<ProcessEntry[]>;
+  /** CPU and resident memory of every live process. */
+  sampleUsage(): Promise<ProcessUsage[]>;
+  /** Everything known about one process, or null when it does not exist. */
+  getProcessDetails(pid: number): Promise<ProcessDetails | null>;
+  /** Every listening TCP socket and bound, unconnected UDP socket on the machine, one entry per owning PID. */
+  listListeningSockets(): Promise<ListeningSocket[]>;
+  /** Every established TCP connection on the machine, one entry per owning PID. */
+  listEstablishedConnections(): Promise<EstablishedConnection[]>;
+  /** Memory pressure, memory usage and CPU usage of the whole machine. */
+  getSystemUsage(): Promise<SystemUsage>;
+}
+
+/**
+ * Picks the backend for the running OS. A replayed transcript always uses the
+ * backend of the machine it was recorded on, so Mac recordings replay on Linux.
+ */
+export function createPlatformBackend(
+  runner: CommandRunner,
+  platform: NodeJS.Platform = process.platform
+): PlatformBackend {
+  const target = runner instanceof ReplayCommandRunner ? runner.platform : platform;
+  if (target === 'linux') {
+    return new LinuxProcBackend(runner);
+  }
+  return new MacLsofBackend(runner);
+}
+
+/**
+ * Puts one port's sockets in the same order on every OS: by PID, then TCP
+ * before UDP and IPv6 before IPv4. lsof lists them by file descriptor and
+ * /proc by socket table, which would otherwise change which socket tools
+ * report first.
+ */
+export function sortPortSockets(sockets: PortSocket[]): PortSocket[] {
+  return sockets.sort((a, b) => a.pid - b.pid || a.protocol.localeCompare(b.protocol) || b.family.localeCompare(a.family));
+}
+
+export function uniquePids(processes: PortProcess[]): number[] {
+  return [...new Set(processes.map(info => info.pid))];
+}
+
+/** Sockets accepting connections or datagrams on the port, as opposed to clients talking to it */
+export function portListeners(sockets: PortSocket[], port: number): PortSocket[] {
+  return sockets.filter(socket => socket.localPort === port && (socket.state === 'LISTEN' || socket.state === 'BOUND'));
+}
+
+/** How reachable a port is from its sockets, or null when no socket uses it */
+export function portExposure(sockets: PortSocket[], port: number): PortExposure | null {
+  if (sockets.length === 0) {
+    return null;
+  }
+  const listeners = portListeners(sockets, port);
+  if (listeners.length === 0) {
+    return 'client-only';
+  }
+  if (listeners.some(socket => isWildcardAddress(socket.localAddress))) {
+    return 'all-interfaces';
+  }
+  return listeners.every(socket => isLoopbackAddress(socket.localAddress)) ? 'loopback' : 'interface';
+}
+
+export function isWildcardAddress(address: string): boolean {
+  return address === '0.0.0.0' || address === '::' || address === '*';
+}
+
+export function isLoopbackAddress(address: string): boolean {
+  const ipv4 = address.replace(/^::ffff:/i, '');
+  return ipv4.startsWith('127.') || address === '::1' || address === 'localhost';
+}
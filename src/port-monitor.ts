@@ -0,0 +1,271 @@
+import { randomBytes } from 'crypto';
+import { PlatformBackend, PortSocket, portListeners, uniquePids } from './platform-backend.js';
+
+export interface MonitorEvent {
+  /** Increases by one per event within a monitor; pass the last seen value back as the poll cursor */
+  seq: number;
+  timestamp: number;
+  port: number;
+  /** initial: first observation; started/stopped: port became busy/free; owner-changed: different PIDs; error: lookup failed */
+  change: 'initial' | 'started' | 'stopped' | 'owner-changed' | 'error';
+  status: 'available' | 'in-use';
+  pids: number[];
+  processName?: string;
+  error?: string;
+}
+
+export interface MonitorInfo {
+  id: string;
+  ports: number[];
+  intervalMs: number;
+  startedAt: number;
+  expiresAt: number;
+  active: boolean;
+  /** seq of the newest event recorded so far */
+  lastSeq: number;
+}
+
+export interface MonitorPollResult {
+  monitor: MonitorInfo;
+  events: MonitorEvent[];
+  /** Cursor to pass to the next poll */
+  cursor: number;
+  /** Events after the cursor that were already dropped from the buffer */
+  missed: number;
+}
+
+export type MonitorEventListener = (monitor: MonitorInfo, event: MonitorEvent) => void;
+
+interface PortSnapshot {
+  status: MonitorEvent['status'];
+  pids: number[];
+}
+
+interface Monitor {
+  info: MonitorInfo;
+  events: MonitorEvent[];
+  last: Map<number, PortSnapshot>;
+  errors: Map<number, string>;
+  timer: NodeJS.Timeout | null;
+  checking: boolean;
+}
+
+export const MIN_MONITOR_INTERVAL_MS = 250;
+export const MAX_MONITOR_INTERVAL_MS = 60 * 1000;
+export const DEFAULT_MONITOR_DURATION_MS = 60 * 60 * 1000;
+export const MAX_MONITOR_DURATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Watches ports in the background so tool calls return straight away.
+ * Each monitor keeps a bounded buffer of change events that callers read
+ * with a cursor; listeners get every event as it happens. Stopped and
+ * expired monitors stay pollable until they are evicted for newer ones.
+ */
+export class PortMonitorManager {
+  private readonly MAX_EVENTS = 1000;
+  private readonly MAX_MONITORS = 10;
+  private readonly MAX_PORTS = 50;
+  private readonly monitors = new Map<string, Monitor>();
+  private readonly listeners: MonitorEventListener[] = [];
+
+  constructor(private readonly backend: PlatformBackend, private readonly now: () => number = Date.now) {}
+
+  onEvent(listener: MonitorEventListener): void {
+    this.listeners.push(listener);
+  }
+
+  start(ports: number[], intervalMs: number, durationMs: number): MonitorInfo {
+    const uniquePorts = [...new Set(ports)];
+    if (uniquePorts.length === 0 || uniquePorts.length > this.MAX_PORTS) {
+      throw new Error(`A monitor needs between 1 and ${this.MAX_PORTS} ports`);
+    }
+    if (!(intervalMs >= MIN_MONITOR_INTERVAL_MS && intervalMs <= MAX_MONITOR_INTERVAL_MS)) {
+      throw new Error(`Invalid interval: ${intervalMs}ms. Must be between ${MIN_MONITOR_INTERVAL_MS}ms and ${MAX_MONITOR_INTERVAL_MS}ms.`);
+    }
+    if (!(durationMs > 0 && durationMs <= MAX_MONITOR_DURATION_MS)) {
+      throw new Error('Invalid duration. Must be between 1 second and 24 hours.');
+    }
+
+    this.evictStopped();
+    if (this.listActive().length >= this.MAX_MONITORS) {
+      throw new Error(`Too many active monitors (${this.MAX_MONITORS}). Stop one with "stop_port_monitor" first.`);
+    }
+
+    const startedAt = this.now();
+    const monitor: Monitor = {
+      info: {
+        id: `mon-${randomBytes(4).toString('hex')}`,
+        ports: uniquePorts,
+        intervalMs,
+        startedAt,
+        expiresAt: startedAt + durationMs,
+        active: true,
+        lastSeq: 0
+      },
+      events: [],
+      last: new Map(),
+      errors: new Map(),
+      timer: null,
+      checking: false
+    };
+    this.monitors.set(monitor.info.id, monitor);
+    this.schedule(monitor, 0);
+    return { ...monitor.info };
+  }
+
+  poll(id: string, cursor: number, limit: number): MonitorPollResult {
+    const monitor = this.get(id);
+    const pending = monitor.events.filter(event => event.seq > cursor);
+    const oldest = monitor.events[0]?.seq ?? monitor.info.lastSeq + 1;
+    const missed = Math.max(0, oldest - cursor - 1);
+    const events = pending.slice(0, limit);
+
+    return {
+      monitor: { ...monitor.info },
+      events,
+      cursor: events.length > 0 ? events[events.length - 1].seq : Math.max(cursor, oldest - 1),
+      missed
+    };
+  }
+
+  stop(id: string): MonitorInfo {
+    const monitor = this.get(id);
+    this.deactivate(monitor);
+    return { ...monitor.info };
+  }
+
+  list(): MonitorInfo[] {
+    return [...this.monitors.values()].map(monitor => ({ ...monitor.info }));
+  }
+
+  private listActive(): Monitor[] {
+    return [...this.monitors.values()].filter(monitor => monitor.info.active);
+  }
+
+  private get(id: string): Monitor {
+    const monitor = this.monitors.get(id);
+    if (!monitor) {
+      throw new Error(`Monitor "${id}" not found. Use "list_port_monitors" to see monitors.`);
+    }
+    return monitor;
+  }
+
+  private schedule(monitor: Monitor, delayMs: number): void {
+    monitor.timer = setTimeout(() => {
+      this.check(monitor).catch(error => console.error('Port monitor check failed:', error));
+    }, delayMs);
+    // Monitors must never keep the server process alive on their own
+    monitor.timer.unref();
+  }
+
+  private async check(monitor: Monitor): Promise<void> {
+    if (!monitor.info.active || monitor.checking) {
+      return;
+    }
+    if (this.now() >= monitor.info.expiresAt) {
+      this.deactivate(monitor);
+      return;
+    }
+
+    monitor.checking = true;
+    try {
+      // One lookup per tick for all ports; on Linux each one scans every process's file descriptors
+      let sockets: Map<number, PortSocket[]> | null = null;
+      let error: string | undefined;
+      try {
+        sockets = await this.backend.getPortsProcesses(monitor.info.ports);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+      for (const port of monitor.info.ports) {
+        this.checkPort(monitor, port, sockets?.get(port) ?? [], error);
+      }
+    } finally {
+      monitor.checking = false;
+    }
+
+    if (monitor.info.active) {
+      this.schedule(monitor, monitor.info.intervalMs);
+    }
+  }
+
+  private checkPort(monitor: Monitor, port: number, sockets: PortSocket[], error: string | undefined): void {
+    let snapshot: PortSnapshot;
+    let processName: string | undefined;
+
+    if (error === undefined) {
+      const processInfo = portListeners(sockets, port);
+      snapshot = {
+        status: processInfo.length > 0 ? 'in-use' : 'available',
+        pids: uniquePids(processInfo).sort((a, b) => a - b)
+      };
+      processName = processInfo[0]?.processName;
+    } else {
+      // Keep the last known state so a failed lookup is not reported as the port going free
+      snapshot = monitor.last.get(port) ?? { status: 'available', pids: [] };
+    }
+
+    const previous = monitor.last.get(port);
+    const change = this.classify(previous, snapshot);
+    const newError = error !== undefined && error !== monitor.errors.get(port);
+    monitor.last.set(port, snapshot);
+    if (error !== undefined) {
+      monitor.errors.set(port, error);
+    } else {
+      monitor.errors.delete(port);
+    }
+    // Repeated identical failures are reported once
+    if (!change && !newError) {
+      return;
+    }
+
+    const event: MonitorEvent = {
+      seq: ++monitor.info.lastSeq,
+      timestamp: this.now(),
+      port,
+      change: change ?? 'error',
+      status: snapshot.status,
+      pids: snapshot.pids,
+      processName,
+      error
+    };
+
+    monitor.events.push(event);
+    if (monitor.events.length > this.MAX_EVENTS) {
+      monitor.events.shift();
+    }
+
+    for (const listener of this.listeners) {
+      listener({ ...monitor.info }, event);
+    }
+  }
+
+  private classify(previous: PortSnapshot | undefined, current: PortSnapshot): MonitorEvent['change'] | null {
+    if (!previous) {
+      return 'initial';
+    }
+    if (previous.status !== current.status) {
+      return current.status === 'in-use' ? 'started' : 'stopped';
+    }
+    if (previous.pids.join(',') !== current.pids.join(',')) {
+      return 'owner-changed';
+    }
+    return null;
+  }
+
+  private deactivate(monitor: Monitor): void {
+    monitor.info.active = false;
+    if (monitor.timer) {
+      clearTimeout(monitor.timer);
+      monitor.timer = null;
+    }
+  }
+
+  /** Drops the oldest stopped monitors so finished ones cannot pile up */
+  private evictStopped(): void {
+    const stopped = [...this.monitors.values()].filter(monitor => !monitor.info.active);
+    for (const monitor of stopped.slice(0, Math.max(0, stopped.length - this.MAX_MONITORS))) {
+      this.monitors.delete(monitor.info.id);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { CommandRunner, CommandError } from './command-runner.js';
+import { PlatformBackend, ProcessEntry } from './platform-backend.js';
+import type { ContainerSubject, KillDecision, KillPolicy } from './kill-policy.js';
+
+export type KillSignal = 'TERM' | 'KILL';
+
+export interface PidKillOutcome {
+  pid: number;
+  processName: string;
+  command: string;
+  /** target: matched directly; child: descendant of a target; launcher: npm/yarn/sh -c parent that would respawn it */
+  role: 'target' | 'child' | 'launcher';
+  /** Last signal sent to the process */
+  signal: KillSignal;
+  status: 'exited' | 'escalated' | 'survived' | 'failed';
+  error?: string;
+}
+
+export interface TreeKillReport {
+  outcomes: PidKillOutcome[];
+  exited: number[];
+  escalated: number[];
+  survived: number[];
+  failed: number[];
+  /** Processes the kill policy did not allow; they were never signalled */
+  denied: DeniedProcess[];
+}
+
+export interface TreeKillOptions {
+  /** Send SIGKILL straight away instead of SIGTERM first */
+  force: boolean;
+  /** How long to wait after SIGTERM before escalating to SIGKILL */
+  graceMs: number;
+}
+
+export interface ResolvedProcess extends ProcessEntry {
+  role: PidKillOutcome['role'];
+}
+
+export interface DeniedProcess extends ResolvedProcess {
+  ports: number[];
+  decision: KillDecision;
+}
+
+export const DEFAULT_GRACE_MS = 5000;
+
+/**
+ * Kills whole dev-server trees. A port is usually held by a worker several
+ * levels below `npm run dev`, and killing only the listener lets the launcher
+ * respawn it or leaves siblings behind, so the tree is resolved first: the
+ * targets, every descendant, and any launcher ancestors up to the first
+ * process that is not a launcher (normally the user's shell).
+ */
+export class ProcessKiller {
+  private readonly POLL_INTERVAL_MS = 250;
+  private readonly KILL_WAIT_MS = 1000;
+
+  // Processes that only exist to run a dev server; killing them stops respawns
+  private readonly LAUNCHER_NAMES = ['npm', 'npx', 'yarn', 'pnpm', 'bun', 'nodemon', 'concurrently', 'turbo'];
+  private readonly LAUNCHER_COMMAND_PATTERNS = [
+    /^(\S*\/)?(sh|bash|zsh|dash) -c /,
+    /\bnpm-cli\.js\b/,
+    /\bnpx-cli\.js\b/,
+    /\byarn(\.js|\.cjs)?\b/,
+    /\bpnpm(\.cjs)?\b/
+  ];
+
+  constructor(
+    private readonly runner: CommandRunner,
+    private readonly backend: PlatformBackend,
+    private readonly policy: KillPolicy | null = null
+  ) {}
+
+  async resolveTree(targetPids: number[]): Promise<ResolvedProcess[]> {
+    const processes = await this.backend.listProcesses();
+    const byPid = new Map(processes.map(info => [info.pid, info]));
+    const untouchable = this.getUntouchablePids(byPid);
+    const resolved = new Map<number, ResolvedProcess>();
+
+    const add = (info: ProcessEntry, role: ResolvedProcess['role']) => {
+      if (!untouchable.has(info.pid) && !resolved.has(info.pid)) {
+        resolved.set(info.pid, { ...info, role });
+      }
+    };
+
+    for (const pid of targetPids) {
+      const info = byPid.get(pid);
+      if (!info) {
+        continue;
+      }
+      add(info, 'target');
+
+      let parent = byPid.get(info.ppid);
+      while (parent && !untouchable.has(parent.pid) && this.isLauncher(parent)) {
+        add(parent, 'launcher');
+        parent = byPid.get(parent.ppid);
+      }
+    }
+
+    // Everything below a target or launcher goes too
+    const queue = [...resolved.keys()];
+    while (queue.length > 0) {
+      const pid = queue.shift()!;
+      for (const child of processes) {
+        if (child.ppid === pid && !resolved.has(child.pid) && !untouchable.has(child.pid)) {
+          add(child, 'child');
+          queue.push(child.pid);
+        }
+      }
+    }
+
+    return [...resolved.values()];
+  }
+
+  async killTree(targetPids: number[], options: TreeKillOptions): Promise<TreeKillReport> {
+    return this.killResolved(await this.resolveTree(targetPids), options);
+  }
+
+  /** Splits processes into those the kill policy lets us signal and those it denies */
+  async authorize<T extends ResolvedProcess & { ports?: number[] }>(processes: T[]): Promise<{ allowed: T[]; denied: DeniedProcess[] }> {
+    if (!this.policy) {
+      return { allowed: processes, denied: [] };
+    }
+
+    const decisions = await this.policy.evaluate(processes.map(info => ({ pid: info.pid, ports: info.ports })));
+    const allowed: T[] = [];
+    const denied: DeniedProcess[] = [];
+    for (const info of processes) {
+      const decision = decisions.get(info.pid)!;
+      if (decision.effect === 'allow') {
+        allowed.push(info);
+      } else {
+        const { pid, ppid, processName, command, role } = info;
+        denied.push({ pid, ppid, processName, command, role, ports: info.ports ?? [], decision });
+      }
+    }
+    return { allowed, denied };
+  }
+
+  /** The kill policy's decision on stopping a Docker container; containers are stopped by Docker, not signalled here */
+  authorizeContainer(container: ContainerSubject): KillDecision {
+    return this.policy?.evaluateContainer(container) ?? { effect: 'allow', rule: 'default', builtIn: false, reason: 'No kill policy' };
+  }
+
+  /**
+   * Signals the processes the kill policy allows. Every tool's kill goes
+   * through here, so no tool bypasses the policy; the one exception is
+   * DevServerSupervisor.killAll, which stops this server's own children on exit.
+   */
+  async killResolved(processes: Array<ResolvedProcess & { ports?: number[] }>, options: TreeKillOptions): Promise<TreeKillReport> {
+    const outcomes = new Map<number, PidKillOutcome>();
+    const firstSignal: KillSignal = options.force ? 'KILL' : 'TERM';
+    const { allowed, denied } = await this.authorize(processes);
+
+    // Launchers first so they cannot respawn workers while those are going down
+    const ordered = [...allowed].sort((a, b) => this.signalOrder(a.role) - this.signalOrder(b.role));
+    for (const info of ordered) {
+      const error = await this.signal(info.pid, firstSignal);
+      outcomes.set(info.pid, {
+        pid: info.pid,
+        processName: info.processName,
+        command: info.command,
+        role: info.role,
+        signal: firstSignal,
+        status: error ? 'failed' : 'exited',
+        error: error ?? undefined
+      });
+    }
+
+    const signalled = ordered.map(info => info.pid).filter(pid => outcomes.get(pid)!.status !== 'failed');
+    let alive = await this.waitForExit(signalled, options.force ? this.KILL_WAIT_MS : options.graceMs);
+
+    if (!options.force && alive.length > 0) {
+      for (const pid of alive) {
+        const outcome = outcomes.get(pid)!;
+        const error = await this.signal(pid, 'KILL');
+        outcome.signal = 'KILL';
+        outcome.status = 'escalated';
+        if (error) {
+          outcome.error = error;
+        }
+      }
+      alive = await this.waitForExit(alive, this.KILL_WAIT_MS);
+    }
+
+    for (const pid of alive) {
+      outcomes.get(pid)!.status = 'survived';
+    }
+
+    const all = [...outcomes.values()];
+    return {
+      outcomes: all,
+      exited: all.filter(outcome => outcome.status === 'exited').map(outcome => outcome.pid),
+      escalated: all.filter(outcome => outcome.status === 'escalated').map(outcome => outcome.pid),
+      survived: all.filter(outcome => outcome.status === 'survived').map(outcome => outcome.pid),
+      failed: all.filter(outcome => outcome.status === 'failed').map(outcome => outcome.pid),
+      denied
+    };
+  }
+
+  private isLauncher(info: ProcessEntry): boolean {
+    if (this.LAUNCHER_NAMES.includes(info.processName)) {
+      return true;
+    }
+    return this.LAUNCHER_COMMAND_PATTERNS.some(pattern => pattern.test(info.command));
+  }
+
+  /** pid 1, this server and its ancestors (the IDE that spawned it) are never signalled */
+  private getUntouchablePids(byPid: Map<number, ProcessEntry>): Set<number> {
+    const untouchable = new Set<number>([0, 1, process.pid]);
+    let parent = byPid.get(process.pid);
+    while (parent && !untouchable.has(parent.ppid)) {
+      untouchable.add(parent.ppid);
+      parent = byPid.get(parent.ppid);
+    }
+    return untouchable;
+  }
+
+  private signalOrder(role: ResolvedProcess['role']): number {
+    return role === 'launcher' ? 0 : role === 'target' ? 1 : 2;
+  }
+
+  /** Returns an error message, or null if the signal was delivered or the process was already gone */
+  private async signal(pid: number, signal: KillSignal): Promise<string | null> {
+    try {
+      await this.runner.exec('kill', [`-${signal}`, String(pid)]);
+      return null;
+    } catch (error) {
+      if (error instanceof CommandError && error.stderr.includes('No such process')) {
+        return null;
+      }
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private async waitForExit(pids: number[], timeoutMs: number): Promise<number[]> {
+    const deadline = this.runner.now() + timeoutMs;
+    let alive = pids;
+
+    while (alive.length > 0) {
+      const running = new Set((await this.backend.listProcesses()).map(info => info.pid));
+      alive = alive.filter(pid => running.has(pid));
+      if (alive.length === 0 || this.runner.now() >= deadline) {
+        break;
+      }
+      await this.runner.sleep(this.POLL_INTERVAL_MS);
+    }
+
+    return alive;
+  }
+}
@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs';
+import { basename, join, resolve } from 'path';
+import type { FrameworkDefinition } from './framework-registry.js';
+
+export interface DetectionEvidence {
+  /** File the finding came from, relative to the project directory; absent for framework defaults */
+  file?: string;
+  kind: 'name' | 'framework' | 'port';
+  finding: string;
+}
+
+export interface ProjectDetection {
+  directory: string;
+  name: string;
+  framework: string | null;
+  ports: number[];
+  evidence: DetectionEvidence[];
+}
+
+export interface ProjectDetectorSources {
+  /** The framework registry, in detection order */
+  getFrameworks(): Record<string, FrameworkDefinition>;
+}
+
+const CONFIG_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts', '.cts'];
+const SERVER_SCRIPTS = ['dev', 'start', 'serve', 'preview', 'develop'];
+const ENV_FILES = ['.env', '.env.local', '.env.development', '.env.development.local'];
+
+/**
+ * Infers framework and ports from what is on disk, recording where every
+ * conclusion came from. Frameworks come from the registry and the first one
+ * whose dependency or config file is present wins. Ports set explicitly (config `port:`, `--port` flags
+ * in dev scripts, PORT or the framework's envPorts in .env files) replace the
+ * framework default; Storybook scripts and the envPorts of other frameworks
+ * found in the project add ports alongside it. Any other `*_PORT` variable
+ * (DATABASE_PORT, REDIS_PORT) is a service the app connects to, so it is
+ * only listed as evidence.
+ */
+export class ProjectDetector {
+  constructor(private readonly sources: ProjectDetectorSources) {}
+
+  async detect(directory: string): Promise<ProjectDetection> {
+    const root = resolve(directory);
+    const stat = await fs.stat(root).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new Error(`Not a directory: ${root}`);
+    }
+
+    const evidence: DetectionEvidence[] = [];
+    const serverPorts = new Set<number>();
+    const extraPorts = new Set<number>();
+
+    const packageJson = await this.readPackageJson(root);
+    let name = basename(root);
+    if (typeof packageJson?.name === 'string' && packageJson.name) {
+      name = packageJson.name;
+      evidence.push({ file: 'package.json', kind: 'name', finding: `name is "${name}"` });
+    }
+
+    const dependencies = {
+      ...(packageJson?.dependencies as Record<string, string> | undefined),
+      ...(packageJson?.devDependencies as Record<string, string> | undefined)
+    };
+
+    let framework: FrameworkDefinition | null = null;
+    const extraEnvPorts = new Set<string>();
+    for (const rule of Object.values(this.sources.getFrameworks())) {
+      const dependency = rule.dependencies.find(dep => dep in dependencies);
+      const configFile = await this.findConfigFile(root, rule.configFiles);
+      if (dependency) {
+        evidence.push({ file: 'package.json', kind: 'framework', finding: `depends on ${dependency} → ${rule.name}` });
+      }
+      if (configFile) {
+        evidence.push({ file: configFile, kind: 'framework', finding: `${configFile} present → ${rule.name}` });
+        await this.readConfigPort(root, configFile, serverPorts, evidence);
+      }
+      if ((dependency || configFile) && !framework) {
+        framework = rule;
+      } else if (dependency || configFile) {
+        rule.envPorts.forEach(key => extraEnvPorts.add(key));
+      }
+    }
+
+    const scripts = (packageJson?.scripts ?? {}) as Record<string, unknown>;
+    for (const [script, command] of Object.entries(scripts)) {
+      if (typeof command !== 'string') {
+        continue;
+      }
+      const isStorybook = script.includes('storybook') || /\bstorybook\s+dev\b|\bstart-storybook\b/.test(command);
+      if (!isStorybook && !SERVER_SCRIPTS.includes(script)) {
+        continue;
+      }
+      for (const port of this.parseScriptPorts(command)) {
+        (isStorybook ? extraPorts : serverPorts).add(port);
+        evidence.push({ file: 'package.json', kind: 'port', finding: `script "${script}" sets port ${port}: ${command}` });
+      }
+    }
+
+    for (const envFile of ENV_FILES) {
+      const contents = await this.readFile(join(root, envFile));
+      if (contents === null) {
+        continue;
+      }
+      for (const { key, port } of this.parseEnvPorts(contents)) {
+        if (key === 'PORT' || framework?.envPorts.includes(key)) {
+          serverPorts.add(port);
+        } else if (extraEnvPorts.has(key)) {
+          extraPorts.add(port);
+        } else {
+          evidence.push({ file: envFile, kind: 'port', finding: `${key}=${port} ignored, not a dev server port variable` });
+          continue;
+        }
+        evidence.push({ file: envFile, kind: 'port', finding: `${key}=${port}` });
+      }
+    }
+
+    if (framework && serverPorts.size === 0 && framework.defaultPorts.length > 0) {
+      framework.defaultPorts.forEach(port => serverPorts.add(port));
+      evidence.push({ kind: 'port', finding: `no port override found, using ${framework.name} default ${framework.defaultPorts.join(', ')}` });
+    }
+
+    return {
+      directory: root,
+      name,
+      framework: framework?.name ?? null,
+      ports: [...new Set([...serverPorts, ...extraPorts])],
+      evidence
+    };
+  }
+
+  private async readPackageJson(root: string): Promise<Record<string, unknown> | null> {
+    const contents = await this.readFile(join(root, 'package.json'));
+    if (contents === null) {
+      return null;
+    }
+    try {
+      return JSON.parse(contents);
+    } catch {
+      return null;
+    }
+  }
+
+  private async findConfigFile(root: string, baseNames: string[]): Promise<string | null> {
+    for (const baseName of baseNames) {
+      for (const extension of ['', ...CONFIG_EXTENSIONS]) {
+        const file = `${baseName}${extension}`;
+        if (await this.readFile(join(root, file)) !== null) {
+          return file;
+        }
+      }
+    }
+    return null;
+  }
+
+  /** Picks up `port: 4000` inside a `server` block, the form used by Vite and Astro configs */
+  private async readConfigPort(root: string, file: string, ports: Set<number>, evidence: DetectionEvidence[]): Promise<void> {
+    const contents = await this.readFile(join(root, file));
+    const match = contents?.match(/\bserver\s*:\s*\{[^}]*?\bport\s*:\s*(\d{2,5})\b/s);
+    const port = match ? parseInt(match[1], 10) : NaN;
+    if (isValidPort(port)) {
+      ports.add(port);
+      evidence.push({ file, kind: 'port', finding: `server.port is ${port}` });
+    }
+  }
+
+  private parseScriptPorts(command: string): number[] {
+    const ports: number[] = [];
+    const pattern = /(?:--port[=\s]+|-p\s+|\bPORT=)(\d{2,5})\b/g;
+    for (const match of command.matchAll(pattern)) {
+      const port = parseInt(match[1], 10);
+      if (isValidPort(port)) {
+        ports.push(port);
+      }
+    }
+    return ports;
+  }
+
+  private parseEnvPorts(contents: string): Array<{ key: string; port: number }> {
+    const ports: Array<{ key: string; port: number }> = [];
+    for (const line of contents.split('\n')) {
+      const match = line.trim().match(/^(?:export\s+)?([A-Z0-9_]*PORT)\s*=\s*["']?(\d{2,5})["']?\s*(?:#.*)?$/);
+      if (!match || (match[1] !== 'PORT' && !match[1].endsWith('_PORT'))) {
+        continue;
+      }
+      const port = parseInt(match[2], 10);
+      if (isValidPort(port)) {
+        ports.push({ key: match[1], port });
+      }
+    }
+    return ports;
+  }
+
+  private async readFile(path: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
+
+function isValidPort(port: number): boolean {
+  return Number.isInteger(port) && port >= 1 && port <= 65535;
+}
@@ -1,21 +1,49 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
 import { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
-import { SessionManager, ProjectInfo } from './session-manager.js';
+import { SessionManager, ProjectInfo, PortLease, LeaseConflict } from './session-manager.js';
+import { CommandRunner, ExecFileCommandRunner } from './command-runner.js';
+import { ListeningSocket, PlatformBackend, PortExposure, PortProcess, PortSocket, ProcessDetails, ProcessEntry, SocketState, createPlatformBackend, portExposure, portListeners, uniquePids } from './platform-backend.js';
+import { ProcessKiller, PidKillOutcome, TreeKillReport, TreeKillOptions, KillSignal, DeniedProcess } from './process-killer.js';
+import { AuditLog, AuditEntry, AuditOutcome, AUDIT_OUTCOMES, auditTargets, killOutcome } from './audit-log.js';
+import { ConfigManager, ConfigIssue, ConfigSource, DEFAULT_TABLES, ResourceTables } from './config-manager.js';
+import { ProjectDetector, ProjectDetection } from './project-detector.js';
+import { allProcessPatterns, killableServerTypes, matchesProcessPattern } from './framework-registry.js';
+import { PortMonitorManager, MonitorEvent, MonitorInfo, MonitorPollResult, MonitorEventListener } from './port-monitor.js';
+import { SnapshotStore, SnapshotDiff, SnapshotSummary, SocketSnapshot, Listener } from './socket-snapshots.js';
+import { DevServerSupervisor, DevServerLogLine, DevServerLogResult, DevServerStartOptions, DevServerStartResult, DevServerStopResult } from './dev-server-supervisor.js';
+import { DockerInspector, ContainerInfo, PortContainer } from './docker-inspector.js';
+import { ResourceSampler, ConsumerReport, isInsideDirectory, runsFrom } from './resource-sampler.js';
+import { OrphanDetector, OrphanCandidate, OrphanReason, OrphanScan } from './orphan-detector.js';
+import { KillPlanStore, KillPlan, KillPlanResult, KillConfirmation, PlannedTarget, planSignature } from './kill-plan.js';
+import { BUILT_IN_RULES, KillDecision, KillPolicy, KillPolicyConfig } from './kill-policy.js';
+
+export interface ToolErrorResult {
+  error: string;
+}
 
-export interface ToolResult extends CallToolResult {
+/**
+ * Every tool returns the emoji text for humans plus the same data as a typed
+ * payload in `structuredContent`, so callers never have to scrape the text.
+ */
+export interface ToolResult<T = unknown> extends CallToolResult {
   content: TextContent[];
+  structuredContent?: T | ToolErrorResult;
 }
 
 export interface PortInfo {
   port: number;
+  /** in-use only when something listens; see exposure for client-only ports */
   status: 'available' | 'in-use';
   pid?: number;
   processName?: string;
   command?: string;
+  /** Protocol, family, bind address and state of the first listener (or client socket when nothing listens) */
+  protocol?: PortSocket['protocol'];
+  family?: PortSocket['family'];
+  address?: string;
+  state?: SocketState;
+  exposure?: PortExposure;
+  /** Docker container publishing the port, when the listener is Docker's proxy */
+  container?: PortContainer;
 }
 
 export interface SystemResources {
@@ -32,101 +60,360 @@ export interface SystemResources {
   };
 }
 
+export interface PortCheckResult {
+  port: number;
+  /** in-use only when something listens; outbound connections to the port elsewhere leave it available */
+  status: 'available' | 'in-use';
+  exposure?: PortExposure;
+  /** Every socket on the port: listeners, accepted connections and client connections */
+  processes: PortSocket[];
+  container?: PortContainer;
+}
+
+export interface ProcessRelative {
+  pid: number;
+  processName: string;
+  command: string;
+}
+
+export interface ProcessInfo extends ProcessDetails {
+  elapsedMs: number | null;
+  parent: ProcessRelative | null;
+  children: ProcessRelative[];
+  listening: Array<Pick<ListeningSocket, 'protocol' | 'family' | 'address' | 'port'>>;
+  /** Registered project the process or one of its ancestors belongs to */
+  project: string | null;
+  /** Reasons the kill tools would refuse the process or its ports */
+  warnings: string[];
+}
+
+export interface ProcessInfoResult {
+  pid?: number;
+  port?: number;
+  processes: ProcessInfo[];
+}
+
+export interface ProtectedSkip {
+  port: number;
+  reason: 'protected-port' | 'critical-process' | 'leased' | 'container';
+  /** Protected service names, the lease-holding project for 'leased', or the container name for 'container' */
+  services: string[];
+  /** Container publishing the port; stop it with stop_container instead of killing Docker's proxy */
+  container?: PortContainer;
+}
+
+export interface StopContainerResult {
+  container: ContainerInfo;
+  timeoutSeconds: number;
+}
+
+export interface KillPortResult extends TreeKillReport {
+  port: number;
+  signal?: string;
+  skipped?: ProtectedSkip;
+  portFree: boolean;
+}
+
+export interface DevPortsResult {
+  ports: PortInfo[];
+}
+
+export interface KillDevServersResult extends TreeKillReport {
+  serverType: string;
+  patterns: Array<{
+    pattern: string;
+    status: 'matched' | 'not-found';
+    pids: number[];
+  }>;
+}
+
+export interface OrphanScanResult extends OrphanScan {
+  idleMinutes: number;
+}
+
+export interface KillOrphansResult extends TreeKillReport {
+  idleMinutes: number;
+  reasons: OrphanReason[];
+  /** Orphans flagged for one of the requested reasons */
+  orphans: OrphanCandidate[];
+  /** Ports that kept their orphan alive: protected, leased, Docker-owned or held by a critical process */
+  skipped: ProtectedSkip[];
+  /** Orphans without ports left alone because they match a protected process pattern */
+  protectedPids: Array<{ pid: number; services: string[] }>;
+}
+
+export interface PortMonitorEvent {
+  timestamp: number;
+  status: 'available' | 'in-use';
+  pid?: number;
+  processName?: string;
+}
+
+export interface MonitorPortResult {
+  port: number;
+  duration: number;
+  events: PortMonitorEvent[];
+}
+
+export interface ProtectedServicesResult {
+  protectedPorts: Array<{ port: number; service: string; source: 'builtin' | 'config' | 'custom' }>;
+  processPatterns: string[];
+  running: Array<{ port: number; service: string }>;
+}
+
+export interface PortCleanupResult {
+  port: number;
+  /** denied: something holds the port but the kill policy refused every process on it */
+  status: 'killed' | 'available' | 'skipped' | 'failed' | 'denied';
+  outcomes: PidKillOutcome[];
+  skipped?: ProtectedSkip;
+  denied?: DeniedProcess[];
+}
+
+export interface SelectiveCleanupResult {
+  ports: PortCleanupResult[];
+}
+
+export interface ProjectCleanupResult {
+  project: string;
+  ports: PortCleanupResult[];
+}
+
+export interface PortConflict {
+  port: number;
+  /** project: registered to another project; in-use: a process unrelated to this project is listening */
+  reason: 'protected-port' | 'custom-protected' | 'project' | 'leased' | 'in-use';
+  detail: string;
+  project?: string;
+  pids?: number[];
+}
+
+export interface PortSuggestion {
+  port: number;
+  /** Nearest free port above the conflicting one, or null if none was found nearby */
+  alternative: number | null;
+}
+
+export interface ProjectResult {
+  /** Absent when strict mode refused the registration */
+  project?: ProjectInfo;
+  registered: boolean;
+  leaseConflicts: LeaseConflict[];
+  conflicts: PortConflict[];
+  suggestions: PortSuggestion[];
+}
+
+export interface ProjectDetectionResult extends ProjectDetection {
+  registered: boolean;
+  /** Set when the detection was registered and some ports are leased to other projects */
+  leaseConflicts?: LeaseConflict[];
+  conflicts?: PortConflict[];
+  suggestions?: PortSuggestion[];
+}
+
+export interface ProjectListResult {
+  projects: ProjectInfo[];
+}
+
+export interface ProtectedPortResult {
+  port: number;
+  service: string;
+}
+
+export interface LeaseResult {
+  project: string;
+  granted: PortLease[];
+  conflicts: LeaseConflict[];
+}
+
+export interface LeaseListResult {
+  leases: PortLease[];
+}
+
+export interface FreePortOptions {
+  rangeStart: number;
+  rangeEnd: number;
+  preferred?: number;
+  count: number;
+  consecutive: boolean;
+  /** Ports registered to this project are not treated as taken */
+  projectName?: string;
+}
+
+export interface ExcludedPort {
+  port: number;
+  reason: 'protected-port' | 'custom-protected' | 'project' | 'leased' | 'in-use';
+  detail: string;
+}
+
+export interface FreePortsResult {
+  range: { start: number; end: number };
+  preferred?: number;
+  consecutive: boolean;
+  ports: number[];
+  excluded: ExcludedPort[];
+}
+
+export interface AuditLogOptions {
+  /** ISO 8601 timestamps bounding the entries returned */
+  since?: string;
+  until?: string;
+  port?: number;
+  project?: string;
+  outcome?: AuditOutcome;
+  limit?: number;
+}
+
+export interface AuditLogResult {
+  entries: AuditEntry[];
+  /** Matching entries before `limit` was applied */
+  total: number;
+}
+
+export interface PortState extends PortCheckResult {
+  protectedService?: string;
+  /** Registered project that lists this port */
+  project?: string;
+  lease?: PortLease;
+}
+
+export interface ProjectState {
+  project: ProjectInfo;
+  leases: PortLease[];
+  ports: PortState[];
+}
+
+export interface MonitorListResult {
+  monitors: MonitorInfo[];
+}
+
+export interface SnapshotListResult {
+  snapshots: SnapshotSummary[];
+}
+
+export interface ConfigStatusResult {
+  sources: ConfigSource[];
+  issues: ConfigIssue[];
+  /** Effective tables, including the project's overrides when one was named */
+  tables: ResourceTables;
+  /** Configured kill policy; built-in rules are evaluated after these */
+  killPolicy: KillPolicyConfig;
+  /** Kills without a confirmation token return a plan instead */
+  requireConfirmation: boolean;
+  project?: string;
+}
+
 export class MacResourceManager {
-  private readonly COMMON_DEV_PORTS = [3000, 3001, 4321, 5173, 8000, 8080, 8100, 9000];
   private sessionManager: SessionManager;
-  
-  // Protected ports that should never be killed
-  private readonly PROTECTED_PORTS = {
-    // Database servers
-    3306: 'MySQL',
-    5432: 'PostgreSQL', 
-    6379: 'Redis',
-    27017: 'MongoDB',
-    // Docker services
-    2375: 'Docker daemon (unsecured)',
-    2376: 'Docker daemon (secured)',
-    2377: 'Docker Swarm',
-    // Common system services
-    22: 'SSH',
-    80: 'HTTP',
-    443: 'HTTPS',
-    25: 'SMTP',
-    53: 'DNS',
-    // Development databases
-    1433: 'SQL Server',
-    5984: 'CouchDB',
-    9200: 'Elasticsearch',
-    8086: 'InfluxDB',
-    // Message brokers
-    5672: 'RabbitMQ',
-    9092: 'Kafka'
-  };
-  
-  // Patterns for critical services that should be protected
-  private readonly PROTECTED_PROCESS_PATTERNS = [
-    'docker',
-    'dockerd', 
-    'mysql',
-    'mysqld',
-    'postgres',
-    'redis-server',
-    'mongod',
-    'elasticsearch',
-    'rabbitmq',
-    'kafka'
-  ];
-  
-  private readonly SERVER_PATTERNS = {
-    astro: ['astro dev', 'astro preview'],
-    npm: ['npm run dev', 'npm start', 'npm run serve'],
-    vite: ['vite', 'vite dev', 'vite serve'],
-    next: ['next dev', 'next start'],
-  };
+  private readonly runner: CommandRunner;
+  private readonly backend: PlatformBackend;
+  private readonly killer: ProcessKiller;
+  private readonly killPlans: KillPlanStore;
+  private readonly audit: AuditLog;
+  private readonly config: ConfigManager;
+  private readonly detector = new ProjectDetector({ getFrameworks: () => this.config.getTables().frameworks });
+  private readonly monitors: PortMonitorManager;
+  private readonly snapshots: SnapshotStore;
+  private readonly devServers: DevServerSupervisor;
+  private readonly docker: DockerInspector;
+  private readonly sampler: ResourceSampler;
+  private readonly orphans: OrphanDetector;
+  /** Settles once the saved session and the config files are loaded; tools called before then see defaults */
+  readonly ready: Promise<void>;
 
-  constructor() {
+  constructor(runner: CommandRunner = new ExecFileCommandRunner(), backend: PlatformBackend = createPlatformBackend(runner)) {
+    this.runner = runner;
+    this.backend = backend;
+    this.killer = new ProcessKiller(runner, backend, new KillPolicy(backend, {
+      getProjects: () => this.sessionManager.getActiveProjects(),
+      getPolicy: () => this.config.getKillPolicy()
+    }, () => runner.now()));
+    this.killPlans = new KillPlanStore(() => runner.now());
+    this.audit = new AuditLog(() => runner.now());
+    this.config = new ConfigManager();
+    this.monitors = new PortMonitorManager(backend, () => runner.now());
+    this.snapshots = new SnapshotStore(backend, () => runner.now());
+    this.devServers = new DevServerSupervisor(runner, backend, this.killer);
+    this.docker = new DockerInspector(runner);
+    this.sampler = new ResourceSampler(backend, {
+      getProjects: () => this.sessionManager.getActiveProjects(),
+      getServerPatterns: () => allProcessPatterns(this.config.getTables().frameworks)
+    }, () => runner.now());
+    this.orphans = new OrphanDetector(runner, backend, {
+      getProjects: () => this.sessionManager.getActiveProjects(),
+      getServerPatterns: () => allProcessPatterns(this.config.getTables().frameworks),
+      getDevPorts: () => this.config.getTables().commonDevPorts
+    });
     this.sessionManager = new SessionManager();
-    this.initializeSession();
+    this.ready = this.initializeSession();
   }
 
   private async initializeSession(): Promise<void> {
     try {
       await this.sessionManager.loadSession();
+      await this.config.load();
+      await this.config.setProjects(this.sessionManager.getActiveProjects());
     } catch (error) {
       console.error('Failed to initialize session:', error);
     }
   }
 
-  async checkPort(port: number): Promise<ToolResult> {
+  async checkPort(port: number): Promise<ToolResult<PortCheckResult>> {
     try {
       this.validatePort(port);
       
-      const { stdout } = await execAsync(`lsof -i :${port} -P -n`);
+      const processInfo = await this.backend.getPortProcesses(port);
+      const exposure = portExposure(processInfo, port);
       
-      if (!stdout.trim()) {
+      if (exposure === null) {
         return {
           content: [{
             type: 'text',
             text: `🟢 Port ${port} is available`
-          }]
+          }],
+          structuredContent: { port, status: 'available', processes: [] }
         };
       }
 
-      const lines = stdout.trim().split('\n');
-      const processInfo = this.parseProcessInfo(lines);
+      if (exposure === 'client-only') {
+        let result = `🟢 Port ${port} is available (nothing listens; only client connections to port ${port} elsewhere):\n`;
+        for (const socket of processInfo) {
+          result += `  • ${socket.processName} (PID ${socket.pid}): ${this.formatPortSocket(socket)}\n`;
+        }
+        return {
+          content: [{
+            type: 'text',
+            text: result
+          }],
+          structuredContent: { port, status: 'available', exposure, processes: processInfo }
+        };
+      }
       
-      let result = `🔴 Port ${port} is in use:\n`;
-      processInfo.forEach(info => {
+      const listeners = portListeners(processInfo, port);
+      let result = `🔴 Port ${port} is in use, ${this.describeExposure(exposure, listeners)}:\n`;
+      for (const pid of uniquePids(listeners)) {
+        const info = listeners.find(socket => socket.pid === pid)!;
         result += `  • PID: ${info.pid}\n`;
         result += `  • Process: ${info.processName}\n`;
         result += `  • Command: ${info.command}\n`;
-      });
+        result += `  • Listening: ${listeners.filter(socket => socket.pid === pid).map(socket => this.formatPortSocket(socket)).join(', ')}\n`;
+      }
+      const connections = processInfo.filter(socket => !listeners.includes(socket));
+      if (connections.length > 0) {
+        result += `  • Connections: ${connections.length} (${[...new Set(connections.map(socket => socket.state))].join(', ')})\n`;
+      }
+
+      const container = await this.docker.findByPort(port) ?? undefined;
+      if (container) {
+        result += `  • 🐳 Container: ${this.formatContainer(container)} → ${container.containerPort}/${container.protocol}\n`;
+      }
 
       return {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: { port, status: 'in-use', exposure, processes: processInfo, container }
       };
     } catch (error) {
       if (error instanceof Error && error.message.includes('No such process')) {
@@ -134,79 +421,207 @@ export class MacResourceManager {
           content: [{
             type: 'text',
             text: `🟢 Port ${port} is available`
-          }]
+          }],
+          structuredContent: { port, status: 'available', processes: [] }
         };
       }
       
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error checking port ${port}: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async getProcessInfo(pid?: number, port?: number): Promise<ToolResult<ProcessInfoResult>> {
+    try {
+      if ((pid === undefined) === (port === undefined)) {
+        throw new Error('Provide exactly one of pid or port');
+      }
+
+      let pids: number[];
+      if (port !== undefined) {
+        this.validatePort(port);
+        pids = uniquePids(await this.backend.getPortProcesses(port));
+        if (pids.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `🟢 Port ${port} is not in use by any process`
+            }],
+            structuredContent: { port, processes: [] }
+          };
+        }
+      } else {
+        if (!Number.isInteger(pid) || pid! < 1) {
+          throw new Error(`Invalid PID: ${pid}. Must be a positive integer.`);
+        }
+        pids = [pid!];
+      }
+
+      const processes = await this.backend.listProcesses();
+      let sockets: ListeningSocket[] = [];
+      try {
+        sockets = await this.backend.listListeningSockets();
+      } catch (error) {
+        console.error('Failed to list listening sockets:', error);
+      }
+
+      const infos: ProcessInfo[] = [];
+      for (const target of pids) {
+        const details = await this.backend.getProcessDetails(target);
+        if (details) {
+          infos.push(await this.describeProcess(details, processes, sockets));
+        }
+      }
+      if (infos.length === 0) {
+        throw new Error(port !== undefined ? `The processes on port ${port} exited` : `No process with PID ${pid}`);
+      }
+
+      let result = port !== undefined ? `🔍 Port ${port} is held by ${infos.length} process${infos.length === 1 ? '' : 'es'}:\n` : '';
+      for (const info of infos) {
+        result += `\n🔍 ${info.processName} (PID ${info.pid})\n`;
+        result += `  • Command: ${info.command}\n`;
+        result += `  • User: ${info.user}\n`;
+        result += `  • Working directory: ${info.cwd ?? 'unknown'}\n`;
+        result += `  • Executable: ${info.executable ?? 'unknown'}\n`;
+        result += `  • Parent: ${info.parent ? `${info.parent.processName} (PID ${info.parent.pid})` : `PID ${info.ppid}`}\n`;
+        if (info.children.length > 0) {
+          result += `  • Children: ${info.children.map(child => `${child.processName} (PID ${child.pid})`).join(', ')}\n`;
+        }
+        if (info.startedAt !== null && info.elapsedMs !== null) {
+          result += `  • Started: ${new Date(info.startedAt).toLocaleString()} (running for ${this.formatElapsed(info.elapsedMs)})\n`;
+        }
+        result += `  • CPU: ${info.cpuPercent}%, memory: ${this.formatMemory(info.rssBytes)}\n`;
+        if (info.listening.length > 0) {
+          result += `  • Listening: ${info.listening.map(socket => `${socket.protocol.toUpperCase()} ${this.formatSocketAddress(socket.address, socket.port)}`).join(', ')}\n`;
+        }
+        result += `  • Project: ${info.project ?? 'none'}\n`;
+        for (const warning of info.warnings) {
+          result += `  ⚠️ ${warning}\n`;
+        }
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result.trimStart()
+        }],
+        structuredContent: { pid, port, processes: infos }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error checking port ${port}: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error inspecting ${port !== undefined ? `port ${port}` : `PID ${pid}`}: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async killPort(port: number, force: boolean): Promise<ToolResult> {
+  async killPort(
+    port: number,
+    force: boolean,
+    graceMs: number,
+    includeClients = false,
+    confirmation: KillConfirmation = {}
+  ): Promise<ToolResult<KillPortResult | KillPlanResult>> {
+    const auditArgs = { port, force, graceMs, includeClients, confirmed: Boolean(confirmation.token) };
     try {
       this.validatePort(port);
       
+      const signal = force ? 'KILL' : 'TERM';
+      const plan = await this.planPortKills('kill_port', [port], signal, undefined, includeClients);
+      await this.applyKillPolicy(plan);
+      const gate = this.confirmKillPlan(plan, JSON.stringify({ port, force, includeClients }), confirmation);
+      if (gate) {
+        return gate;
+      }
+      
       // Check if port is protected
-      if (this.isProtectedPort(port)) {
+      const [skipped] = plan.skipped;
+      if (skipped?.reason === 'protected-port') {
+        await this.recordKill(auditArgs, plan, this.emptyKillReport());
         return {
           content: [{
             type: 'text',
-            text: `🛡️ Port ${port} is protected (${this.PROTECTED_PORTS[port as keyof typeof this.PROTECTED_PORTS]}). Cannot kill processes on this port.`
+            text: `🛡️ Port ${port} is protected (${skipped.services.join(', ')}). Cannot kill processes on this port.` +
+              (skipped.container ? `\n${this.formatContainerHint(skipped.container)}` : '')
           }],
+          structuredContent: { port, ...this.emptyKillReport(), skipped, portFree: false },
           isError: true
         };
       }
       
-      const { stdout } = await execAsync(`lsof -ti :${port}`);
-      
-      if (!stdout.trim()) {
+      if (plan.targets.length === 0 && plan.denied.length > 0) {
+        const report = await this.runKillPlan(plan, { force, graceMs });
+        await this.recordKill(auditArgs, plan, report);
         return {
           content: [{
             type: 'text',
-            text: `ℹ️ No processes found on port ${port}`
-          }]
+            text: `⛔ The kill policy refused every process on port ${port}:\n${this.formatKillReport(report)}`.trimEnd()
+          }],
+          structuredContent: { port, signal, ...report, portFree: false },
+          isError: true
         };
       }
 
-      // Check if any processes are critical services
-      const processCheck = await this.checkForCriticalProcesses(port);
-      if (processCheck.hasCritical) {
+      if (plan.targets.length === 0 && !skipped) {
+        await this.recordKill(auditArgs, plan, this.emptyKillReport());
+        return {
+          content: [{
+            type: 'text',
+            text: `ℹ️ No processes ${includeClients ? 'found' : 'listening'} on port ${port}`
+          }],
+          structuredContent: { port, ...this.emptyKillReport(), portFree: true }
+        };
+      }
+
+      if (skipped?.reason === 'container') {
+        await this.recordKill(auditArgs, plan, this.emptyKillReport());
         return {
           content: [{
             type: 'text',
-            text: `🛡️ Cannot kill port ${port}: Critical service detected (${processCheck.services.join(', ')}).\nUse 'list_protected_services' to see all protected services.`
+            text: `🐳 Port ${port} is published by container ${this.formatContainer(skipped.container!)}. ` +
+              `Killing Docker's proxy would not stop it.\n${this.formatContainerHint(skipped.container!)}`
           }],
+          structuredContent: { port, ...this.emptyKillReport(), skipped, portFree: false },
           isError: true
         };
       }
 
-      const pids = stdout.trim().split('\n').filter(pid => pid);
-      const signal = force ? 'KILL' : 'TERM';
+      // Check if any processes are critical services
+      if (skipped?.reason === 'critical-process') {
+        await this.recordKill(auditArgs, plan, this.emptyKillReport());
+        return {
+          content: [{
+            type: 'text',
+            text: `🛡️ Cannot kill port ${port}: Critical service detected (${skipped.services.join(', ')}).\nUse 'list_protected_services' to see all protected services.`
+          }],
+          structuredContent: { port, ...this.emptyKillReport(), skipped, portFree: false },
+          isError: true
+        };
+      }
       
       let result = `${force ? '💀' : '⚡'} ${force ? 'Force killing' : 'Gracefully terminating'} processes on port ${port}:\n`;
       
-      for (const pid of pids) {
-        try {
-          await execAsync(`kill -${signal} ${pid}`);
-          result += `  ✅ Killed PID ${pid}\n`;
-        } catch (error) {
-          result += `  ❌ Failed to kill PID ${pid}: ${error instanceof Error ? error.message : String(error)}\n`;
-        }
-      }
-
-      // Wait a moment and verify
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const report = await this.runKillPlan(plan, { force, graceMs });
+      await this.recordKill(auditArgs, plan, report);
+      result += this.formatKillReport(report);
       
-      try {
-        await execAsync(`lsof -ti :${port}`);
+      const sockets = await this.backend.getPortProcesses(port);
+      const remaining = includeClients ? sockets : portListeners(sockets, port);
+      if (remaining.length > 0) {
         result += `⚠️ Some processes may still be running on port ${port}`;
-      } catch {
+      } else {
         result += `✅ Port ${port} is now free`;
       }
 
@@ -214,42 +629,51 @@ export class MacResourceManager {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: { port, signal, ...report, portFree: remaining.length === 0 }
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordError('kill_port', auditArgs, message, [port]);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error killing processes on port ${port}: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error killing processes on port ${port}: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async listDevPorts(): Promise<ToolResult> {
+  async listDevPorts(): Promise<ToolResult<DevPortsResult>> {
     try {
       const portStatuses: PortInfo[] = [];
+      const ports = this.config.getTables().commonDevPorts;
+      const sockets = await this.backend.getPortsProcesses(ports).catch(() => new Map<number, PortSocket[]>());
       
-      for (const port of this.COMMON_DEV_PORTS) {
+      for (const port of ports) {
         try {
-          const { stdout } = await execAsync(`lsof -i :${port} -P -n`);
+          const processInfo = sockets.get(port) ?? [];
+          const exposure = portExposure(processInfo, port);
           
-          if (!stdout.trim()) {
+          if (exposure === null) {
             portStatuses.push({ port, status: 'available' });
           } else {
-            const lines = stdout.trim().split('\n');
-            const processInfo = this.parseProcessInfo(lines);
-            
-            if (processInfo.length > 0) {
-              portStatuses.push({
-                port,
-                status: 'in-use',
-                pid: processInfo[0].pid,
-                processName: processInfo[0].processName,
-                command: processInfo[0].command
-              });
-            }
+            const [socket] = exposure === 'client-only' ? processInfo : portListeners(processInfo, port);
+            portStatuses.push({
+              port,
+              status: exposure === 'client-only' ? 'available' : 'in-use',
+              pid: socket.pid,
+              processName: socket.processName,
+              command: socket.command,
+              protocol: socket.protocol,
+              family: socket.family,
+              address: socket.localAddress,
+              state: socket.state,
+              exposure,
+              container: exposure === 'client-only' ? undefined : await this.docker.findByPort(port) ?? undefined
+            });
           }
         } catch {
           portStatuses.push({ port, status: 'available' });
@@ -263,7 +687,13 @@ export class MacResourceManager {
         result += `Port ${info.port}: ${status}`;
         
         if (info.status === 'in-use') {
-          result += ` (PID: ${info.pid}, Process: ${info.processName})`;
+          const scope = info.exposure === 'loopback' ? 'loopback only' : info.exposure === 'all-interfaces' ? 'all interfaces' : `on ${info.address}`;
+          result += ` (PID: ${info.pid}, Process: ${info.processName}, ${info.protocol?.toUpperCase()} ${scope})`;
+        } else if (info.exposure === 'client-only') {
+          result += ` (only client connections from ${info.processName}, PID ${info.pid})`;
+        }
+        if (info.container) {
+          result += ` 🐳 ${this.formatContainer(info.container)}`;
         }
         
         result += '\n';
@@ -273,20 +703,23 @@ export class MacResourceManager {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: { ports: portStatuses }
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error listing development ports: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error listing development ports: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async getSystemResources(): Promise<ToolResult> {
+  async getSystemResources(): Promise<ToolResult<SystemResources>> {
     try {
       const resources: SystemResources = {
         memory: { pressure: '', usage: '' },
@@ -294,41 +727,22 @@ export class MacResourceManager {
         network: { established_connections: 0, listening_ports: 0 }
       };
 
-      // Memory pressure (Mac-specific)
-      try {
-        const { stdout: memoryPressure } = await execAsync('memory_pressure');
-        resources.memory.pressure = memoryPressure.trim();
-      } catch {
-        resources.memory.pressure = 'Unable to determine memory pressure';
-      }
-
-      // Memory usage
-      try {
-        const { stdout: memoryUsage } = await execAsync('vm_stat | head -4');
-        resources.memory.usage = memoryUsage.trim();
-      } catch {
-        resources.memory.usage = 'Unable to determine memory usage';
-      }
-
-      // CPU usage
-      try {
-        const { stdout: cpuUsage } = await execAsync('top -l 1 -n 0 | grep "CPU usage"');
-        resources.cpu.usage = cpuUsage.trim();
-      } catch {
-        resources.cpu.usage = 'Unable to determine CPU usage';
-      }
+      const usage = await this.backend.getSystemUsage();
+      resources.memory.pressure = usage.memoryPressure ?? 'Unable to determine memory pressure';
+      resources.memory.usage = usage.memoryUsage ?? 'Unable to determine memory usage';
+      resources.cpu.usage = usage.cpuUsage ?? 'Unable to determine CPU usage';
 
       // Network connections
       try {
-        const { stdout: established } = await execAsync('netstat -an | grep ESTABLISHED | wc -l');
-        resources.network.established_connections = parseInt(established.trim()) || 0;
+        const { stdout: netstat } = await this.runner.exec('netstat', ['-an']);
+        resources.network.established_connections = netstat.split('\n').filter(line => line.includes('ESTABLISHED')).length;
       } catch {
         resources.network.established_connections = 0;
       }
 
       try {
-        const { stdout: listening } = await execAsync('lsof -i -P | grep LISTEN | wc -l');
-        resources.network.listening_ports = parseInt(listening.trim()) || 0;
+        const { stdout: lsof } = await this.runner.exec('lsof', ['-i', '-P']);
+        resources.network.listening_ports = lsof.split('\n').filter(line => line.includes('LISTEN')).length;
       } catch {
         resources.network.listening_ports = 0;
       }
@@ -345,462 +759,2516 @@ export class MacResourceManager {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: resources
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error getting system resources: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error getting system resources: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async killDevServers(serverType: string): Promise<ToolResult> {
+  /** Begins periodic sampling for top_consumers, and connection tracking for find_orphans' idle check */
+  startResourceSampler(): void {
+    this.sampler.start();
+    this.orphans.start();
+  }
+
+  async getTopConsumers(limit: number, minutes: number, sortBy: ConsumerReport['sortBy']): Promise<ToolResult<ConsumerReport>> {
     try {
-      let patterns: string[] = [];
-      
-      if (serverType === 'all') {
-        patterns = Object.values(this.SERVER_PATTERNS).flat();
-      } else if (this.SERVER_PATTERNS[serverType as keyof typeof this.SERVER_PATTERNS]) {
-        patterns = this.SERVER_PATTERNS[serverType as keyof typeof this.SERVER_PATTERNS];
-      } else {
-        return {
-          content: [{
-            type: 'text',
-            text: `❌ Unknown server type: ${serverType}. Use: astro, npm, vite, next, or all`
-          }],
-          isError: true
-        };
+      if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+        throw new Error(`Invalid limit: ${limit}. Must be between 1 and 100.`);
+      }
+      if (!(minutes > 0 && minutes <= 60)) {
+        throw new Error(`Invalid minutes: ${minutes}. Must be greater than 0 and at most 60.`);
+      }
+      if (sortBy !== 'cpu' && sortBy !== 'memory') {
+        throw new Error(`Invalid sort_by: ${sortBy}. Use cpu or memory.`);
       }
 
-      let result = `🔄 Killing ${serverType} development servers:\n\n`;
-      let killedCount = 0;
-
-      for (const pattern of patterns) {
-        try {
-          const { stdout } = await execAsync(`pkill -f "${pattern}"`);
-          killedCount++;
-          result += `✅ Killed processes matching: "${pattern}"\n`;
-        } catch (error) {
-          // pkill returns exit code 1 if no processes found, which is normal
-          if (error instanceof Error && !error.message.includes('exit code 1')) {
-            result += `⚠️ Error killing "${pattern}": ${error.message}\n`;
-          }
-        }
+      // Without background sampling there is no history yet; take one now
+      if (!this.sampler.hasSamples()) {
+        await this.sampler.sample();
       }
+      const report = this.sampler.top(limit, minutes * 60 * 1000, sortBy);
 
-      if (killedCount === 0) {
-        result += `ℹ️ No ${serverType} development servers found running\n`;
+      let result = `🔥 Top ${sortBy === 'cpu' ? 'CPU' : 'memory'} consumers over the last ${minutes} minute${minutes === 1 ? '' : 's'} ` +
+        `(${report.samples} sample${report.samples === 1 ? '' : 's'}):\n\n`;
+
+      if (report.top.length === 0) {
+        result += 'ℹ️ No project or dev-server processes were seen in this window\n';
       }
+      report.top.forEach((stat, index) => {
+        result += `${index + 1}. ${stat.processName} (PID ${stat.pid})${stat.project ? ` [${stat.project}]` : ''}: ` +
+          `CPU ${stat.avgCpuPercent}% avg / ${stat.peakCpuPercent}% peak, ` +
+          `memory ${this.formatMemory(stat.avgRssBytes)} avg / ${this.formatMemory(stat.peakRssBytes)} peak\n`;
+      });
 
-      result += `\n🔍 Waiting for process cleanup...`;
-      
-      // Wait for processes to terminate
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      result += `\n✅ Development server cleanup complete`;
+      if (report.projects.length > 0) {
+        result += '\n📁 By project:\n';
+        for (const usage of report.projects) {
+          result += `  • ${usage.project ?? 'Unregistered dev servers'}: CPU ${usage.avgCpuPercent}%, memory ${this.formatMemory(usage.avgRssBytes)} ` +
+            `across ${usage.processes} process${usage.processes === 1 ? '' : 'es'}\n`;
+        }
+      }
 
       return {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: report
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error killing development servers: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error getting top consumers: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async monitorPort(port: number, duration: number): Promise<ToolResult> {
+  async killDevServers(
+    serverType: string,
+    graceMs: number,
+    confirmation: KillConfirmation = {}
+  ): Promise<ToolResult<KillDevServersResult | KillPlanResult>> {
+    const auditArgs = { serverType, graceMs, confirmed: Boolean(confirmation.token) };
     try {
-      this.validatePort(port);
+      const { frameworks } = this.config.getTables();
+      const serverTypes = killableServerTypes(frameworks);
+      let patterns: string[] = [];
       
-      let result = `👁️ Monitoring port ${port} for ${duration} seconds...\n\n`;
-      const startTime = Date.now();
-      const endTime = startTime + (duration * 1000);
-      let lastStatus = '';
+      if (serverType === 'all') {
+        patterns = allProcessPatterns(frameworks);
+      } else if (serverTypes.includes(serverType)) {
+        patterns = frameworks[serverType].processPatterns;
+      } else {
+        const message = `Unknown server type: ${serverType}. Use: ${serverTypes.join(', ')}, or all`;
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ ${message}`
+          }],
+          structuredContent: { error: message },
+          isError: true
+        };
+      }
 
-      while (Date.now() < endTime) {
-        try {
-          const { stdout } = await execAsync(`lsof -i :${port} -P -n`);
-          const timestamp = new Date().toLocaleTimeString();
-          
-          if (!stdout.trim()) {
-            const currentStatus = `🟢 Available`;
-            if (currentStatus !== lastStatus) {
-              result += `[${timestamp}] Port ${port}: ${currentStatus}\n`;
-              lastStatus = currentStatus;
-            }
-          } else {
-            const lines = stdout.trim().split('\n');
-            const processInfo = this.parseProcessInfo(lines);
-            const currentStatus = `🔴 In-use (PID: ${processInfo[0]?.pid}, Process: ${processInfo[0]?.processName})`;
-            
-            if (currentStatus !== lastStatus) {
-              result += `[${timestamp}] Port ${port}: ${currentStatus}\n`;
-              lastStatus = currentStatus;
-            }
-          }
-        } catch {
-          const timestamp = new Date().toLocaleTimeString();
-          const currentStatus = `🟢 Available`;
-          if (currentStatus !== lastStatus) {
-            result += `[${timestamp}] Port ${port}: ${currentStatus}\n`;
-            lastStatus = currentStatus;
-          }
+      const label = serverType === 'all' ? 'all' : frameworks[serverType].name;
+      let result = `🔄 Killing ${label} development servers:\n\n`;
+      const patternResults: KillDevServersResult['patterns'] = [];
+      const matchedPids = new Set<number>();
+
+      // Match against full command lines, argument by argument
+      const processes = (await this.backend.listProcesses()).filter(info => info.pid !== process.pid);
+      for (const pattern of patterns) {
+        const pids = processes.filter(info => matchesProcessPattern(info.command, pattern)).map(info => info.pid);
+        pids.forEach(pid => matchedPids.add(pid));
+        patternResults.push({ pattern, status: pids.length > 0 ? 'matched' : 'not-found', pids });
+      }
+
+      const plan: KillPlan = {
+        tool: 'kill_dev_servers',
+        signal: 'TERM',
+        targets: (await this.killer.resolveTree([...matchedPids])).map(info => ({ ...info, ports: [] })),
+        skipped: [],
+        denied: [],
+        availablePorts: []
+      };
+      await this.applyKillPolicy(plan);
+      const gate = this.confirmKillPlan(plan, JSON.stringify({ serverType }), confirmation);
+      if (gate) {
+        return gate;
+      }
+
+      for (const { pattern, pids } of patternResults) {
+        if (pids.length > 0) {
+          result += `🎯 Matched "${pattern}": PID ${pids.join(', ')}\n`;
         }
+      }
 
-        await new Promise(resolve => setTimeout(resolve, 5000)); // Check every 5 seconds
+      if (plan.targets.length === 0 && plan.denied.length === 0) {
+        await this.recordKill(auditArgs, plan, this.emptyKillReport());
+        result += `ℹ️ No ${serverType === 'all' ? '' : `${label} `}development servers found running\n`;
+        return {
+          content: [{
+            type: 'text',
+            text: result
+          }],
+          structuredContent: { serverType, patterns: patternResults, ...this.emptyKillReport() }
+        };
       }
 
-      result += `\n✅ Monitoring completed for port ${port}`;
+      const report = await this.runKillPlan(plan, { force: false, graceMs });
+      await this.recordKill(auditArgs, plan, report);
+      result += `\n${this.formatKillReport(report)}`;
 
       return {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: { serverType, patterns: patternResults, ...report }
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordError('kill_dev_servers', auditArgs, message, []);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error monitoring port ${port}: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error killing development servers: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  private validatePort(port: number): void {
-    if (!Number.isInteger(port) || port < 1 || port > 65535) {
-      throw new Error(`Invalid port number: ${port}. Must be between 1 and 65535.`);
+  async findOrphans(idleMinutes: number): Promise<ToolResult<OrphanScanResult>> {
+    try {
+      this.validateIdleMinutes(idleMinutes);
+      const scan = await this.orphans.find(idleMinutes * 60 * 1000);
+
+      let result = `🧟 Orphaned dev servers (${scan.orphans.length} of ${scan.scanned} dev-server process${scan.scanned === 1 ? '' : 'es'}):\n\n`;
+      if (scan.orphans.length === 0) {
+        result += '✅ Every dev server belongs to a registered project, runs from an existing directory and has been in use recently\n';
+      }
+      for (const orphan of scan.orphans) {
+        result += this.formatOrphan(orphan);
+      }
+      if (scan.orphans.some(orphan => orphan.idleMs !== null && orphan.observedMs < idleMinutes * 60 * 1000)) {
+        result += `\nℹ️ Idle time is only known since this server started watching; some processes have not been watched for ${idleMinutes} minutes yet\n`;
+      }
+      if (scan.orphans.length > 0) {
+        result += `\n💡 Use 'kill_orphans' with plan: true to review a cleanup\n`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { idleMinutes, ...scan }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error finding orphaned dev servers: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
     }
   }
 
-  async listProtectedServices(): Promise<ToolResult> {
+  async killOrphans(
+    idleMinutes: number,
+    reasons: OrphanReason[],
+    graceMs: number,
+    confirmation: KillConfirmation = {}
+  ): Promise<ToolResult<KillOrphansResult | KillPlanResult>> {
+    const auditArgs = { idleMinutes, reasons, graceMs, confirmed: Boolean(confirmation.token) };
     try {
-      let result = '🛡️ Protected Services Configuration:\n\n';
-      
-      result += '📋 Protected Ports:\n';
-      Object.entries(this.PROTECTED_PORTS).forEach(([port, service]) => {
-        result += `  • Port ${port}: ${service}\n`;
-      });
-      
-      result += '\n🔒 Protected Process Patterns:\n';
-      this.PROTECTED_PROCESS_PATTERNS.forEach(pattern => {
-        result += `  • ${pattern}\n`;
-      });
-      
-      result += '\n🔍 Currently Running Protected Services:\n';
-      let foundProtected = false;
-      
-      for (const [port, service] of Object.entries(this.PROTECTED_PORTS)) {
-        try {
-          const { stdout } = await execAsync(`lsof -i :${port} -P -n`);
-          if (stdout.trim()) {
-            foundProtected = true;
-            result += `  • ${service} on port ${port} ✅\n`;
-          }
-        } catch {
-          // Port not in use, which is fine
-        }
+      this.validateIdleMinutes(idleMinutes);
+      const validReasons: OrphanReason[] = ['outside-projects', 'missing-directory', 'idle'];
+      const invalid = reasons.filter(reason => !validReasons.includes(reason));
+      if (reasons.length === 0 || invalid.length > 0) {
+        throw new Error(`Invalid reasons: ${invalid.join(', ') || 'none given'}. Use: ${validReasons.join(', ')}`);
       }
-      
-      if (!foundProtected) {
-        result += '  • No protected services currently running\n';
+
+      const scan = await this.orphans.find(idleMinutes * 60 * 1000);
+      const orphans = scan.orphans.filter(orphan => orphan.reasons.some(reason => reasons.includes(reason)));
+      const { plan, protectedPids } = await this.planOrphanKills(orphans);
+      await this.applyKillPolicy(plan);
+
+      const gate = this.confirmKillPlan(plan, JSON.stringify({ idleMinutes, reasons: [...reasons].sort() }), confirmation);
+      if (gate) {
+        return gate;
       }
-      
+
+      let result = `🧟 Cleaning up orphaned dev servers (${reasons.join(', ')}):\n\n`;
+      for (const orphan of orphans) {
+        result += this.formatOrphan(orphan);
+      }
+      for (const skip of plan.skipped) {
+        result += skip.container
+          ? `🐳 Skipped port ${skip.port} (container ${this.formatContainer(skip.container)})\n`
+          : `🛡️ Skipped port ${skip.port} (${skip.reason}: ${skip.services.join(', ')})\n`;
+      }
+      for (const { pid, services } of protectedPids) {
+        result += `🛡️ Skipped PID ${pid} (critical service: ${services.join(', ')})\n`;
+      }
+
+      if (plan.targets.length === 0 && plan.denied.length === 0) {
+        await this.recordKill(auditArgs, plan, this.emptyKillReport());
+        result += `ℹ️ Nothing to kill\n`;
+        return {
+          content: [{
+            type: 'text',
+            text: result
+          }],
+          structuredContent: { idleMinutes, reasons, orphans, skipped: plan.skipped, protectedPids, ...this.emptyKillReport() }
+        };
+      }
+
+      const report = await this.runKillPlan(plan, { force: false, graceMs });
+      await this.recordKill(auditArgs, plan, report);
+      result += `\n${this.formatKillReport(report)}`;
+
       return {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: { idleMinutes, reasons, orphans, skipped: plan.skipped, protectedPids, ...report }
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordError('kill_orphans', auditArgs, message, []);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error listing protected services: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error cleaning up orphaned dev servers: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async killDevServersSelective(): Promise<ToolResult> {
+  async monitorPort(port: number, duration: number): Promise<ToolResult<MonitorPortResult>> {
     try {
-      let result = '🎯 Selective Development Server Cleanup:\n\n';
-      let killedCount = 0;
-      const checkedPorts = new Set<number>();
+      this.validatePort(port);
       
-      // Check common dev ports and only kill non-critical services
-      for (const port of this.COMMON_DEV_PORTS) {
+      let result = `👁️ Monitoring port ${port} for ${duration} seconds...\n\n`;
+      const startTime = this.runner.now();
+      const endTime = startTime + (duration * 1000);
+      const events: PortMonitorEvent[] = [];
+      let lastStatus = '';
+
+      while (this.runner.now() < endTime) {
+        const now = this.runner.now();
+        const timestamp = new Date(now).toLocaleTimeString();
+        let event: PortMonitorEvent;
+        let currentStatus: string;
+
         try {
-          const { stdout } = await execAsync(`lsof -i :${port} -P -n`);
+          const processInfo = portListeners(await this.backend.getPortProcesses(port), port);
           
-          if (stdout.trim()) {
-            const processCheck = await this.checkForCriticalProcesses(port);
-            
-            if (!processCheck.hasCritical && !this.isProtectedPort(port)) {
-              try {
-                const { stdout: pids } = await execAsync(`lsof -ti :${port}`);
-                if (pids.trim()) {
-                  await execAsync(`kill -TERM ${pids.trim().split('\n').join(' ')}`);
-                  result += `✅ Cleaned port ${port}\n`;
-                  killedCount++;
-                  checkedPorts.add(port);
-                }
-              } catch {
-                result += `⚠️ Could not clean port ${port}\n`;
-              }
-            } else {
-              result += `🛡️ Skipped port ${port} (protected service: ${processCheck.services.join(', ')})\n`;
-              checkedPorts.add(port);
-            }
+          if (processInfo.length === 0) {
+            currentStatus = `🟢 Available`;
+            event = { timestamp: now, status: 'available' };
+          } else {
+            currentStatus = `🔴 In-use (PID: ${processInfo[0]?.pid}, Process: ${processInfo[0]?.processName})`;
+            event = { timestamp: now, status: 'in-use', pid: processInfo[0].pid, processName: processInfo[0].processName };
           }
         } catch {
-          // Port not in use
+          currentStatus = `🟢 Available`;
+          event = { timestamp: now, status: 'available' };
         }
+
+        if (currentStatus !== lastStatus) {
+          result += `[${timestamp}] Port ${port}: ${currentStatus}\n`;
+          events.push(event);
+          lastStatus = currentStatus;
+        }
+
+        await this.runner.sleep(5000); // Check every 5 seconds
       }
-      
-      if (killedCount === 0) {
-        result += 'ℹ️ No development servers found to clean up\n';
-      } else {
-        result += `\n🔍 Waiting for process cleanup...`;
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        result += `\n✅ Cleaned ${killedCount} development servers`;
-      }
-      
+
+      result += `\n✅ Monitoring completed for port ${port}`;
+
       return {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: { port, duration, events }
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error during selective cleanup: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error monitoring port ${port}: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async addProject(name: string, directory: string, ports: number[], framework: string): Promise<ToolResult> {
+  async startPortMonitor(ports: number[], intervalMs: number, durationMs: number): Promise<ToolResult<MonitorInfo>> {
     try {
-      await this.sessionManager.addProject(name, directory, ports, framework);
-      
+      if (!Array.isArray(ports)) {
+        throw new Error('ports must be an array of port numbers');
+      }
+      ports.forEach(port => this.validatePort(port));
+      const monitor = this.monitors.start(ports, intervalMs, durationMs);
+
       return {
         content: [{
           type: 'text',
-          text: `✅ Added project "${name}" with ports [${ports.join(', ')}] using ${framework} framework`
-        }]
+          text: `👁️ Started monitor ${monitor.id} on port${monitor.ports.length === 1 ? '' : 's'} ${monitor.ports.join(', ')} ` +
+            `(every ${monitor.intervalMs}ms until ${new Date(monitor.expiresAt).toLocaleTimeString()})\n` +
+            `Use "poll_port_monitor" with cursor 0 to read events, and "stop_port_monitor" when done.`
+        }],
+        structuredContent: monitor
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error adding project: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error starting port monitor: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async listActiveProjects(): Promise<ToolResult> {
+  async pollPortMonitor(monitorId: string, cursor: number, limit: number): Promise<ToolResult<MonitorPollResult>> {
     try {
-      const projects = this.sessionManager.getActiveProjects();
-      
-      if (projects.length === 0) {
-        return {
-          content: [{
-            type: 'text',
-            text: 'ℹ️ No active projects found. Use "add_project" to register your current projects.'
-          }]
-        };
-      }
+      const poll = this.monitors.poll(monitorId, cursor, limit);
+      let result = `📡 Monitor ${monitorId} (${poll.monitor.active ? 'active' : 'stopped'}): ${poll.events.length} new event${poll.events.length === 1 ? '' : 's'}\n`;
 
-      let result = '📋 Active Projects:\n\n';
-      
-      for (const project of projects) {
-        const lastActive = new Date(project.lastActive).toLocaleString();
-        result += `🚀 ${project.name} (${project.framework})\n`;
-        result += `   📁 ${project.directory}\n`;
-        result += `   🔌 Ports: ${project.ports.join(', ')}\n`;
-        result += `   ⏰ Last active: ${lastActive}\n\n`;
+      if (poll.missed > 0) {
+        result += `⚠️ ${poll.missed} older event${poll.missed === 1 ? ' was' : 's were'} dropped from the buffer\n`;
       }
+      for (const event of poll.events) {
+        result += `${this.formatMonitorEvent(event)}\n`;
+      }
+      result += `➡️ Next cursor: ${poll.cursor}`;
 
       return {
         content: [{
           type: 'text',
           text: result
-        }]
+        }],
+        structuredContent: poll
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error listing projects: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error polling port monitor: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async killProjectPorts(projectName: string): Promise<ToolResult> {
+  async stopPortMonitor(monitorId: string): Promise<ToolResult<MonitorInfo>> {
     try {
-      const projects = this.sessionManager.getActiveProjects();
-      const project = projects.find(p => p.name.toLowerCase() === projectName.toLowerCase());
-      
+      const monitor = this.monitors.stop(monitorId);
+      return {
+        content: [{
+          type: 'text',
+          text: `⏹️ Stopped monitor ${monitor.id} after ${monitor.lastSeq} event${monitor.lastSeq === 1 ? '' : 's'}. Buffered events can still be polled.`
+        }],
+        structuredContent: monitor
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error stopping port monitor: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async listPortMonitors(): Promise<ToolResult<MonitorListResult>> {
+    const monitors = this.monitors.list();
+    if (monitors.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'ℹ️ No port monitors. Use "start_port_monitor" to watch ports in the background.'
+        }],
+        structuredContent: { monitors }
+      };
+    }
+
+    let result = '👁️ Port Monitors:\n\n';
+    for (const monitor of monitors) {
+      result += `${monitor.active ? '🟢' : '⏹️'} ${monitor.id}: ports ${monitor.ports.join(', ')}, every ${monitor.intervalMs}ms, ${monitor.lastSeq} events\n`;
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: result
+      }],
+      structuredContent: { monitors }
+    };
+  }
+
+  /** Lets the MCP layer forward monitor events as notifications */
+  onMonitorEvent(listener: MonitorEventListener): void {
+    this.monitors.onEvent(listener);
+  }
+
+  formatMonitorEvent(event: MonitorEvent): string {
+    const timestamp = new Date(event.timestamp).toLocaleTimeString();
+    const owner = event.pids.length > 0 ? ` (PID ${event.pids.join(', ')}${event.processName ? `, ${event.processName}` : ''})` : '';
+
+    switch (event.change) {
+      case 'error':
+        return `[${timestamp}] Port ${event.port}: ⚠️ lookup failed: ${event.error}`;
+      case 'owner-changed':
+        return `[${timestamp}] Port ${event.port}: 🔄 new owner${owner}`;
+      default:
+        return `[${timestamp}] Port ${event.port}: ${event.status === 'in-use' ? `🔴 In-use${owner}` : '🟢 Available'}${event.change === 'initial' ? ' (initial)' : ''}`;
+    }
+  }
+
+  async startProject(projectName: string, options: Omit<DevServerStartOptions, 'devCommand'>): Promise<ToolResult<DevServerStartResult>> {
+    try {
+      const project = this.sessionManager.getActiveProjects().find(p => p.name.toLowerCase() === projectName.toLowerCase());
       if (!project) {
+        throw new Error(`Project "${projectName}" not found. Use "list_active_projects" to see available projects.`);
+      }
+      if (!['never', 'on-failure', 'always'].includes(options.restartPolicy)) {
+        throw new Error(`Invalid restart_policy: ${options.restartPolicy}. Use never, on-failure or always.`);
+      }
+      if (!Number.isInteger(options.maxRestarts) || options.maxRestarts < 0 || options.maxRestarts > 20) {
+        throw new Error(`Invalid max_restarts: ${options.maxRestarts}. Must be between 0 and 20.`);
+      }
+
+      // Only the project's own files say what to run, never the caller
+      const start = await this.devServers.start(project, { ...options, devCommand: this.config.getDevCommand(project.name) });
+      await this.sessionManager.touchProject(project.directory);
+      const { server } = start;
+
+      let result = `🚀 Started "${server.project}" with \`${server.command}\` (restart policy: ${server.restartPolicy})\n`;
+      if (server.state !== 'running') {
+        result += `❌ The dev server ${server.state === 'restarting' ? 'crashed and is restarting' : `ended (${server.state})`} before its ports came up. Recent output:\n`;
+        const { lines } = this.devServers.logs(server.project, Math.max(0, server.lastSeq - 20), 20);
+        lines.forEach(line => result += `${this.formatLogLine(line)}\n`);
         return {
           content: [{
             type: 'text',
-            text: `❌ Project "${projectName}" not found. Use "list_active_projects" to see available projects.`
+            text: result.trimEnd()
           }],
+          structuredContent: start,
           isError: true
         };
       }
 
-      let result = `🎯 Killing ports for project "${project.name}":\n\n`;
-      let killedCount = 0;
+      result += `🔧 PID ${server.pid} in ${server.directory}\n`;
+      if (server.ports.length === 0) {
+        result += 'ℹ️ The project has no registered ports to wait for';
+      } else if (start.ready) {
+        result += `✅ Listening on port${start.listening.length === 1 ? '' : 's'} ${start.listening.join(', ')}`;
+      } else {
+        result += `⏳ Still waiting for port${start.waiting.length === 1 ? '' : 's'} ${start.waiting.join(', ')} after ${options.waitMs / 1000}s` +
+          `${start.listening.length > 0 ? ` (${start.listening.join(', ')} listening)` : ''}. Use "project_logs" to see its output.`;
+      }
 
-      for (const port of project.ports) {
-        if (this.isProtectedPort(port)) {
-          result += `🛡️ Skipped port ${port} (protected)\n`;
-          continue;
-        }
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: start
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error starting project: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
 
-        const processCheck = await this.checkForCriticalProcesses(port);
-        if (processCheck.hasCritical) {
-          result += `🛡️ Skipped port ${port} (critical service: ${processCheck.services.join(', ')})\n`;
-          continue;
-        }
+  async stopProject(
+    projectName: string,
+    graceMs: number,
+    confirmation: KillConfirmation = {}
+  ): Promise<ToolResult<DevServerStopResult | KillPlanResult>> {
+    const auditArgs = { projectName, graceMs, confirmed: Boolean(confirmation.token) };
+    try {
+      const planned: KillPlan = {
+        tool: 'stop_project',
+        signal: 'TERM',
+        targets: (await this.devServers.resolveProcesses(projectName)).map(info => ({ ...info, ports: [] })),
+        skipped: [],
+        denied: [],
+        availablePorts: []
+      };
+      await this.applyKillPolicy(planned);
+      const gate = this.confirmKillPlan(planned, JSON.stringify({ projectName }), confirmation);
+      if (gate) {
+        return gate;
+      }
 
-        try {
-          const { stdout } = await execAsync(`lsof -ti :${port}`);
-          if (stdout.trim()) {
-            await execAsync(`kill -TERM ${stdout.trim().split('\n').join(' ')}`);
-            result += `✅ Killed processes on port ${port}\n`;
-            killedCount++;
-          } else {
-            result += `ℹ️ Port ${port} already available\n`;
-          }
-        } catch {
-          result += `⚠️ Could not kill port ${port}\n`;
-        }
+      const stop = await this.devServers.stop(projectName, graceMs);
+      if (stop.processes.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `ℹ️ "${stop.server.project}" is not running (${stop.server.state})`
+          }],
+          structuredContent: stop
+        };
       }
 
-      if (killedCount > 0) {
-        result += `\n🔄 Waiting for cleanup...`;
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        result += `\n✅ Freed ${killedCount} ports for project "${project.name}"`;
+      const plan: KillPlan = {
+        tool: 'stop_project',
+        signal: 'TERM',
+        targets: stop.processes.map(info => ({ ...info, ports: [] })),
+        skipped: [],
+        denied: [],
+        availablePorts: []
+      };
+      await this.recordKill(auditArgs, plan, stop.report);
+
+      if (stop.server.state === 'running') {
+        const reason = stop.report.denied.some(info => info.pid === stop.server.pid)
+          ? `⛔ The kill policy refused to stop "${stop.server.project}"`
+          : `⚠️ "${stop.server.project}" is still running after the stop`;
+        return {
+          content: [{
+            type: 'text',
+            text: `${reason}\n${this.formatKillReport(stop.report)}`.trimEnd()
+          }],
+          structuredContent: stop,
+          isError: true
+        };
       }
 
       return {
         content: [{
           type: 'text',
-          text: result
-        }]
+          text: `⏹️ Stopped "${stop.server.project}" (${stop.server.state})\n${this.formatKillReport(stop.report)}`.trimEnd()
+        }],
+        structuredContent: stop
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordError('stop_project', auditArgs, message, []);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error killing project ports: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error stopping project: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  async addCustomProtectedPort(port: number, service: string): Promise<ToolResult> {
+  async getProjectLogs(projectName: string, cursor: number, limit: number): Promise<ToolResult<DevServerLogResult>> {
     try {
-      this.validatePort(port);
-      await this.sessionManager.addProtectedPort(port, service);
-      
+      const logs = this.devServers.logs(projectName, cursor, limit);
+      const { server } = logs;
+      let result = `📜 "${server.project}" (${server.state}${server.pid ? `, PID ${server.pid}` : ''}${server.restarts > 0 ? `, ${server.restarts} restarts` : ''}): ` +
+        `${logs.lines.length} new line${logs.lines.length === 1 ? '' : 's'}\n`;
+
+      if (logs.missed > 0) {
+        result += `⚠️ ${logs.missed} older line${logs.missed === 1 ? ' was' : 's were'} dropped from the buffer\n`;
+      }
+      for (const line of logs.lines) {
+        result += `${this.formatLogLine(line)}\n`;
+      }
+      result += `➡️ Next cursor: ${logs.cursor}`;
+
       return {
         content: [{
           type: 'text',
-          text: `🛡️ Added port ${port} to protected services as "${service}"`
-        }]
+          text: result
+        }],
+        structuredContent: logs
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{
           type: 'text',
-          text: `❌ Error adding protected port: ${error instanceof Error ? error.message : String(error)}`
+          text: `❌ Error reading project logs: ${message}`
         }],
+        structuredContent: { error: message },
         isError: true
       };
     }
   }
 
-  private isProtectedPort(port: number): boolean {
-    const customProtected = this.sessionManager.getProtectedPorts();
-    return port in this.PROTECTED_PORTS || customProtected.includes(port);
+  /** Takes supervised dev servers down with this process */
+  shutdown(): void {
+    this.devServers.killAll();
+  }
+
+  private formatLogLine(line: DevServerLogLine): string {
+    const marker = line.stream === 'stderr' ? '⚠️ ' : line.stream === 'supervisor' ? '🛠️ ' : '';
+    return `[${new Date(line.timestamp).toLocaleTimeString()}] ${marker}${line.text}`;
   }
-  
-  private async checkForCriticalProcesses(port: number): Promise<{ hasCritical: boolean; services: string[] }> {
+
+  /**
+   * Stops a container through Docker. Its published ports get the same
+   * protected-port check as a port kill and the container goes through the
+   * kill policy. A container publishing a protected port is only stopped
+   * from a confirmed plan, so the protection is never passed over unseen.
+   */
+  async stopContainer(
+    reference: string,
+    timeoutSeconds: number,
+    confirmation: KillConfirmation = {}
+  ): Promise<ToolResult<StopContainerResult | KillPlanResult>> {
+    const auditArgs = { container: reference, timeoutSeconds, confirmed: Boolean(confirmation.token) };
+    let ports: number[] = [];
     try {
-      const { stdout } = await execAsync(`lsof -i :${port} -P -n`);
-      const lines = stdout.trim().split('\n');
-      const processInfo = this.parseProcessInfo(lines);
-      
-      const criticalServices: string[] = [];
-      
-      for (const info of processInfo) {
-        const processName = info.processName.toLowerCase();
-        const command = info.command.toLowerCase();
-        
-        for (const pattern of this.PROTECTED_PROCESS_PATTERNS) {
-          if (processName.includes(pattern) || command.includes(pattern)) {
-            criticalServices.push(info.processName);
-            break;
-          }
-        }
+      if (!Number.isFinite(timeoutSeconds) || timeoutSeconds < 0 || timeoutSeconds > 300) {
+        throw new Error(`Invalid timeout: ${timeoutSeconds}. Must be between 0 and 300 seconds.`);
       }
-      
+      const container = await this.docker.findContainer(reference);
+      ports = [...new Set(container.ports.map(mapping => mapping.hostPort))].sort((a, b) => a - b);
+
+      const tables = this.config.getTables();
+      const decision = this.killer.authorizeContainer({ ports, directory: container.composeDirectory ?? null });
+      const plan: KillPlan = {
+        tool: 'stop_container',
+        signal: 'TERM',
+        targets: [],
+        skipped: ports
+          .filter(port => this.isProtectedPort(port, tables))
+          .map(port => ({ port, reason: 'protected-port', services: [this.getProtectedPortService(port, tables)] })),
+        denied: [],
+        availablePorts: [],
+        container: { ...container, decision }
+      };
+      const gate = this.confirmKillPlan(plan, JSON.stringify({ container: reference }), confirmation);
+      if (gate) {
+        return gate;
+      }
+
+      const refusal = decision.effect === 'deny'
+        ? `⛔ The kill policy refused to stop container ${container.name}: ${this.formatDecision(decision)}`
+        : plan.skipped.length > 0 && !confirmation.token
+          ? `🛡️ Container ${container.name} publishes protected ${plan.skipped.map(skip => `port ${skip.port} (${skip.services.join(', ')})`).join(', ')}. ` +
+            'Review it with plan: true and pass the confirmation_token to stop it anyway.'
+          : null;
+      if (refusal) {
+        await this.audit.record({
+          tool: 'stop_container',
+          args: auditArgs,
+          outcome: 'blocked',
+          ports,
+          projects: this.findPortOwners(ports),
+          targets: [],
+          skipped: plan.skipped,
+          container: plan.container
+        });
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }],
+          structuredContent: { error: refusal },
+          isError: true
+        };
+      }
+
+      await this.docker.stopContainer(container, timeoutSeconds);
+      await this.audit.record({
+        tool: 'stop_container',
+        args: auditArgs,
+        outcome: 'success',
+        ports,
+        projects: this.findPortOwners(ports),
+        targets: [],
+        skipped: [],
+        container: plan.container
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: `🐳 Stopped container ${container.name} (${container.image})` +
+            `${ports.length > 0 ? `\n✅ Released port${ports.length === 1 ? '' : 's'} ${ports.join(', ')}` : ''}`
+        }],
+        structuredContent: { container, timeoutSeconds }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordError('stop_container', auditArgs, message, ports);
       return {
-        hasCritical: criticalServices.length > 0,
-        services: [...new Set(criticalServices)]
+        content: [{
+          type: 'text',
+          text: `❌ Error stopping container: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
       };
-    } catch {
-      return { hasCritical: false, services: [] };
     }
   }
 
-  private parseProcessInfo(lines: string[]): Array<{ pid: number; processName: string; command: string }> {
-    const processInfo: Array<{ pid: number; processName: string; command: string }> = [];
-    
-    // Skip header line
-    const dataLines = lines.slice(1);
-    
-    dataLines.forEach(line => {
-      const parts = line.trim().split(/\s+/);
-      if (parts.length >= 2) {
-        const processName = parts[0];
-        const pid = parseInt(parts[1]);
-        const command = parts.slice(8).join(' ') || processName;
-        
-        if (!isNaN(pid)) {
-          processInfo.push({ pid, processName, command });
-        }
+  private formatContainer(container: PortContainer): string {
+    const compose = container.composeProject
+      ? `, compose project ${container.composeProject}${container.composeService ? ` service ${container.composeService}` : ''}`
+      : '';
+    return `${container.name} (${container.image}${compose})`;
+  }
+
+  private formatContainerHint(container: PortContainer): string {
+    return `💡 To free it, stop the container instead: stop_container({ "container": "${container.name}", "plan": true })`;
+  }
+
+  async takeSocketSnapshot(name?: string): Promise<ToolResult<SocketSnapshot>> {
+    try {
+      const snapshot = await this.snapshots.capture(name);
+      let result = `📸 Snapshot ${snapshot.id}${snapshot.name ? ` "${snapshot.name}"` : ''}: ${snapshot.sockets.length} listening socket${snapshot.sockets.length === 1 ? '' : 's'}\n\n`;
+
+      for (const socket of snapshot.sockets) {
+        result += `• ${socket.protocol.toUpperCase()} ${this.formatSocketAddress(socket.address, socket.port)} - ${socket.processName} (PID ${socket.pid})\n`;
       }
-    });
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: snapshot
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error taking socket snapshot: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async listSocketSnapshots(): Promise<ToolResult<SnapshotListResult>> {
+    const snapshots = await this.snapshots.list();
+    if (snapshots.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'ℹ️ No socket snapshots yet. Use "take_socket_snapshot" to capture one.'
+        }],
+        structuredContent: { snapshots }
+      };
+    }
+
+    let result = '📸 Socket Snapshots (newest first):\n\n';
+    for (const snapshot of snapshots) {
+      result += `• ${snapshot.id}${snapshot.name ? ` "${snapshot.name}"` : ''} - ${new Date(snapshot.takenAt).toLocaleString()}, ${snapshot.socketCount} sockets\n`;
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: result
+      }],
+      structuredContent: { snapshots }
+    };
+  }
+
+  /** Compares two stored snapshots, or one against the machine right now when `to` is omitted */
+  async diffSocketSnapshots(from: string, to?: string): Promise<ToolResult<SnapshotDiff>> {
+    try {
+      if (!from) {
+        throw new Error('from is required: a snapshot ID, name, or age such as "5m"');
+      }
+      const before = await this.snapshots.resolve(from);
+      const after = to ? await this.snapshots.resolve(to) : await this.snapshots.capture();
+      const diff = this.snapshots.diff(before, after);
+
+      const label = (summary: SnapshotSummary) => `${summary.id}${summary.name ? ` "${summary.name}"` : ''} (${new Date(summary.takenAt).toLocaleString()})`;
+      let result = `🔍 Socket changes from ${label(diff.from)} to ${label(diff.to)}:\n\n`;
+
+      if (diff.added.length + diff.removed.length + diff.ownerChanged.length === 0) {
+        result += '✅ No listening sockets changed';
+      }
+      if (diff.added.length > 0) {
+        result += `🆕 New listeners (${diff.added.length}):\n`;
+        diff.added.forEach(listener => result += `• ${this.formatListener(listener)}\n`);
+        result += '\n';
+      }
+      if (diff.removed.length > 0) {
+        result += `🗑️ Vanished listeners (${diff.removed.length}):\n`;
+        diff.removed.forEach(listener => result += `• ${this.formatListener(listener)}\n`);
+        result += '\n';
+      }
+      if (diff.ownerChanged.length > 0) {
+        result += `🔄 Owner changes (${diff.ownerChanged.length}):\n`;
+        for (const change of diff.ownerChanged) {
+          result += `• ${change.protocol.toUpperCase()} ${this.formatSocketAddress(change.address, change.port)}: ` +
+            `${this.formatOwners(change.before)} → ${this.formatOwners(change.after)}\n`;
+        }
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result.trimEnd()
+        }],
+        structuredContent: diff
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error diffing socket snapshots: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  private async describeProcess(details: ProcessDetails, processes: ProcessEntry[], sockets: ListeningSocket[]): Promise<ProcessInfo> {
+    const byPid = new Map(processes.map(info => [info.pid, info]));
+    const relative = (info: ProcessEntry): ProcessRelative => ({ pid: info.pid, processName: info.processName, command: info.command });
+    const listening = sockets
+      .filter(socket => socket.pid === details.pid)
+      .map(({ protocol, family, address, port }) => ({ protocol, family, address, port }));
+
+    // The process itself, then its ancestors: a worker belongs to the project its server was started from
+    const projects = this.sessionManager.getActiveProjects();
+    let project = projects.find(candidate =>
+      listening.some(socket => candidate.ports.includes(socket.port)) ||
+      (details.cwd !== null && isInsideDirectory(details.cwd, candidate.directory)) ||
+      runsFrom(details.command, candidate.directory)
+    );
+    for (let ancestor = byPid.get(details.ppid); !project && ancestor && ancestor.pid > 1; ancestor = byPid.get(ancestor.ppid)) {
+      const ancestorPid = ancestor.pid;
+      const ancestorCommand = ancestor.command;
+      project = projects.find(candidate =>
+        sockets.some(socket => socket.pid === ancestorPid && candidate.ports.includes(socket.port)) ||
+        runsFrom(ancestorCommand, candidate.directory)
+      );
+    }
+
+    const tables = this.config.getTables(project?.name);
+    const warnings: string[] = [];
+    const resolved = await this.killer.resolveTree([details.pid]);
+    if (!resolved.some(info => info.pid === details.pid)) {
+      warnings.push('This is init, this MCP server or one of its ancestors; kill tools never signal it');
+    } else if (resolved.length > 1) {
+      const launchers = resolved.filter(info => info.role === 'launcher').length;
+      const children = resolved.filter(info => info.role === 'child').length;
+      warnings.push(`Killing it also stops ${launchers} launcher${launchers === 1 ? '' : 's'} and ${children} child process${children === 1 ? '' : 'es'}`);
+    }
+    const { denied } = await this.killer.authorize(resolved.filter(info => info.pid === details.pid));
+    if (denied.length > 0) {
+      warnings.push(`Refused by ${this.formatDecision(denied[0].decision)}; kill tools leave it running`);
+    }
+    const critical = this.findCriticalProcesses([details], tables);
+    if (critical.length > 0) {
+      warnings.push(`Matches a protected process pattern (${critical.join(', ')}); kill tools always leave it running, even with force`);
+    }
+    for (const port of new Set(listening.map(socket => socket.port))) {
+      if (this.isProtectedPort(port, tables)) {
+        warnings.push(`Listens on protected port ${port} (${this.getProtectedPortService(port, tables)})`);
+      }
+      const [lease] = this.findLeaseConflicts(project?.name ?? '', [port]);
+      if (lease) {
+        warnings.push(`Port ${port} is leased to project "${lease.holder.project}"`);
+      }
+    }
+
+    const now = this.runner.now();
+    return {
+      ...details,
+      elapsedMs: details.startedAt === null ? null : Math.max(0, now - details.startedAt),
+      parent: byPid.has(details.ppid) ? relative(byPid.get(details.ppid)!) : null,
+      children: processes.filter(info => info.ppid === details.pid).map(relative),
+      listening,
+      project: project?.name ?? null,
+      warnings
+    };
+  }
+
+  private formatOrphan(orphan: OrphanCandidate): string {
+    const labels: Record<OrphanReason, string> = {
+      'outside-projects': 'outside registered projects',
+      'missing-directory': 'directory deleted',
+      'idle': `no connections for ${this.formatElapsed(orphan.idleMs ?? 0)}`
+    };
+    let result = `• ${orphan.processName} (PID ${orphan.pid})${orphan.ports.length > 0 ? ` on port ${orphan.ports.join(', ')}` : ''}: ` +
+      `${orphan.reasons.map(reason => labels[reason]).join(', ')}\n`;
+    result += `  Command: ${orphan.command}\n`;
+    result += `  Directory: ${orphan.cwd ?? 'unknown'}${orphan.project ? ` (project ${orphan.project})` : ''}\n`;
+    return result;
+  }
+
+  private validateIdleMinutes(idleMinutes: number): void {
+    if (!(idleMinutes > 0 && idleMinutes <= 7 * 24 * 60)) {
+      throw new Error(`Invalid idle_minutes: ${idleMinutes}. Must be greater than 0 and at most one week.`);
+    }
+  }
+
+  private formatPortSocket(socket: PortSocket): string {
+    const local = this.formatSocketAddress(socket.localAddress, socket.localPort);
+    const remote = socket.remoteAddress !== null && socket.remotePort !== null
+      ? ` → ${this.formatSocketAddress(socket.remoteAddress, socket.remotePort)}`
+      : '';
+    return `${socket.protocol.toUpperCase()} ${local}${remote} (${socket.family}, ${socket.state})`;
+  }
+
+  private describeExposure(exposure: PortExposure, listeners: PortSocket[]): string {
+    switch (exposure) {
+      case 'all-interfaces':
+        return 'listening on all interfaces (reachable from the network)';
+      case 'loopback':
+        return 'listening on loopback only';
+      case 'interface':
+        return `listening on ${[...new Set(listeners.map(socket => socket.localAddress))].join(', ')} only`;
+      case 'client-only':
+        return 'only client connections, nothing listening';
+    }
+  }
+
+  private formatMemory(bytes: number): string {
+    return bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${Math.round(bytes / 1024 ** 2)} MB`;
+  }
+
+  private formatElapsed(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) {
+      return `${Math.floor(ms / 1000)}s`;
+    }
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor(minutes / 60) % 24;
+    return [days && `${days}d`, (days || hours) && `${hours}h`, `${minutes % 60}m`].filter(Boolean).join(' ');
+  }
+
+  private formatListener(listener: Listener): string {
+    return `${listener.protocol.toUpperCase()} ${this.formatSocketAddress(listener.address, listener.port)} - ${this.formatOwners(listener.owners)}`;
+  }
+
+  private formatOwners(owners: Listener['owners']): string {
+    return owners.map(owner => `${owner.processName} (PID ${owner.pid})`).join(', ');
+  }
+
+  private formatSocketAddress(address: string, port: number): string {
+    return address.includes(':') ? `[${address}]:${port}` : `${address}:${port}`;
+  }
+
+  private validatePort(port: number): void {
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid port number: ${port}. Must be between 1 and 65535.`);
+    }
+  }
+
+  private parseAuditTime(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+      throw new Error(`Invalid ${name} time: ${value}. Use an ISO 8601 timestamp such as 2024-12-24T14:00:00Z.`);
+    }
+    return time;
+  }
+
+  private validateTtl(ttlMinutes: number): void {
+    if (typeof ttlMinutes !== 'number' || !(ttlMinutes > 0) || ttlMinutes > 7 * 24 * 60) {
+      throw new Error(`Invalid lease TTL: ${ttlMinutes}. Must be between 1 minute and 7 days.`);
+    }
+  }
+
+  async listProtectedServices(): Promise<ToolResult<ProtectedServicesResult>> {
+    try {
+      const protectedPorts: ProtectedServicesResult['protectedPorts'] = [];
+      const running: ProtectedServicesResult['running'] = [];
+      const tables = this.config.getTables();
+      let result = '🛡️ Protected Services Configuration:\n\n';
+      
+      result += '📋 Protected Ports:\n';
+      Object.entries(tables.protectedPorts).forEach(([port, service]) => {
+        const builtin = DEFAULT_TABLES.protectedPorts[Number(port)] === service;
+        result += `  • Port ${port}: ${service}${builtin ? '' : ' (config)'}\n`;
+        protectedPorts.push({ port: Number(port), service, source: builtin ? 'builtin' : 'config' });
+      });
+      Object.entries(this.sessionManager.getCustomProtectedServices()).forEach(([port, service]) => {
+        result += `  • Port ${port}: ${service} (custom)\n`;
+        protectedPorts.push({ port: Number(port), service, source: 'custom' });
+      });
+      
+      result += '\n🔒 Protected Process Patterns:\n';
+      tables.protectedProcessPatterns.forEach(pattern => {
+        result += `  • ${pattern}\n`;
+      });
+      
+      result += '\n🔍 Currently Running Protected Services:\n';
+      
+      for (const { port, service } of protectedPorts) {
+        try {
+          const processInfo = portListeners(await this.backend.getPortProcesses(port), port);
+          if (processInfo.length > 0) {
+            running.push({ port, service });
+            result += `  • ${service} on port ${port} ✅\n`;
+          }
+        } catch {
+          // Port not in use, which is fine
+        }
+      }
+      
+      if (running.length === 0) {
+        result += '  • No protected services currently running\n';
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: {
+          protectedPorts,
+          processPatterns: tables.protectedProcessPatterns,
+          running
+        }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error listing protected services: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async killDevServersSelective(
+    graceMs: number,
+    confirmation: KillConfirmation = {}
+  ): Promise<ToolResult<SelectiveCleanupResult | KillPlanResult>> {
+    const auditArgs = { graceMs, confirmed: Boolean(confirmation.token) };
+    try {
+      // Check common dev ports and only kill non-critical services
+      const { commonDevPorts } = this.config.getTables();
+      const plan = await this.planPortKills('kill_dev_servers_selective', commonDevPorts, 'TERM');
+      await this.applyKillPolicy(plan);
+      const gate = this.confirmKillPlan(plan, '{}', confirmation);
+      if (gate) {
+        return gate;
+      }
+      
+      let result = '🎯 Selective Development Server Cleanup:\n\n';
+      const report = await this.runKillPlan(plan, { force: false, graceMs });
+      await this.recordKill(auditArgs, plan, report);
+      const portResults = this.collectPortResults(commonDevPorts, plan, report)
+        .filter(portResult => portResult.status !== 'available');
+      let killedCount = 0;
+      
+      for (const portResult of portResults) {
+        if (portResult.status === 'killed') {
+          result += `✅ Cleaned port ${portResult.port}\n`;
+          killedCount++;
+        } else if (portResult.status === 'failed') {
+          result += `⚠️ Could not clean port ${portResult.port}\n`;
+        } else if (portResult.skipped?.container) {
+          result += `🐳 Skipped port ${portResult.port} (container ${this.formatContainer(portResult.skipped.container)})\n`;
+          result += `   ${this.formatContainerHint(portResult.skipped.container)}\n`;
+        } else if (portResult.skipped) {
+          result += `🛡️ Skipped port ${portResult.port} (protected service: ${portResult.skipped.services.join(', ')})\n`;
+        } else if (portResult.denied) {
+          result += `⛔ Skipped port ${portResult.port} (${this.formatPolicyRules(portResult.denied)})\n`;
+        }
+      }
+      
+      if (killedCount === 0) {
+        result += 'ℹ️ No development servers found to clean up\n';
+      } else {
+        result += `\n✅ Cleaned ${killedCount} development servers`;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { ports: portResults }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordError('kill_dev_servers_selective', auditArgs, message, this.config.getTables().commonDevPorts);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error during selective cleanup: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async findFreePorts(options: FreePortOptions): Promise<ToolResult<FreePortsResult>> {
+    try {
+      const { rangeStart, rangeEnd, preferred, count, consecutive, projectName } = options;
+      this.validatePort(rangeStart);
+      this.validatePort(rangeEnd);
+      if (rangeStart > rangeEnd) {
+        throw new Error(`Invalid range: ${rangeStart}-${rangeEnd}. Start must not be greater than end.`);
+      }
+      if (!Number.isInteger(count) || count < 1 || count > rangeEnd - rangeStart + 1) {
+        throw new Error(`Invalid count: ${count}. Must be between 1 and the size of the range.`);
+      }
+      if (preferred !== undefined) {
+        this.validatePort(preferred);
+      }
+
+      // Start at the preferred port and wrap around to the beginning of the range
+      const candidates: number[] = [];
+      const first = preferred !== undefined && preferred >= rangeStart && preferred <= rangeEnd ? preferred : rangeStart;
+      for (let port = first; port <= rangeEnd; port++) {
+        candidates.push(port);
+      }
+      for (let port = rangeStart; port < first; port++) {
+        candidates.push(port);
+      }
+
+      const excluded = new Map<number, ExcludedPort>();
+      const freeCache = new Map<number, boolean>();
+      const isFree = async (port: number): Promise<boolean> => {
+        const cached = freeCache.get(port);
+        if (cached !== undefined) {
+          return cached;
+        }
+        const exclusion = await this.getPortExclusion(port, projectName);
+        if (exclusion) {
+          excluded.set(port, exclusion);
+        }
+        freeCache.set(port, !exclusion);
+        return !exclusion;
+      };
+
+      const found: number[] = [];
+      for (const port of candidates) {
+        if (found.length >= count) {
+          break;
+        }
+
+        if (consecutive) {
+          if (port + count - 1 > rangeEnd) {
+            continue;
+          }
+          let runFree = true;
+          for (let offset = 0; offset < count; offset++) {
+            if (!(await isFree(port + offset))) {
+              runFree = false;
+              break;
+            }
+          }
+          if (runFree) {
+            for (let offset = 0; offset < count; offset++) {
+              found.push(port + offset);
+            }
+          }
+        } else if (await isFree(port)) {
+          found.push(port);
+        }
+      }
+
+      const structured: FreePortsResult = {
+        range: { start: rangeStart, end: rangeEnd },
+        preferred,
+        consecutive,
+        ports: found,
+        excluded: [...excluded.values()]
+      };
+
+      if (found.length < count) {
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ Could not find ${count} ${consecutive ? 'consecutive ' : ''}free port${count === 1 ? '' : 's'} in range ${rangeStart}-${rangeEnd}`
+          }],
+          structuredContent: structured,
+          isError: true
+        };
+      }
+
+      let result = `🟢 Free port${count === 1 ? '' : 's'} in range ${rangeStart}-${rangeEnd}: ${found.join(', ')}\n`;
+      if (preferred !== undefined && found[0] !== preferred) {
+        const reason = excluded.get(preferred);
+        result += `ℹ️ Preferred port ${preferred} ${reason ? `skipped (${reason.detail})` : 'not used'}\n`;
+      }
+      if (excluded.size > 0) {
+        result += `\n🚫 Skipped ports:\n`;
+        for (const exclusion of excluded.values()) {
+          result += `  • Port ${exclusion.port}: ${exclusion.detail}\n`;
+        }
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: structured
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error finding free ports: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Registers a project after checking its ports against protected ports,
+   * other projects, leases and live listeners. Conflicts are reported with
+   * alternative ports; in strict mode any conflict refuses the registration.
+   */
+  async addProject(name: string, directory: string, ports: number[], framework: string, strict = false): Promise<ToolResult<ProjectResult>> {
+    try {
+      if (!Array.isArray(ports)) {
+        throw new Error('ports must be an array of port numbers');
+      }
+      ports.forEach(port => this.validatePort(port));
+
+      const conflicts = await this.findProjectConflicts(name, directory, ports);
+      const suggestions = await this.suggestAlternativePorts(name, ports, conflicts);
+      const leaseConflicts = this.findLeaseConflicts(name, ports);
+
+      if (strict && conflicts.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `🚫 Project "${name}" was not registered (strict mode): ${conflicts.length} port conflict${conflicts.length === 1 ? '' : 's'}\n` +
+              this.formatProjectConflicts(conflicts, suggestions)
+          }],
+          structuredContent: { registered: false, leaseConflicts, conflicts, suggestions },
+          isError: true
+        };
+      }
+
+      await this.sessionManager.addProject(name, directory, ports, framework);
+      await this.config.setProjects(this.sessionManager.getActiveProjects());
+      const project = this.sessionManager.getActiveProjects().find(p => p.directory === directory);
+      
+      let result = `✅ Added project "${name}" with ports [${ports.join(', ')}] using ${framework} framework`;
+      if (conflicts.length > 0) {
+        result += `\n${this.formatProjectConflicts(conflicts, suggestions)}`;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { project, registered: true, leaseConflicts, conflicts, suggestions }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error adding project: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async detectProject(directory: string, register: boolean, name?: string): Promise<ToolResult<ProjectDetectionResult>> {
+    try {
+      const detection = await this.detector.detect(directory);
+      if (name) {
+        detection.name = name;
+      }
+
+      let result = `🔎 Project detection for ${detection.directory}:\n\n`;
+      result += `📛 Name: ${detection.name}\n`;
+      result += `🧩 Framework: ${detection.framework ?? 'unknown'}\n`;
+      result += `🔌 Ports: ${detection.ports.length > 0 ? detection.ports.join(', ') : 'none found'}\n`;
+
+      result += '\n📑 Evidence:\n';
+      for (const item of detection.evidence) {
+        result += `  • ${item.file ? `${item.file}: ` : ''}${item.finding}\n`;
+      }
+      if (detection.evidence.length === 0) {
+        result += '  • Nothing recognisable found (no package.json, framework config or .env ports)\n';
+      }
+
+      if (!register) {
+        return {
+          content: [{
+            type: 'text',
+            text: result
+          }],
+          structuredContent: { ...detection, registered: false }
+        };
+      }
+
+      if (!detection.framework || detection.ports.length === 0) {
+        result += '\n⚠️ Not registered: framework and ports could not both be detected. Use "add_project" to register it by hand.';
+        return {
+          content: [{
+            type: 'text',
+            text: result
+          }],
+          structuredContent: { ...detection, registered: false },
+          isError: true
+        };
+      }
+
+      const conflicts = await this.findProjectConflicts(detection.name, detection.directory, detection.ports);
+      const suggestions = await this.suggestAlternativePorts(detection.name, detection.ports, conflicts);
+      await this.sessionManager.addProject(detection.name, detection.directory, detection.ports, detection.framework);
+      await this.config.setProjects(this.sessionManager.getActiveProjects());
+      const leaseConflicts = this.findLeaseConflicts(detection.name, detection.ports);
+
+      result += `\n✅ Registered project "${detection.name}"`;
+      if (conflicts.length > 0) {
+        result += `\n${this.formatProjectConflicts(conflicts, suggestions)}`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { ...detection, registered: true, leaseConflicts, conflicts, suggestions }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error detecting project: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async listActiveProjects(): Promise<ToolResult<ProjectListResult>> {
+    try {
+      const projects = this.sessionManager.getActiveProjects();
+      
+      if (projects.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'ℹ️ No active projects found. Use "add_project" to register your current projects.'
+          }],
+          structuredContent: { projects: [] }
+        };
+      }
+
+      let result = '📋 Active Projects:\n\n';
+      
+      for (const project of projects) {
+        const lastActive = new Date(project.lastActive).toLocaleString();
+        result += `🚀 ${project.name} (${project.framework})\n`;
+        result += `   📁 ${project.directory}\n`;
+        result += `   🔌 Ports: ${project.ports.join(', ')}\n`;
+        result += `   ⏰ Last active: ${lastActive}\n\n`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { projects: [...projects] }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error listing projects: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async killProjectPorts(
+    projectName: string,
+    graceMs: number,
+    includeClients = false,
+    confirmation: KillConfirmation = {}
+  ): Promise<ToolResult<ProjectCleanupResult | KillPlanResult>> {
+    const auditArgs = { projectName, graceMs, includeClients, confirmed: Boolean(confirmation.token) };
+    let projectPorts: number[] = [];
+    try {
+      const projects = this.sessionManager.getActiveProjects();
+      const project = projects.find(p => p.name.toLowerCase() === projectName.toLowerCase());
+      
+      if (!project) {
+        const message = `Project "${projectName}" not found. Use "list_active_projects" to see available projects.`;
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ ${message}`
+          }],
+          structuredContent: { error: message },
+          isError: true
+        };
+      }
+
+      projectPorts = project.ports;
+      const plan = await this.planPortKills('kill_project_ports', project.ports, 'TERM', project.name, includeClients);
+      await this.applyKillPolicy(plan);
+      const gate = this.confirmKillPlan(plan, JSON.stringify({ project: project.name.toLowerCase(), includeClients }), confirmation);
+      if (gate) {
+        return gate;
+      }
+
+      let result = `🎯 Killing ports for project "${project.name}":\n\n`;
+      const report = await this.runKillPlan(plan, { force: false, graceMs });
+      await this.recordKill(auditArgs, plan, report);
+      const portResults = this.collectPortResults(project.ports, plan, report);
+      let killedCount = 0;
+
+      for (const portResult of portResults) {
+        const { port, skipped } = portResult;
+        switch (portResult.status) {
+          case 'skipped':
+            if (skipped?.reason === 'leased') {
+              result += `📌 Skipped port ${port} (leased to project "${skipped.services[0]}")\n`;
+            } else if (skipped?.container) {
+              result += `🐳 Skipped port ${port} (container ${this.formatContainer(skipped.container)})\n`;
+              result += `   ${this.formatContainerHint(skipped.container)}\n`;
+            } else if (skipped?.reason === 'critical-process') {
+              result += `🛡️ Skipped port ${port} (critical service: ${skipped.services.join(', ')})\n`;
+            } else {
+              result += `🛡️ Skipped port ${port} (protected)\n`;
+            }
+            break;
+          case 'killed':
+            result += `✅ Killed processes on port ${port}\n`;
+            killedCount++;
+            break;
+          case 'available':
+            result += `ℹ️ Port ${port} already available\n`;
+            break;
+          case 'failed':
+            result += `⚠️ Could not kill port ${port}\n`;
+            break;
+          case 'denied':
+            result += `⛔ Skipped port ${port} (${this.formatPolicyRules(portResult.denied!)})\n`;
+            break;
+        }
+      }
+
+      if (killedCount > 0) {
+        result += `\n✅ Freed ${killedCount} ports for project "${project.name}"`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { project: project.name, ports: portResults }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordError('kill_project_ports', auditArgs, message, projectPorts);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error killing project ports: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async addCustomProtectedPort(port: number, service: string): Promise<ToolResult<ProtectedPortResult>> {
+    try {
+      this.validatePort(port);
+      await this.sessionManager.addProtectedPort(port, service);
+      await this.audit.record({
+        tool: 'add_protected_port',
+        args: { port, service },
+        outcome: 'success',
+        ports: [port],
+        projects: this.findPortOwners([port]),
+        targets: [],
+        skipped: []
+      });
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `🛡️ Added port ${port} to protected services as "${service}"`
+        }],
+        structuredContent: { port, service }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error adding protected port: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async acquirePortLease(projectName: string, ports: number[], ttlMinutes: number): Promise<ToolResult<LeaseResult>> {
+    try {
+      if (!projectName) {
+        throw new Error('Project name is required');
+      }
+      if (!Array.isArray(ports) || ports.length === 0) {
+        throw new Error('At least one port is required');
+      }
+      ports.forEach(port => this.validatePort(port));
+      this.validateTtl(ttlMinutes);
+
+      const { granted, conflicts } = await this.sessionManager.acquireLeases(projectName, ports, ttlMinutes * 60 * 1000);
+
+      if (conflicts.length > 0) {
+        let result = `📌 Could not lease ports for "${projectName}":\n`;
+        for (const conflict of conflicts) {
+          result += `  • Port ${conflict.port} is leased to "${conflict.holder.project}" until ${new Date(conflict.holder.expiresAt).toLocaleTimeString()}\n`;
+        }
+        return {
+          content: [{
+            type: 'text',
+            text: result
+          }],
+          structuredContent: { project: projectName, granted, conflicts },
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: `📌 Leased ports [${granted.map(lease => lease.port).join(', ')}] to "${projectName}" for ${ttlMinutes} minutes`
+        }],
+        structuredContent: { project: projectName, granted, conflicts }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error acquiring port lease: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async renewPortLease(projectName: string, ttlMinutes?: number): Promise<ToolResult<LeaseResult>> {
+    try {
+      if (ttlMinutes !== undefined) {
+        this.validateTtl(ttlMinutes);
+      }
+
+      const renewed = await this.sessionManager.renewLeases(
+        projectName,
+        ttlMinutes !== undefined ? ttlMinutes * 60 * 1000 : undefined
+      );
+
+      if (renewed.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `ℹ️ Project "${projectName}" holds no active leases`
+          }],
+          structuredContent: { project: projectName, granted: [], conflicts: [] }
+        };
+      }
+
+      let result = `🔄 Renewed leases for "${projectName}":\n`;
+      for (const lease of renewed) {
+        result += `  • Port ${lease.port} until ${new Date(lease.expiresAt).toLocaleTimeString()}\n`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { project: projectName, granted: renewed, conflicts: [] }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error renewing port lease: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async releasePortLease(projectName: string, ports?: number[]): Promise<ToolResult<LeaseListResult>> {
+    try {
+      const released = await this.sessionManager.releaseLeases(projectName, ports);
+
+      return {
+        content: [{
+          type: 'text',
+          text: released.length > 0
+            ? `🔓 Released ports [${released.map(lease => lease.port).join(', ')}] held by "${projectName}"`
+            : `ℹ️ No matching leases held by "${projectName}"`
+        }],
+        structuredContent: { leases: released }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error releasing port lease: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async listPortLeases(): Promise<ToolResult<LeaseListResult>> {
+    try {
+      const leases = this.sessionManager.getLeases();
+
+      if (leases.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'ℹ️ No active port leases. Use "acquire_port_lease" to reserve ports for a project.'
+          }],
+          structuredContent: { leases: [] }
+        };
+      }
+
+      let result = '📌 Active Port Leases:\n\n';
+      for (const lease of [...leases].sort((a, b) => a.port - b.port)) {
+        result += `Port ${lease.port}: ${lease.project} (expires ${new Date(lease.expiresAt).toLocaleString()})\n`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { leases }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error listing port leases: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async queryAuditLog(options: AuditLogOptions): Promise<ToolResult<AuditLogResult>> {
+    try {
+      if (options.port !== undefined) {
+        this.validatePort(options.port);
+      }
+      if (options.outcome && !AUDIT_OUTCOMES.includes(options.outcome)) {
+        throw new Error(`Invalid outcome: ${options.outcome}. Use: ${AUDIT_OUTCOMES.join(', ')}`);
+      }
+
+      const { entries, total } = await this.audit.query({
+        since: this.parseAuditTime(options.since, 'since'),
+        until: this.parseAuditTime(options.until, 'until'),
+        port: options.port,
+        project: options.project,
+        outcome: options.outcome,
+        limit: options.limit ?? 50
+      });
+
+      if (entries.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'ℹ️ No audit log entries match the filters'
+          }],
+          structuredContent: { entries, total }
+        };
+      }
+
+      const outcomeIcons: Record<AuditOutcome, string> = {
+        success: '✅', partial: '⚠️', failed: '❌', blocked: '🛡️', noop: 'ℹ️', error: '💥'
+      };
+
+      let result = `📜 Audit Log (showing ${entries.length} of ${total}, newest first):\n\n`;
+      for (const entry of entries) {
+        result += `${outcomeIcons[entry.outcome]} ${new Date(entry.timestamp).toLocaleString()} ${entry.tool}: ${entry.outcome}\n`;
+        result += `   ⚙️ Args: ${JSON.stringify(entry.args)}\n`;
+        if (entry.ports.length > 0) {
+          result += `   🔌 Ports: ${entry.ports.join(', ')}\n`;
+        }
+        if (entry.projects.length > 0) {
+          result += `   📁 Projects: ${entry.projects.join(', ')}\n`;
+        }
+        for (const target of entry.targets) {
+          result += `   • PID ${target.pid} (${target.processName}, ${target.role}) ${target.status} after SIG${target.signal}: ${target.command}\n`;
+        }
+        for (const skipped of entry.skipped) {
+          result += `   🛡️ Skipped port ${skipped.port} (${skipped.reason}: ${skipped.services.join(', ')})\n`;
+        }
+        if (entry.container) {
+          result += `   🐳 Container ${entry.container.name} (${entry.container.image}), ${this.formatDecision(entry.container.decision)}\n`;
+        }
+        for (const denied of entry.denied ?? []) {
+          result += `   ⛔ Refused PID ${denied.pid} (${denied.processName}): ${this.formatDecision(denied.decision)}\n`;
+        }
+        if (entry.error) {
+          result += `   ❌ ${entry.error}\n`;
+        }
+        result += '\n';
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { entries, total }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error querying audit log: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async getConfigStatus(projectName?: string): Promise<ToolResult<ConfigStatusResult>> {
+    try {
+      const project = projectName
+        ? this.sessionManager.getActiveProjects().find(p => p.name.toLowerCase() === projectName.toLowerCase())
+        : undefined;
+      if (projectName && !project) {
+        throw new Error(`Project "${projectName}" not found. Use "list_active_projects" to see available projects.`);
+      }
+
+      // Re-read from disk so the report never depends on a missed file watch event
+      await this.config.reload();
+      const sources = this.config.getSources();
+      const issues = this.config.getIssues();
+      const tables = this.config.getTables(project?.name);
+      const killPolicy = this.config.getKillPolicy();
+      const requireConfirmation = this.config.requiresConfirmation();
+
+      let result = '⚙️ Configuration:\n\n';
+      for (const source of sources) {
+        const icon = source.status === 'loaded' ? '✅' : source.status === 'invalid' ? '❌' : '➖';
+        const scope = source.scope === 'project' ? `project "${source.project}"` : 'global';
+        result += `${icon} ${source.file} (${scope}, ${source.status})\n`;
+      }
+
+      if (issues.length > 0) {
+        result += `\n⚠️ ${issues.length} invalid ${issues.length === 1 ? 'entry was' : 'entries were'} ignored:\n`;
+        for (const issue of issues) {
+          result += `  • ${issue.file}${issue.path ? ` at ${issue.path}` : ''}: ${issue.message}\n`;
+        }
+      } else {
+        result += '\n✅ No configuration problems found\n';
+      }
+
+      result += `\n📋 Effective settings${project ? ` for "${project.name}"` : ''}:\n`;
+      result += `  • Protected ports: ${Object.keys(tables.protectedPorts).join(', ')}\n`;
+      result += `  • Protected process patterns: ${tables.protectedProcessPatterns.join(', ')}\n`;
+      result += `  • Dev ports: ${tables.commonDevPorts.join(', ')}\n`;
+      result += `  • Frameworks: ${Object.entries(tables.frameworks).map(([type, framework]) => `${type} (${framework.name})`).join(', ')}\n`;
+      result += `  • Kill policy: ${killPolicy.rules.length > 0 ? killPolicy.rules.map(rule => `${rule.name} (${rule.effect})`).join(', ') : 'no rules'}, ` +
+        `then built-in ${BUILT_IN_RULES.map(rule => rule.name).join(', ')}, default ${killPolicy.default}\n`;
+      result += `  • Confirmation tokens: ${requireConfirmation ? 'required for every kill' : 'only for plans'}\n`;
+
+      return {
+        content: [{
+          type: 'text',
+          text: result
+        }],
+        structuredContent: { sources, issues, tables, killPolicy, requireConfirmation, project: project?.name }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Error reading configuration: ${message}`
+        }],
+        structuredContent: { error: message },
+        isError: true
+      };
+    }
+  }
+
+  async getPortState(port: number): Promise<PortState> {
+    this.validatePort(port);
+    const tables = this.config.getTables();
+    const processes = (await this.backend.getPortProcesses(port)).sort((a, b) => a.pid - b.pid);
+    const protectedService = this.isProtectedPort(port, tables) ? this.getProtectedPortService(port, tables) : undefined;
+    const exposure = portExposure(processes, port) ?? undefined;
+    const listening = exposure !== undefined && exposure !== 'client-only';
+
+    return {
+      port,
+      status: listening ? 'in-use' : 'available',
+      exposure,
+      processes,
+      protectedService,
+      project: this.findPortOwners([port])[0],
+      lease: this.sessionManager.getLeaseHolder(port),
+      container: listening ? await this.docker.findByPort(port) ?? undefined : undefined
+    };
+  }
+
+  async getProjectState(projectName: string): Promise<ProjectState | null> {
+    const project = this.sessionManager.getActiveProjects().find(p => p.name.toLowerCase() === projectName.toLowerCase());
+    if (!project) {
+      return null;
+    }
+
+    const ports: PortState[] = [];
+    for (const port of project.ports) {
+      ports.push(await this.getPortState(port));
+    }
+
+    return {
+      project: { ...project },
+      leases: this.sessionManager.getLeases().filter(lease => lease.project.toLowerCase() === project.name.toLowerCase()),
+      ports
+    };
+  }
+
+  async getProtectedServicesState(): Promise<ProtectedServicesResult> {
+    const result = await this.listProtectedServices();
+    if (result.isError) {
+      throw new Error(result.content[0].text);
+    }
+    return result.structuredContent as ProtectedServicesResult;
+  }
+
+  getActiveProjects(): ProjectInfo[] {
+    return this.sessionManager.getActiveProjects().map(project => ({ ...project }));
+  }
+
+  /** Ports worth listing as resources: every registered project port plus the common dev ports */
+  getWatchedPorts(): number[] {
+    const ports = new Set([
+      ...this.sessionManager.getActiveProjects().flatMap(project => project.ports),
+      ...this.config.getTables().commonDevPorts
+    ]);
+    return [...ports].sort((a, b) => a - b);
+  }
+
+  async pruneExpiredProjects(): Promise<ProjectInfo[]> {
+    const expired = await this.sessionManager.pruneExpired();
+    if (expired.length > 0) {
+      await this.config.setProjects(this.sessionManager.getActiveProjects());
+    }
+    return expired;
+  }
+
+  /** Current tables, so tool schemas can list configured server types and dev ports */
+  getResourceTables(): ResourceTables {
+    return this.config.getTables();
+  }
+
+  /**
+   * Works out everything a port-based kill would touch without signalling
+   * anything. Ports are skipped in the same order the kill tools always
+   * checked them: leases held by other projects, protected ports, then
+   * critical processes found on the port. Only listeners are targeted
+   * unless includeClients is set: a process connected to the port (a
+   * browser tab, an API client) does not hold it.
+   */
+  private async planPortKills(
+    tool: string,
+    ports: number[],
+    signal: KillSignal,
+    projectName?: string,
+    includeClients = false
+  ): Promise<KillPlan> {
+    const plan: KillPlan = { tool, signal, targets: [], skipped: [], denied: [], availablePorts: [] };
+    const targets = new Map<number, PlannedTarget>();
+
+    for (const port of ports) {
+      // A port registered to a project is judged by that project's config overrides
+      const tables = this.config.getTables(projectName ?? this.findPortOwners([port])[0]);
+
+      if (projectName) {
+        const [leaseConflict] = this.findLeaseConflicts(projectName, [port]);
+        if (leaseConflict) {
+          plan.skipped.push({ port, reason: 'leased', services: [leaseConflict.holder.project] });
+          continue;
+        }
+      }
+
+      if (this.isProtectedPort(port, tables)) {
+        const container = await this.docker.findByPort(port) ?? undefined;
+        plan.skipped.push({ port, reason: 'protected-port', services: [this.getProtectedPortService(port, tables)], container });
+        continue;
+      }
+
+      const sockets = await this.backend.getPortProcesses(port);
+      const processInfo = includeClients ? sockets : portListeners(sockets, port);
+      if (processInfo.length === 0) {
+        plan.availablePorts.push(port);
+        continue;
+      }
+
+      // The listener is Docker's port proxy; the container behind it is what the caller means
+      const container = await this.docker.findByPort(port);
+      if (container) {
+        plan.skipped.push({ port, reason: 'container', services: [container.name], container });
+        continue;
+      }
+
+      const criticalServices = this.findCriticalProcesses(processInfo, tables);
+      if (criticalServices.length > 0) {
+        plan.skipped.push({ port, reason: 'critical-process', services: criticalServices });
+        continue;
+      }
+
+      for (const info of await this.killer.resolveTree(uniquePids(processInfo))) {
+        const existing = targets.get(info.pid);
+        if (existing) {
+          existing.ports.push(port);
+        } else {
+          targets.set(info.pid, { ...info, ports: [port] });
+        }
+      }
+    }
+
+    plan.targets = [...targets.values()];
+    return plan;
+  }
+
+  /**
+   * Kill plan for orphan trees. Their ports go through the same checks as
+   * kill_port, and an orphan keeping any of them is left alone entirely.
+   */
+  private async planOrphanKills(orphans: OrphanCandidate[]): Promise<{ plan: KillPlan; protectedPids: KillOrphansResult['protectedPids'] }> {
+    const ports = [...new Set(orphans.flatMap(orphan => orphan.ports))];
+    const plan = await this.planPortKills('kill_orphans', ports, 'TERM');
+    // planPortKills only checks leases for a named project; an orphan never owns one
+    for (const conflict of this.findLeaseConflicts('', ports)) {
+      plan.skipped.push({ port: conflict.port, reason: 'leased', services: [conflict.holder.project] });
+    }
+
+    const blocked = new Set(plan.skipped.map(skip => skip.port));
+    const protectedPids: KillOrphansResult['protectedPids'] = [];
+    const pids: number[] = [];
+    for (const orphan of orphans) {
+      if (orphan.ports.some(port => blocked.has(port))) {
+        continue;
+      }
+      const services = this.findCriticalProcesses([orphan], this.config.getTables());
+      if (services.length > 0) {
+        protectedPids.push({ pid: orphan.pid, services });
+        continue;
+      }
+      pids.push(orphan.pid);
+    }
+
+    // Only the orphan trees themselves: a port can also show clients connected to it
+    plan.targets = (await this.killer.resolveTree(pids)).map(info => ({
+      ...info,
+      ports: orphans.find(orphan => orphan.pid === info.pid)?.ports ?? []
+    }));
+    plan.availablePorts = [];
+    return { plan, protectedPids };
+  }
+
+  /**
+   * Returns a result to send back instead of killing (a plan that was asked
+   * for or that requireConfirmation demands, or a rejected token), or null
+   * when the kill should go ahead.
+   */
+  private confirmKillPlan(plan: KillPlan, argsKey: string, confirmation: KillConfirmation): ToolResult<KillPlanResult> | null {
+    if (confirmation.token) {
+      const redeemed = this.killPlans.redeem(confirmation.token, plan.tool, argsKey);
+      if (!redeemed.ok) {
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ ${redeemed.reason}. Request a new plan with plan: true.`
+          }],
+          structuredContent: { error: redeemed.reason },
+          isError: true
+        };
+      }
+
+      if (redeemed.signature !== planSignature(plan)) {
+        const { token, expiresAt } = this.killPlans.issue(plan, argsKey);
+        return {
+          content: [{
+            type: 'text',
+            text: `⚠️ Processes changed since the plan was made. Nothing was killed.\n\n${this.formatKillPlan(plan, token, expiresAt)}`
+          }],
+          structuredContent: { mode: 'plan', plan, token, expiresAt, stale: true },
+          isError: true
+        };
+      }
+
+      return null;
+    }
+
+    if (confirmation.plan) {
+      const { token, expiresAt } = this.killPlans.issue(plan, argsKey);
+      return {
+        content: [{
+          type: 'text',
+          text: this.formatKillPlan(plan, token, expiresAt)
+        }],
+        structuredContent: { mode: 'plan', plan, token, expiresAt }
+      };
+    }
+
+    // A plan that would signal or stop nothing runs as usual, so its refusals and "already free" reports still come back
+    const acts = plan.targets.length > 0 || plan.container?.decision.effect === 'allow';
+    if (acts && this.config.requiresConfirmation()) {
+      const { token, expiresAt } = this.killPlans.issue(plan, argsKey);
+      return {
+        content: [{
+          type: 'text',
+          text: `🔒 requireConfirmation is on, so nothing was killed. Review the plan and call again with its confirmation_token.\n\n${this.formatKillPlan(plan, token, expiresAt)}`
+        }],
+        structuredContent: { mode: 'plan', plan, token, expiresAt, confirmationRequired: true }
+      };
+    }
+
+    return null;
+  }
+
+  private formatKillPlan(plan: KillPlan, token: string, expiresAt: number): string {
+    let result = `📝 Plan for ${plan.tool} (SIG${plan.signal}):\n\n`;
+
+    if (plan.container) {
+      const { name, image, decision } = plan.container;
+      result += decision.effect === 'allow'
+        ? `  🐳 Would stop container ${name} (${image}) through Docker\n`
+        : `  ⛔ Would not stop container ${name} (${image}): ${this.formatDecision(decision)}\n`;
+      for (const skipped of plan.skipped) {
+        result += `  🛡️ It publishes protected port ${skipped.port} (${skipped.services.join(', ')}); confirming stops it anyway\n`;
+      }
+    } else if (plan.targets.length === 0) {
+      result += 'ℹ️ No processes would be signalled\n';
+    }
+    for (const target of plan.targets) {
+      const ports = target.ports.length > 0 ? ` [port ${target.ports.join(', ')}]` : '';
+      result += `  • PID ${target.pid} (${target.processName}, ${target.role})${ports}: ${target.command}\n`;
+    }
+    for (const skipped of plan.container ? [] : plan.skipped) {
+      result += `  🛡️ Would skip port ${skipped.port} (${skipped.reason}: ${skipped.services.join(', ')})\n`;
+      if (skipped.container) {
+        result += `     ${this.formatContainerHint(skipped.container)}\n`;
+      }
+    }
+    for (const denied of plan.denied) {
+      result += `  ⛔ Would not signal PID ${denied.pid} (${denied.processName}): ${this.formatDecision(denied.decision)}\n`;
+    }
+
+    const seconds = Math.round((expiresAt - this.runner.now()) / 1000);
+    result += `\n🔑 Confirmation token: ${token} (expires in ${seconds}s)\n`;
+    result += 'Call the tool again with the same arguments and confirmation_token to run this plan.';
+    return result;
+  }
+
+  private collectPortResults(ports: number[], plan: KillPlan, report: TreeKillReport): PortCleanupResult[] {
+    return ports.map(port => {
+      const skipped = plan.skipped.find(skip => skip.port === port);
+      if (skipped) {
+        return { port, status: 'skipped', outcomes: [], skipped };
+      }
+
+      const pids = new Set(plan.targets.filter(target => target.ports.includes(port)).map(target => target.pid));
+      if (pids.size === 0) {
+        const denied = report.denied.filter(info => info.ports.includes(port));
+        return denied.length > 0
+          ? { port, status: 'denied', outcomes: [], denied }
+          : { port, status: 'available', outcomes: [] };
+      }
+
+      const outcomes = report.outcomes.filter(outcome => pids.has(outcome.pid));
+      const freed = outcomes.some(outcome => outcome.status === 'exited' || outcome.status === 'escalated');
+      return { port, status: freed ? 'killed' : 'failed', outcomes };
+    });
+  }
+
+  private async recordKill(args: Record<string, unknown>, plan: KillPlan, report: TreeKillReport): Promise<void> {
+    const ports = [...new Set([
+      ...plan.targets.flatMap(target => target.ports),
+      ...plan.skipped.map(skip => skip.port),
+      ...report.denied.flatMap(info => info.ports),
+      ...plan.availablePorts
+    ])].sort((a, b) => a - b);
+
+    await this.audit.record({
+      tool: plan.tool,
+      args,
+      signal: plan.signal,
+      outcome: killOutcome(plan, report),
+      ports,
+      projects: this.findPortOwners(ports),
+      targets: auditTargets(plan, report),
+      skipped: plan.skipped,
+      ...(report.denied.length > 0 ? { denied: report.denied } : {})
+    });
+  }
+
+  /**
+   * Moves the targets that must be left alone out of the plan, so a plan
+   * shown for confirmation already says which processes will keep running:
+   * protected members of the resolved trees first, then whatever the kill
+   * policy refuses.
+   */
+  private async applyKillPolicy(plan: KillPlan): Promise<void> {
+    const spared = await this.findProtectedMembers(plan.targets);
+    const { allowed, denied } = await this.killer.authorize(plan.targets.filter(target => !spared.has(target.pid)));
+    plan.targets = allowed;
+    plan.denied = [...spared.values(), ...denied];
+  }
+
+  /**
+   * Critical services and listeners on protected ports anywhere in the
+   * resolved trees, not just the processes a kill started from: resolveTree
+   * adds launchers (sh -c, concurrently, turbo) and everything they started,
+   * which can include a database. What runs below such a process is spared
+   * with it, and so is every tree member above it, since a launcher passes
+   * its signal on to its children.
+   */
+  private async findProtectedMembers(targets: PlannedTarget[]): Promise<Map<number, DeniedProcess>> {
+    const spared = new Map<number, DeniedProcess>();
+    if (targets.length === 0) {
+      return spared;
+    }
+
+    const tables = this.config.getTables();
+    const protectedPorts = new Map<number, number[]>();
+    for (const socket of await this.backend.listListeningSockets()) {
+      if (this.isProtectedPort(socket.port, tables) && !protectedPorts.get(socket.pid)?.includes(socket.port)) {
+        protectedPorts.set(socket.pid, [...(protectedPorts.get(socket.pid) ?? []), socket.port]);
+      }
+    }
+
+    const spare = (target: PlannedTarget, rule: string, reason: string) => {
+      if (!spared.has(target.pid)) {
+        spared.set(target.pid, { ...target, decision: { effect: 'deny', rule, builtIn: true, reason } });
+      }
+    };
+    for (const target of targets) {
+      const [service] = this.findCriticalProcesses([target], tables);
+      const ports = protectedPorts.get(target.pid);
+      if (service) {
+        spare(target, 'critical-process', `Critical service ${service}`);
+      } else if (ports) {
+        spare(target, 'protected-port', `Listens on protected port ${ports.map(port => `${port} (${this.getProtectedPortService(port, tables)})`).join(', ')}`);
+      }
+    }
+
+    // Below first, so a launcher spared for sitting above one does not take its other children with it
+    const roots = [...spared.values()];
+    const below = new Set(roots.map(root => root.pid));
+    for (let grew = true; grew;) {
+      grew = false;
+      for (const target of targets) {
+        const parent = spared.get(target.ppid);
+        if (parent && below.has(parent.pid) && !below.has(target.pid)) {
+          spare(target, parent.decision.rule, `Runs under ${parent.processName} (PID ${parent.pid})`);
+          below.add(target.pid);
+          grew = true;
+        }
+      }
+    }
+
+    const byPid = new Map(targets.map(target => [target.pid, target]));
+    for (const root of roots) {
+      for (let parent = byPid.get(root.ppid); parent; parent = byPid.get(parent.ppid)) {
+        spare(parent, root.decision.rule, `Would take ${root.processName} (PID ${root.pid}) down with it`);
+      }
+    }
+
+    return spared;
+  }
+
+  /** Kills the plan's targets; the report's denied list includes what the plan already set aside */
+  private async runKillPlan(plan: KillPlan, options: TreeKillOptions): Promise<TreeKillReport> {
+    const report = plan.targets.length > 0
+      ? await this.killer.killResolved(plan.targets, options)
+      : this.emptyKillReport();
+    return { ...report, denied: [...plan.denied, ...report.denied] };
+  }
+
+  private async recordError(tool: string, args: Record<string, unknown>, error: string, ports: number[]): Promise<void> {
+    await this.audit.record({
+      tool,
+      args,
+      outcome: 'error',
+      ports,
+      projects: this.findPortOwners(ports),
+      targets: [],
+      skipped: [],
+      error
+    });
+  }
+
+  private findPortOwners(ports: number[]): string[] {
+    return this.sessionManager.getActiveProjects()
+      .filter(project => project.ports.some(port => ports.includes(port)))
+      .map(project => project.name);
+  }
+
+  private isProtectedPort(port: number, tables: ResourceTables): boolean {
+    const customProtected = this.sessionManager.getProtectedPorts();
+    return port in tables.protectedPorts || customProtected.includes(port);
+  }
+
+  private getProtectedPortService(port: number, tables: ResourceTables): string {
+    return tables.protectedPorts[port]
+      ?? this.sessionManager.getCustomProtectedServices()[port]
+      ?? 'custom protected port';
+  }
+
+  private async getPortExclusion(port: number, projectName?: string): Promise<ExcludedPort | null> {
+    const tables = this.config.getTables(projectName);
+    if (port in tables.protectedPorts) {
+      return { port, reason: 'protected-port', detail: `protected (${this.getProtectedPortService(port, tables)})` };
+    }
+    if (this.sessionManager.getProtectedPorts().includes(port)) {
+      return { port, reason: 'custom-protected', detail: `custom protected (${this.getProtectedPortService(port, tables)})` };
+    }
+
+    const owner = this.sessionManager.getActiveProjects().find(project =>
+      project.ports.includes(port) &&
+      (!projectName || project.name.toLowerCase() !== projectName.toLowerCase())
+    );
+    if (owner) {
+      return { port, reason: 'project', detail: `registered to project "${owner.name}"` };
+    }
+
+    const lease = this.sessionManager.getLeaseHolder(port);
+    if (lease && (!projectName || lease.project.toLowerCase() !== projectName.toLowerCase())) {
+      return { port, reason: 'leased', detail: `leased to project "${lease.project}"` };
+    }
+
+    const processInfo = portListeners(await this.backend.getPortProcesses(port), port);
+    if (processInfo.length > 0) {
+      return { port, reason: 'in-use', detail: `in use by ${processInfo[0].processName} (PID ${processInfo[0].pid})` };
+    }
+
+    return null;
+  }
+
+  /**
+   * Every reason a project's ports clash with the rest of the machine. The
+   * project's own earlier registration (same directory) is not a conflict, and
+   * neither is a listener whose command line runs from the project directory,
+   * which is usually the project's own dev server.
+   */
+  private async findProjectConflicts(name: string, directory: string, ports: number[]): Promise<PortConflict[]> {
+    const tables = this.config.getTables(name);
+    const conflicts: PortConflict[] = [];
+
+    for (const port of new Set(ports)) {
+      if (port in tables.protectedPorts) {
+        conflicts.push({ port, reason: 'protected-port', detail: `protected (${this.getProtectedPortService(port, tables)})` });
+      } else if (this.sessionManager.getProtectedPorts().includes(port)) {
+        conflicts.push({ port, reason: 'custom-protected', detail: `custom protected (${this.getProtectedPortService(port, tables)})` });
+      }
+
+      for (const other of this.sessionManager.getActiveProjects()) {
+        if (other.directory !== directory && other.ports.includes(port)) {
+          conflicts.push({ port, reason: 'project', detail: `registered to project "${other.name}" (${other.directory})`, project: other.name });
+        }
+      }
+
+      const [lease] = this.findLeaseConflicts(name, [port]);
+      if (lease) {
+        conflicts.push({
+          port,
+          reason: 'leased',
+          detail: `leased to project "${lease.holder.project}" until ${new Date(lease.holder.expiresAt).toLocaleTimeString()}`,
+          project: lease.holder.project
+        });
+      }
+
+      const unrelated: PortProcess[] = [];
+      for (const info of portListeners(await this.backend.getPortProcesses(port), port)) {
+        if (!(await this.runsInDirectory(info.pid, info.command, directory))) {
+          unrelated.push(info);
+        }
+      }
+      if (unrelated.length > 0) {
+        const pids = uniquePids(unrelated);
+        conflicts.push({ port, reason: 'in-use', detail: `in use by ${unrelated[0].processName} (PID ${pids.join(', ')})`, pids });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Whether a process belongs to a project directory: by working directory,
+   * like find_orphans, since dev server command lines rarely name the
+   * project's absolute path; by command line only when the cwd is unknown.
+   */
+  private async runsInDirectory(pid: number, command: string, directory: string): Promise<boolean> {
+    const details = await this.backend.getProcessDetails(pid);
+    return details?.cwd ? isInsideDirectory(details.cwd, directory) : runsFrom(command, directory);
+  }
+
+  private async suggestAlternativePorts(name: string, ports: number[], conflicts: PortConflict[]): Promise<PortSuggestion[]> {
+    const SEARCH_SPAN = 100;
+    const taken = new Set(ports);
+    const suggestions: PortSuggestion[] = [];
+
+    for (const port of new Set(conflicts.map(conflict => conflict.port))) {
+      let alternative: number | null = null;
+      for (let candidate = port + 1; candidate <= Math.min(65535, port + SEARCH_SPAN); candidate++) {
+        if (!taken.has(candidate) && !(await this.getPortExclusion(candidate, name))) {
+          alternative = candidate;
+          break;
+        }
+      }
+      // Two conflicting ports must not be offered the same replacement
+      if (alternative !== null) {
+        taken.add(alternative);
+      }
+      suggestions.push({ port, alternative });
+    }
+
+    return suggestions;
+  }
+
+  private formatProjectConflicts(conflicts: PortConflict[], suggestions: PortSuggestion[]): string {
+    let result = '⚠️ Port conflicts:\n';
+    for (const conflict of conflicts) {
+      result += `  • Port ${conflict.port}: ${conflict.detail}\n`;
+    }
+    result += '💡 Suggested alternatives:\n';
+    for (const suggestion of suggestions) {
+      result += `  • ${suggestion.port} → ${suggestion.alternative ?? `no free port within 100 of ${suggestion.port}`}\n`;
+    }
+    return result.trimEnd();
+  }
+
+  private findLeaseConflicts(projectName: string, ports: number[]): LeaseConflict[] {
+    const conflicts: LeaseConflict[] = [];
+    for (const port of ports) {
+      const holder = this.sessionManager.getLeaseHolder(port);
+      if (holder && holder.project.toLowerCase() !== projectName.toLowerCase()) {
+        conflicts.push({ port, holder: { ...holder } });
+      }
+    }
+    return conflicts;
+  }
+
+  private emptyKillReport(): TreeKillReport {
+    return { outcomes: [], exited: [], escalated: [], survived: [], failed: [], denied: [] };
+  }
+
+  private formatKillReport(report: TreeKillReport): string {
+    let result = '';
+
+    for (const outcome of report.outcomes) {
+      const label = `PID ${outcome.pid} (${outcome.processName}${outcome.role === 'target' ? '' : `, ${outcome.role}`})`;
+      switch (outcome.status) {
+        case 'exited':
+          result += `  ✅ ${label} exited after SIG${outcome.signal}\n`;
+          break;
+        case 'escalated':
+          result += `  💀 ${label} ignored SIGTERM, killed with SIGKILL\n`;
+          break;
+        case 'survived':
+          result += `  ⚠️ ${label} is still running after SIG${outcome.signal}\n`;
+          break;
+        case 'failed':
+          result += `  ❌ Failed to kill ${label}: ${outcome.error}\n`;
+          break;
+      }
+    }
+    for (const denied of report.denied) {
+      result += `  ⛔ Left PID ${denied.pid} (${denied.processName}) running: ${this.formatDecision(denied.decision)}\n`;
+    }
+
+    const deniedCount = report.denied.length > 0 ? `, denied: ${report.denied.length}` : '';
+    result += `📊 Exited: ${report.exited.length}, escalated: ${report.escalated.length}, survived: ${report.survived.length}, failed: ${report.failed.length}${deniedCount}\n`;
+    return result;
+  }
+
+  private formatDecision(decision: KillDecision): string {
+    return `${decision.builtIn ? 'built-in ' : ''}kill policy rule "${decision.rule}" (${decision.reason})`;
+  }
+
+  private formatPolicyRules(denied: DeniedProcess[]): string {
+    const rules = [...new Set(denied.map(info => `"${info.decision.rule}"`))];
+    return `kill policy rule${rules.length === 1 ? '' : 's'} ${rules.join(', ')}`;
+  }
+
+  private findCriticalProcesses(processInfo: PortProcess[], tables: ResourceTables): string[] {
+    const criticalServices: string[] = [];
+    
+    for (const info of processInfo) {
+      const processName = info.processName.toLowerCase();
+      const command = info.command.toLowerCase();
+      
+      for (const pattern of tables.protectedProcessPatterns) {
+        if (processName.includes(pattern) || command.includes(pattern)) {
+          criticalServices.push(info.processName);
+          break;
+        }
+      }
+    }
     
-    return processInfo;
+    return [...new Set(criticalServices)];
   }
 }
\ No newline at end of file
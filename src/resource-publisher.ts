@@ -0,0 +1,190 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { MacResourceManager } from './resource-manager.js';
+
+export const RESOURCE_POLL_INTERVAL_MS = 2000;
+export const PROTECTED_SERVICES_URI = 'protected://services';
+
+export interface ResourceNotifier {
+  resourceUpdated(uri: string): Promise<void>;
+  resourceListChanged(): Promise<void>;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+type ParsedUri =
+  | { kind: 'port'; port: number }
+  | { kind: 'project'; name: string }
+  | { kind: 'protected' };
+
+export function portUri(port: number): string {
+  return `port://${port}`;
+}
+
+export function projectUri(name: string): string {
+  return `project://${encodeURIComponent(name)}`;
+}
+
+/**
+ * Serves ports, projects and protected services as MCP resources. Nothing on
+ * the machine pushes changes to us, so subscribed resources are re-read on an
+ * interval and a notification goes out whenever their JSON changes; the
+ * project list is checked the same way so registrations and expiries show up
+ * as list changes.
+ */
+export class ResourcePublisher {
+  // Subscribed URI → JSON last sent for it
+  private readonly subscriptions = new Map<string, string>();
+  private projectNames: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly manager: MacResourceManager,
+    private readonly notifier: ResourceNotifier,
+    private readonly intervalMs: number = RESOURCE_POLL_INTERVAL_MS
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Failed to poll resources:', error));
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  listResources(): Resource[] {
+    const resources: Resource[] = [{
+      uri: PROTECTED_SERVICES_URI,
+      name: 'Protected services',
+      description: 'Protected ports, critical process patterns and which protected services are running',
+      mimeType: 'application/json'
+    }];
+
+    for (const project of this.manager.getActiveProjects()) {
+      resources.push({
+        uri: projectUri(project.name),
+        name: `Project ${project.name}`,
+        description: `${project.framework} project in ${project.directory}`,
+        mimeType: 'application/json'
+      });
+    }
+
+    for (const port of this.manager.getWatchedPorts()) {
+      resources.push({
+        uri: portUri(port),
+        name: `Port ${port}`,
+        mimeType: 'application/json'
+      });
+    }
+
+    return resources;
+  }
+
+  listTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'port://{port}',
+        name: 'Port',
+        description: 'Processes on a port, plus its protection, owning project and lease',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'project://{name}',
+        name: 'Project',
+        description: 'A registered project with its leases and the state of each of its ports',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  async read(uri: string): Promise<ResourceContents> {
+    const state = await this.load(this.parse(uri));
+    if (state === null) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    return { uri, mimeType: 'application/json', text: JSON.stringify(state, null, 2) };
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    this.subscriptions.set(uri, await this.snapshot(this.parse(uri)));
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  async poll(): Promise<void> {
+    // A slow lsof run must not let polls pile up
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.manager.pruneExpiredProjects();
+      const names = JSON.stringify(this.manager.getActiveProjects().map(project => project.name).sort());
+      if (this.projectNames !== null && names !== this.projectNames) {
+        await this.notifier.resourceListChanged();
+      }
+      this.projectNames = names;
+
+      for (const [uri, previous] of this.subscriptions) {
+        const current = await this.snapshot(this.parse(uri));
+        // Skip URIs unsubscribed while we were reading
+        if (current !== previous && this.subscriptions.has(uri)) {
+          this.subscriptions.set(uri, current);
+          await this.notifier.resourceUpdated(uri);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private parse(uri: string): ParsedUri {
+    if (uri === PROTECTED_SERVICES_URI) {
+      return { kind: 'protected' };
+    }
+
+    const port = uri.match(/^port:\/\/(\d+)$/);
+    if (port) {
+      return { kind: 'port', port: parseInt(port[1], 10) };
+    }
+
+    const project = uri.match(/^project:\/\/(.+)$/);
+    if (project) {
+      return { kind: 'project', name: decodeURIComponent(project[1]) };
+    }
+
+    throw new Error(`Unknown resource URI: ${uri}. Use port://<port>, project://<name> or ${PROTECTED_SERVICES_URI}`);
+  }
+
+  private async load(target: ParsedUri): Promise<unknown | null> {
+    switch (target.kind) {
+      case 'port':
+        return this.manager.getPortState(target.port);
+      case 'project':
+        return this.manager.getProjectState(target.name);
+      case 'protected':
+        return this.manager.getProtectedServicesState();
+    }
+  }
+
+  /** Missing projects snapshot as "null", so registering one later counts as a change */
+  private async snapshot(target: ParsedUri): Promise<string> {
+    return JSON.stringify(await this.load(target));
+  }
+}
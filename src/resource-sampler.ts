@@ -0,0 +1,281 @@
+import { matchesProcessPattern } from './framework-registry.js';
+import { ListeningSocket, PlatformBackend, ProcessUsage } from './platform-backend.js';
+import type { ProjectInfo } from './session-manager.js';
+
+export interface SampledProcess {
+  pid: number;
+  processName: string;
+  command: string;
+  /** Registered project the process belongs to, or null for an unregistered dev server */
+  project: string | null;
+  cpuPercent: number;
+  rssBytes: number;
+}
+
+export interface ResourceSample {
+  timestamp: number;
+  processes: SampledProcess[];
+}
+
+export interface ConsumerStat {
+  pid: number;
+  processName: string;
+  command: string;
+  project: string | null;
+  /** Averaged over every sample in the window, counting samples where the process was absent as 0 */
+  avgCpuPercent: number;
+  peakCpuPercent: number;
+  /** Averaged over the samples where the process was present */
+  avgRssBytes: number;
+  peakRssBytes: number;
+  samples: number;
+}
+
+export interface ProjectUsage {
+  project: string | null;
+  avgCpuPercent: number;
+  avgRssBytes: number;
+  processes: number;
+}
+
+export interface ConsumerReport {
+  sortBy: 'cpu' | 'memory';
+  windowMs: number;
+  /** Time of the oldest and newest sample used; null when there were none */
+  from: number | null;
+  to: number | null;
+  samples: number;
+  top: ConsumerStat[];
+  projects: ProjectUsage[];
+}
+
+export interface SamplerSources {
+  getProjects(): ProjectInfo[];
+  /** Process patterns that mark a process as a dev server */
+  getServerPatterns(): string[];
+}
+
+export const SAMPLE_INTERVAL_MS = 10 * 1000;
+export const MAX_HISTORY_MS = 60 * 60 * 1000;
+
+/**
+ * Records CPU and memory of the processes that matter to us: anything in a
+ * registered project (listening on one of its ports, or started from its
+ * directory) plus anything that looks like a dev server, together with all
+ * of their descendants. History is kept in memory for MAX_HISTORY_MS.
+ */
+export class ResourceSampler {
+  private readonly samples: ResourceSample[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private sampling = false;
+
+  constructor(
+    private readonly backend: PlatformBackend,
+    private readonly sources: SamplerSources,
+    private readonly now: () => number = Date.now,
+    private readonly intervalMs: number = SAMPLE_INTERVAL_MS
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const tick = () => this.sample().catch(error => console.error('Resource sample failed:', error));
+    tick();
+    this.timer = setInterval(tick, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  hasSamples(): boolean {
+    return this.samples.length > 0;
+  }
+
+  async sample(): Promise<void> {
+    // A slow ps or lsof must not let samples pile up
+    if (this.sampling) {
+      return;
+    }
+    this.sampling = true;
+
+    try {
+      const usage = await this.backend.sampleUsage();
+      const owners = await this.attribute(usage);
+      const timestamp = this.now();
+
+      this.samples.push({
+        timestamp,
+        processes: usage
+          .filter(info => owners.has(info.pid))
+          .map(info => ({
+            pid: info.pid,
+            processName: info.processName,
+            command: info.command,
+            project: owners.get(info.pid) ?? null,
+            cpuPercent: info.cpuPercent,
+            rssBytes: info.rssBytes
+          }))
+      });
+
+      while (this.samples.length > 0 && this.samples[0].timestamp < timestamp - MAX_HISTORY_MS) {
+        this.samples.shift();
+      }
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  top(limit: number, windowMs: number, sortBy: ConsumerReport['sortBy']): ConsumerReport {
+    const cutoff = this.now() - windowMs;
+    const window = this.samples.filter(sample => sample.timestamp >= cutoff);
+    const stats = new Map<number, ConsumerStat & { cpuTotal: number; rssTotal: number }>();
+
+    for (const sample of window) {
+      for (const info of sample.processes) {
+        let stat = stats.get(info.pid);
+        // A PID reused by an unrelated process is treated as the same entry; the command shown is the latest
+        if (!stat) {
+          stat = {
+            pid: info.pid,
+            processName: info.processName,
+            command: info.command,
+            project: info.project,
+            avgCpuPercent: 0,
+            peakCpuPercent: 0,
+            avgRssBytes: 0,
+            peakRssBytes: 0,
+            samples: 0,
+            cpuTotal: 0,
+            rssTotal: 0
+          };
+          stats.set(info.pid, stat);
+        }
+        stat.processName = info.processName;
+        stat.command = info.command;
+        stat.project = info.project;
+        stat.samples++;
+        stat.cpuTotal += info.cpuPercent;
+        stat.rssTotal += info.rssBytes;
+        stat.peakCpuPercent = Math.max(stat.peakCpuPercent, info.cpuPercent);
+        stat.peakRssBytes = Math.max(stat.peakRssBytes, info.rssBytes);
+      }
+    }
+
+    const consumers: ConsumerStat[] = [...stats.values()].map(({ cpuTotal, rssTotal, ...stat }) => ({
+      ...stat,
+      avgCpuPercent: Math.round(cpuTotal / window.length * 10) / 10,
+      avgRssBytes: Math.round(rssTotal / stat.samples)
+    }));
+
+    const key = (stat: { avgCpuPercent: number; avgRssBytes: number }) => sortBy === 'cpu' ? stat.avgCpuPercent : stat.avgRssBytes;
+    consumers.sort((a, b) => key(b) - key(a));
+
+    const projects = new Map<string | null, ProjectUsage>();
+    for (const stat of consumers) {
+      const usage = projects.get(stat.project) ?? { project: stat.project, avgCpuPercent: 0, avgRssBytes: 0, processes: 0 };
+      usage.avgCpuPercent = Math.round((usage.avgCpuPercent + stat.avgCpuPercent) * 10) / 10;
+      usage.avgRssBytes += stat.avgRssBytes;
+      usage.processes++;
+      projects.set(stat.project, usage);
+    }
+
+    return {
+      sortBy,
+      windowMs,
+      from: window[0]?.timestamp ?? null,
+      to: window[window.length - 1]?.timestamp ?? null,
+      samples: window.length,
+      top: consumers.slice(0, limit),
+      projects: [...projects.values()].sort((a, b) => key(b) - key(a))
+    };
+  }
+
+  /** Maps every PID worth sampling to its project name, or null for dev servers outside any project */
+  private async attribute(usage: ProcessUsage[]): Promise<Map<number, string | null>> {
+    const projects = this.sources.getProjects();
+    const patterns = this.sources.getServerPatterns().map(pattern => pattern.toLowerCase());
+    const owners = new Map<number, string | null>();
+
+    if (projects.length > 0) {
+      const projectByPort = new Map<number, string>();
+      for (const project of projects) {
+        project.ports.forEach(port => projectByPort.set(port, project.name));
+      }
+
+      let sockets: ListeningSocket[] = [];
+      try {
+        sockets = await this.backend.listListeningSockets();
+      } catch {
+        // Directory matching still works without socket owners
+      }
+      for (const socket of sockets) {
+        const project = projectByPort.get(socket.port);
+        if (project) {
+          owners.set(socket.pid, project);
+        }
+      }
+
+      for (const info of usage) {
+        const project = projects.find(candidate => runsFrom(info.command, candidate.directory));
+        if (project && !owners.has(info.pid)) {
+          owners.set(info.pid, project.name);
+        }
+      }
+    }
+
+    for (const info of usage) {
+      const command = info.command.toLowerCase();
+      if (!owners.has(info.pid) && patterns.some(pattern => matchesProcessPattern(command, pattern))) {
+        owners.set(info.pid, null);
+      }
+    }
+
+    // This server and the editor that launched it are never anyone's dev server
+    const byPid = new Map(usage.map(info => [info.pid, info]));
+    for (let info = byPid.get(process.pid); info; info = byPid.get(info.ppid)) {
+      owners.delete(info.pid);
+      if (info.ppid <= 1) {
+        break;
+      }
+    }
+
+    // Workers spawned by a project's server count towards that project
+    const children = new Map<number, ProcessUsage[]>();
+    for (const info of usage) {
+      const siblings = children.get(info.ppid) ?? [];
+      siblings.push(info);
+      children.set(info.ppid, siblings);
+    }
+    const queue = [...owners.keys()];
+    while (queue.length > 0) {
+      const pid = queue.shift()!;
+      for (const child of children.get(pid) ?? []) {
+        const owner = owners.get(pid) ?? null;
+        if (!owners.has(child.pid) || (owners.get(child.pid) === null && owner !== null)) {
+          owners.set(child.pid, owner);
+          queue.push(child.pid);
+        }
+      }
+    }
+
+    owners.delete(process.pid);
+    return owners;
+  }
+}
+
+/** True when the path is the directory or inside it */
+export function isInsideDirectory(path: string, directory: string): boolean {
+  const root = directory.replace(/\/+$/, '');
+  return path === root || path.startsWith(`${root}/`);
+}
+
+/** True when an argument of the command is the directory or a path inside it */
+export function runsFrom(command: string, directory: string): boolean {
+  return command.split(/\s+/).some(arg => isInsideDirectory(arg, directory));
+}
@@ -1,12 +1,13 @@
-import { promises as fs } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { SessionStore } from './session-store.js';
 
 export interface SessionData {
   activeProjects: ProjectInfo[];
   protectedPorts: number[];
   lastActivity: number;
   customProtectedServices: { [port: number]: string };
+  leases: PortLease[];
 }
 
 export interface ProjectInfo {
@@ -17,89 +18,149 @@ export interface ProjectInfo {
   lastActive: number;
 }
 
+export interface PortLease {
+  port: number;
+  project: string;
+  acquiredAt: number;
+  expiresAt: number;
+  ttlMs: number;
+}
+
+export interface LeaseConflict {
+  port: number;
+  holder: PortLease;
+}
+
+export interface LeaseAcquisition {
+  granted: PortLease[];
+  conflicts: LeaseConflict[];
+}
+
+export const DEFAULT_LEASE_TTL_MS = 60 * 60 * 1000;
+
+/** Projects not touched for this long are dropped from the session */
+export const PROJECT_TTL_MS = 24 * 60 * 60 * 1000;
+
 export class SessionManager {
   private readonly sessionPath: string;
+  private readonly store: SessionStore;
   private sessionData: SessionData;
+  // Serializes this process's updates so they do not contend for the file lock with each other
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.sessionPath = join(homedir(), '.mac-resource-mcp', 'session.json');
+    this.store = new SessionStore(this.sessionPath);
     this.sessionData = {
       activeProjects: [],
       protectedPorts: [],
       lastActivity: Date.now(),
-      customProtectedServices: {}
+      customProtectedServices: {},
+      leases: []
     };
   }
 
   async loadSession(): Promise<SessionData> {
     try {
-      await fs.mkdir(join(homedir(), '.mac-resource-mcp'), { recursive: true });
-      const data = await fs.readFile(this.sessionPath, 'utf-8');
-      this.sessionData = JSON.parse(data);
+      const data = await this.store.read();
+      if (!data) {
+        // Nothing usable on disk: create the file
+        await this.update(() => undefined, true);
+        return this.sessionData;
+      }
+      this.sessionData = data;
       
       // Clean up old projects (older than 24 hours)
-      const dayAgo = Date.now() - (24 * 60 * 60 * 1000);
+      const dayAgo = Date.now() - PROJECT_TTL_MS;
       this.sessionData.activeProjects = this.sessionData.activeProjects.filter(
         project => project.lastActive > dayAgo
       );
       
-      return this.sessionData;
-    } catch {
-      // File doesn't exist or is corrupted, start fresh
-      await this.saveSession();
-      return this.sessionData;
+      this.sessionData.leases = this.sessionData.leases.filter(
+        lease => lease.expiresAt > Date.now()
+      );
+    } catch (error) {
+      console.error('Failed to load session:', error);
     }
+    return this.sessionData;
   }
 
-  async saveSession(): Promise<void> {
-    try {
-      await fs.mkdir(join(homedir(), '.mac-resource-mcp'), { recursive: true });
-      this.sessionData.lastActivity = Date.now();
-      await fs.writeFile(this.sessionPath, JSON.stringify(this.sessionData, null, 2));
-    } catch (error) {
-      console.error('Failed to save session:', error);
-    }
+  /** Picks up changes other server processes wrote since we last read the file */
+  async refresh(): Promise<void> {
+    await this.enqueue(async () => {
+      try {
+        const data = await this.store.read();
+        if (data) {
+          this.sessionData = data;
+        }
+      } catch (error) {
+        console.error('Failed to refresh session:', error);
+      }
+    });
   }
 
   async addProject(name: string, directory: string, ports: number[], framework: string): Promise<void> {
-    const existingIndex = this.sessionData.activeProjects.findIndex(p => p.directory === directory);
-    
-    const projectInfo: ProjectInfo = {
-      name,
-      directory,
-      ports,
-      framework,
-      lastActive: Date.now()
-    };
-
-    if (existingIndex >= 0) {
-      this.sessionData.activeProjects[existingIndex] = projectInfo;
-    } else {
-      this.sessionData.activeProjects.push(projectInfo);
-    }
+    await this.update(data => {
+      const existingIndex = data.activeProjects.findIndex(p => p.directory === directory);
+      
+      const projectInfo: ProjectInfo = {
+        name,
+        directory,
+        ports,
+        framework,
+        lastActive: Date.now()
+      };
 
-    await this.saveSession();
+      if (existingIndex >= 0) {
+        data.activeProjects[existingIndex] = projectInfo;
+      } else {
+        data.activeProjects.push(projectInfo);
+      }
+    });
   }
 
   async removeProject(directory: string): Promise<void> {
-    this.sessionData.activeProjects = this.sessionData.activeProjects.filter(
-      p => p.directory !== directory
-    );
-    await this.saveSession();
+    await this.update(data => {
+      data.activeProjects = data.activeProjects.filter(
+        p => p.directory !== directory
+      );
+    });
   }
 
   async addProtectedPort(port: number, service: string): Promise<void> {
-    if (!this.sessionData.protectedPorts.includes(port)) {
-      this.sessionData.protectedPorts.push(port);
-    }
-    this.sessionData.customProtectedServices[port] = service;
-    await this.saveSession();
+    await this.update(data => {
+      if (!data.protectedPorts.includes(port)) {
+        data.protectedPorts.push(port);
+      }
+      data.customProtectedServices[port] = service;
+    });
   }
 
   async removeProtectedPort(port: number): Promise<void> {
-    this.sessionData.protectedPorts = this.sessionData.protectedPorts.filter(p => p !== port);
-    delete this.sessionData.customProtectedServices[port];
-    await this.saveSession();
+    await this.update(data => {
+      data.protectedPorts = data.protectedPorts.filter(p => p !== port);
+      delete data.customProtectedServices[port];
+    });
+  }
+
+  /** Drops projects that went idle and leases that ran out while the server was up; returns the projects removed */
+  async pruneExpired(): Promise<ProjectInfo[]> {
+    await this.refresh();
+
+    // Only take the lock when there is something to drop
+    const now = Date.now();
+    if (!this.sessionData.activeProjects.some(project => project.lastActive <= now - PROJECT_TTL_MS) &&
+        !this.sessionData.leases.some(lease => lease.expiresAt <= now)) {
+      return [];
+    }
+
+    return this.update(data => {
+      const now = Date.now();
+      const expired = data.activeProjects.filter(project => project.lastActive <= now - PROJECT_TTL_MS);
+      data.activeProjects = data.activeProjects.filter(project => !expired.includes(project));
+      data.leases = data.leases.filter(lease => lease.expiresAt > now);
+      return expired;
+    });
   }
 
   getActiveProjects(): ProjectInfo[] {
@@ -115,11 +176,131 @@ export class SessionManager {
   }
 
   async touchProject(directory: string): Promise<void> {
-    const project = this.sessionData.activeProjects.find(p => p.directory === directory);
-    if (project) {
-      project.lastActive = Date.now();
-      await this.saveSession();
+    await this.update(data => {
+      const project = data.activeProjects.find(p => p.directory === directory);
+      if (project) {
+        project.lastActive = Date.now();
+        this.extendLeases(data, project.name);
+      }
+    });
+  }
+
+  /**
+   * Leases are all-or-nothing: if any requested port is held by another
+   * project nothing is granted and the holders are reported. Ports the
+   * project already holds are renewed with the new TTL.
+   */
+  async acquireLeases(project: string, ports: number[], ttlMs: number = DEFAULT_LEASE_TTL_MS): Promise<LeaseAcquisition> {
+    return this.update(data => {
+      const now = Date.now();
+      const conflicts: LeaseConflict[] = [];
+      for (const port of ports) {
+        const holder = data.leases.find(lease => lease.port === port && lease.expiresAt > now);
+        if (holder && !this.isSameProject(holder.project, project)) {
+          conflicts.push({ port, holder: { ...holder } });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return { granted: [], conflicts };
+      }
+
+      data.leases = data.leases.filter(
+        lease => !(ports.includes(lease.port) && this.isSameProject(lease.project, project))
+      );
+
+      const granted: PortLease[] = [...new Set(ports)].map(port => ({
+        port,
+        project,
+        acquiredAt: now,
+        expiresAt: now + ttlMs,
+        ttlMs
+      }));
+      data.leases.push(...granted);
+
+      return { granted: granted.map(lease => ({ ...lease })), conflicts };
+    });
+  }
+
+  async renewLeases(project: string, ttlMs?: number): Promise<PortLease[]> {
+    return this.update(data => this.extendLeases(data, project, ttlMs));
+  }
+
+  async releaseLeases(project: string, ports?: number[]): Promise<PortLease[]> {
+    return this.update(data => {
+      const released = data.leases.filter(lease =>
+        this.isSameProject(lease.project, project) && (!ports || ports.includes(lease.port))
+      );
+      data.leases = data.leases.filter(lease => !released.includes(lease));
+      return released.map(lease => ({ ...lease }));
+    });
+  }
+
+  getLeases(): PortLease[] {
+    const now = Date.now();
+    return this.sessionData.leases
+      .filter(lease => lease.expiresAt > now)
+      .map(lease => ({ ...lease }));
+  }
+
+  getLeaseHolder(port: number): PortLease | undefined {
+    const now = Date.now();
+    return this.sessionData.leases.find(lease => lease.port === port && lease.expiresAt > now);
+  }
+
+  /**
+   * Applies `mutate` to the latest session on disk, not our cached copy, so
+   * writes from other server processes are merged instead of overwritten. The
+   * file is only rewritten when something changed (or `force` is set). If the
+   * file cannot be locked, read or written the change still applies in memory
+   * and the failure goes to stderr, as saves always have.
+   */
+  private update<T>(mutate: (data: SessionData) => T, force = false): Promise<T> {
+    return this.enqueue(async () => {
+      let result: T | undefined;
+      let applied = false;
+      try {
+        await this.store.withLock(async () => {
+          const data = (await this.store.read()) ?? structuredClone(this.sessionData);
+          const before = JSON.stringify(data);
+          result = mutate(data);
+          applied = true;
+          this.sessionData = data;
+          if (force || JSON.stringify(data) !== before) {
+            data.lastActivity = Date.now();
+            await this.store.write(data);
+          }
+        });
+      } catch (error) {
+        console.error('Failed to save session:', error);
+      }
+      return applied ? result as T : mutate(this.sessionData);
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private extendLeases(data: SessionData, project: string, ttlMs?: number): PortLease[] {
+    const now = Date.now();
+    const renewed: PortLease[] = [];
+    for (const lease of data.leases) {
+      if (this.isSameProject(lease.project, project) && lease.expiresAt > now) {
+        if (ttlMs !== undefined) {
+          lease.ttlMs = ttlMs;
+        }
+        lease.expiresAt = now + lease.ttlMs;
+        renewed.push({ ...lease });
+      }
     }
+    return renewed;
+  }
+
+  private isSameProject(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
   }
 
   async getProjectPorts(directory: string): Promise<number[]> {
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { withFileLock, writeFileAtomic } from './atomic-file.js';
+import type { SessionData } from './session-manager.js';
+
+type UnversionedSession = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a file from schema version n to n + 1. Files written
+// before versioning existed have no schemaVersion and count as version 0.
+const MIGRATIONS: Array<(data: UnversionedSession) => UnversionedSession> = [
+  // 0 → 1: early sessions predate leases and could lack the protection tables
+  data => ({ activeProjects: [], protectedPorts: [], customProtectedServices: {}, leases: [], lastActivity: 0, ...data })
+];
+
+export const SESSION_SCHEMA_VERSION = MIGRATIONS.length;
+
+/** The session file was written by a newer server; it is left untouched rather than downgraded */
+export class SessionVersionError extends Error {
+  constructor(readonly path: string, readonly version: number) {
+    super(`${path} has schema version ${version}, newer than supported version ${SESSION_SCHEMA_VERSION}. Upgrade the server to use it.`);
+    this.name = 'SessionVersionError';
+  }
+}
+
+/**
+ * Reads and writes session.json so that several server processes (one per
+ * editor window) can share it. Writes go to a temp file that is renamed over
+ * the original, so readers never see half a file; callers serialize
+ * read-modify-write cycles with `withLock`. A file that cannot be parsed is
+ * moved aside rather than overwritten, and the last good copy is restored
+ * from the backup kept next to it.
+ */
+export class SessionStore {
+  private readonly lockPath: string;
+  private readonly backupPath: string;
+  // Raw text of the last file that parsed cleanly, written out as the backup on the next save
+  private lastGood: string | null = null;
+
+  constructor(private readonly path: string) {
+    this.lockPath = `${path}.lock`;
+    this.backupPath = `${path}.bak`;
+  }
+
+  /** Returns null when there is no usable session on disk */
+  async read(): Promise<SessionData | null> {
+    const raw = await this.readText(this.path);
+    if (raw === null) {
+      return null;
+    }
+
+    try {
+      const data = this.parse(raw);
+      this.lastGood = raw;
+      return data;
+    } catch (error) {
+      if (error instanceof SessionVersionError) {
+        throw error;
+      }
+      const quarantined = await this.quarantine();
+      console.error(`Session file is corrupt (${error instanceof Error ? error.message : String(error)}); moved it to ${quarantined}`);
+    }
+
+    const backup = await this.readText(this.backupPath);
+    if (backup === null) {
+      return null;
+    }
+    try {
+      const data = this.parse(backup);
+      this.lastGood = backup;
+      console.error(`Restored session from ${this.backupPath}`);
+      return data;
+    } catch (error) {
+      console.error(`Session backup ${this.backupPath} is unusable too:`, error);
+      return null;
+    }
+  }
+
+  async write(data: SessionData): Promise<void> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    if (this.lastGood !== null) {
+      await writeFileAtomic(this.backupPath, this.lastGood);
+    }
+
+    const raw = JSON.stringify({ schemaVersion: SESSION_SCHEMA_VERSION, ...data }, null, 2);
+    await writeFileAtomic(this.path, raw);
+    this.lastGood = raw;
+  }
+
+  /** Runs `fn` while holding the cross-process session lock */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withFileLock(this.lockPath, fn);
+  }
+
+  private parse(raw: string): SessionData {
+    let data = JSON.parse(raw) as UnversionedSession;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('top level is not an object');
+    }
+
+    const version = data.schemaVersion ?? 0;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+      throw new Error(`invalid schemaVersion ${JSON.stringify(version)}`);
+    }
+    if (version > SESSION_SCHEMA_VERSION) {
+      throw new SessionVersionError(this.path, version);
+    }
+    for (let from = version; from < SESSION_SCHEMA_VERSION; from++) {
+      data = MIGRATIONS[from](data);
+    }
+
+    const { schemaVersion: _version, ...session } = data;
+    this.validate(session);
+    return session as unknown as SessionData;
+  }
+
+  private validate(session: UnversionedSession): void {
+    const arrays = ['activeProjects', 'protectedPorts', 'leases'];
+    for (const key of arrays) {
+      if (!Array.isArray(session[key])) {
+        throw new Error(`${key} is not an array`);
+      }
+    }
+    const services = session.customProtectedServices;
+    if (!services || typeof services !== 'object' || Array.isArray(services)) {
+      throw new Error('customProtectedServices is not an object');
+    }
+
+    const projects = session.activeProjects as Array<Record<string, unknown>>;
+    if (projects.some(project => typeof project?.name !== 'string' || typeof project.directory !== 'string' || !Array.isArray(project.ports))) {
+      throw new Error('activeProjects contains an entry without name, directory and ports');
+    }
+    const leases = session.leases as Array<Record<string, unknown>>;
+    if (leases.some(lease => typeof lease?.port !== 'number' || typeof lease.project !== 'string' || typeof lease.expiresAt !== 'number')) {
+      throw new Error('leases contains an entry without port, project and expiresAt');
+    }
+  }
+
+  private async quarantine(): Promise<string> {
+    const target = `${this.path}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    await fs.rename(this.path, target);
+    return target;
+  }
+
+  private async readText(path: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { withFileLock, writeFileAtomic } from './atomic-file.js';
+import { ListeningSocket, PlatformBackend } from './platform-backend.js';
+
+export interface SocketSnapshot {
+  id: string;
+  name?: string;
+  takenAt: number;
+  sockets: ListeningSocket[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  name?: string;
+  takenAt: number;
+  socketCount: number;
+}
+
+export interface SocketOwner {
+  pid: number;
+  processName: string;
+  command: string;
+}
+
+/** One bound protocol/address/port and every process holding it */
+export interface Listener {
+  protocol: ListeningSocket['protocol'];
+  family: ListeningSocket['family'];
+  address: string;
+  port: number;
+  owners: SocketOwner[];
+}
+
+export interface OwnerChange {
+  protocol: ListeningSocket['protocol'];
+  family: ListeningSocket['family'];
+  address: string;
+  port: number;
+  before: SocketOwner[];
+  after: SocketOwner[];
+}
+
+export interface SnapshotDiff {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  added: Listener[];
+  removed: Listener[];
+  ownerChanged: OwnerChange[];
+}
+
+interface SnapshotFile {
+  version: 1;
+  snapshots: SocketSnapshot[];
+}
+
+const AGE_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/**
+ * Captures every listening socket on the host in one pass and keeps them on
+ * disk so two points in time can be compared. Named snapshots are kept until
+ * a newer one takes the same name; unnamed ones roll over after MAX_RECENT.
+ * Every server process shares the file: reads always go to disk, and a
+ * capture adds its snapshot to the file's latest contents under a lock, so
+ * snapshots taken from other editor windows are kept and IDs never collide.
+ */
+export class SnapshotStore {
+  private readonly MAX_RECENT = 20;
+  private readonly MAX_NAMED = 30;
+  // What this process last read or saved, used while the file cannot be read
+  private snapshots: SocketSnapshot[] = [];
+
+  constructor(
+    private readonly backend: PlatformBackend,
+    private readonly now: () => number = Date.now,
+    private readonly storePath: string = join(homedir(), '.mac-resource-mcp', 'snapshots.json')
+  ) {}
+
+  async capture(name?: string): Promise<SocketSnapshot> {
+    if (name && (/^snap-\d+$/.test(name) || parseAge(name) !== null)) {
+      throw new Error(`Invalid snapshot name "${name}": it would be read as a snapshot ID or an age`);
+    }
+    const sockets = await this.backend.listListeningSockets();
+    sockets.sort((a, b) => a.port - b.port || a.protocol.localeCompare(b.protocol) || a.address.localeCompare(b.address) || a.pid - b.pid);
+
+    const add = async (): Promise<SocketSnapshot> => {
+      const snapshots = await this.load();
+      const snapshot: SocketSnapshot = { id: this.nextId(snapshots), takenAt: this.now(), sockets };
+      if (name) {
+        snapshot.name = name;
+      }
+      this.snapshots = this.prune([...snapshots.filter(existing => !name || existing.name !== name), snapshot]);
+      await this.save();
+      return snapshot;
+    };
+
+    try {
+      return await withFileLock(`${this.storePath}.lock`, add);
+    } catch (error) {
+      // Keep the snapshot for this process at least, as a failed save always has
+      console.error('Failed to lock socket snapshots:', error);
+      return add();
+    }
+  }
+
+  async list(): Promise<SnapshotSummary[]> {
+    return (await this.load()).map(summarize).reverse();
+  }
+
+  /**
+   * Finds a snapshot by ID ("snap-3"), name, or age ("5m", "2h", "1d"); an
+   * age picks the newest snapshot taken at least that long ago.
+   */
+  async resolve(reference: string): Promise<SocketSnapshot> {
+    const snapshots = await this.load();
+
+    const exact = snapshots.find(snapshot => snapshot.id === reference || snapshot.name === reference);
+    if (exact) {
+      return exact;
+    }
+
+    const age = parseAge(reference);
+    if (age !== null) {
+      const cutoff = this.now() - age;
+      const match = snapshots.filter(snapshot => snapshot.takenAt <= cutoff).pop();
+      if (match) {
+        return match;
+      }
+      throw new Error(`No snapshot is ${reference} old or older. Use "list_socket_snapshots" to see what is stored.`);
+    }
+
+    throw new Error(`Snapshot "${reference}" not found. Use "list_socket_snapshots" to see what is stored.`);
+  }
+
+  diff(from: SocketSnapshot, to: SocketSnapshot): SnapshotDiff {
+    const before = groupListeners(from.sockets);
+    const after = groupListeners(to.sockets);
+    const added: Listener[] = [];
+    const removed: Listener[] = [];
+    const ownerChanged: OwnerChange[] = [];
+
+    for (const [key, listener] of after) {
+      const previous = before.get(key);
+      if (!previous) {
+        added.push(listener);
+      } else if (ownerKey(previous.owners) !== ownerKey(listener.owners)) {
+        const { owners, ...socket } = listener;
+        ownerChanged.push({ ...socket, before: previous.owners, after: owners });
+      }
+    }
+    for (const [key, listener] of before) {
+      if (!after.has(key)) {
+        removed.push(listener);
+      }
+    }
+
+    return { from: summarize(from), to: summarize(to), added, removed, ownerChanged };
+  }
+
+  private async load(): Promise<SocketSnapshot[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.storePath, 'utf-8')) as SnapshotFile;
+      this.snapshots = Array.isArray(data.snapshots) ? data.snapshots : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // No history yet, or it was deleted: start a fresh one
+        this.snapshots = [];
+      }
+      // Unreadable: keep what this process last had, and overwrite the file on the next capture
+    }
+    return this.snapshots;
+  }
+
+  private async save(): Promise<void> {
+    const data: SnapshotFile = { version: 1, snapshots: this.snapshots };
+    try {
+      await fs.mkdir(dirname(this.storePath), { recursive: true });
+      await writeFileAtomic(this.storePath, JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to save socket snapshots:', error);
+    }
+  }
+
+  private prune(snapshots: SocketSnapshot[]): SocketSnapshot[] {
+    const named = snapshots.filter(snapshot => snapshot.name).slice(-this.MAX_NAMED);
+    const recent = snapshots.filter(snapshot => !snapshot.name).slice(-this.MAX_RECENT);
+    const keep = new Set([...named, ...recent]);
+    return snapshots.filter(snapshot => keep.has(snapshot));
+  }
+
+  private nextId(snapshots: SocketSnapshot[]): string {
+    const highest = Math.max(0, ...snapshots.map(snapshot => parseInt(snapshot.id.slice('snap-'.length), 10) || 0));
+    return `snap-${highest + 1}`;
+  }
+}
+
+function parseAge(reference: string): number | null {
+  const match = reference.trim().match(/^(\d+)\s*([smhd])$/);
+  return match ? parseInt(match[1], 10) * AGE_UNITS[match[2]] : null;
+}
+
+function summarize(snapshot: SocketSnapshot): SnapshotSummary {
+  return { id: snapshot.id, name: snapshot.name, takenAt: snapshot.takenAt, socketCount: snapshot.sockets.length };
+}
+
+function groupListeners(sockets: ListeningSocket[]): Map<string, Listener> {
+  const listeners = new Map<string, Listener>();
+  for (const socket of sockets) {
+    const key = `${socket.protocol}:${socket.address}:${socket.port}`;
+    let listener = listeners.get(key);
+    if (!listener) {
+      listener = { protocol: socket.protocol, family: socket.family, address: socket.address, port: socket.port, owners: [] };
+      listeners.set(key, listener);
+    }
+    // A socket shared by several FDs of one process is still one owner
+    if (!listener.owners.some(owner => owner.pid === socket.pid)) {
+      listener.owners.push({ pid: socket.pid, processName: socket.processName, command: socket.command });
+    }
+  }
+  return listeners;
+}
+
+/** PID plus command, so a restarted server that reused nothing but the port still counts as a change */
+function ownerKey(owners: SocketOwner[]): string {
+  return owners.map(owner => `${owner.pid}:${owner.command}`).sort().join('|');
+}
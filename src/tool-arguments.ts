@@ -0,0 +1,100 @@
+/** The part of JSON Schema the tool input schemas in index.ts use */
+export interface ArgumentSchema {
+  type?: string;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  items?: ArgumentSchema;
+  properties?: Record<string, ArgumentSchema>;
+  required?: readonly string[];
+  [keyword: string]: unknown;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ArgumentSchema & { type: 'object' };
+}
+
+// Tab is the only control character a name, path or command may contain
+const CONTROL_CHARACTERS = /[\0-\x08\n-\x1f\x7f]/;
+
+/**
+ * Checks tool arguments against the tool's input schema before any of them
+ * reach a handler: every argument must be declared, required ones present,
+ * and each value of the declared type, within its bounds and enum. Strings
+ * with control characters are refused outright. Throws on the first problem.
+ */
+export function validateToolArguments(schema: ArgumentSchema, args: Record<string, unknown> | undefined): void {
+  const values = args ?? {};
+  const properties = schema.properties ?? {};
+
+  for (const name of Object.keys(values)) {
+    if (!properties[name]) {
+      const known = Object.keys(properties);
+      throw new Error(`Unknown argument: ${name}. ${known.length > 0 ? `Expected: ${known.join(', ')}` : 'This tool takes no arguments.'}`);
+    }
+  }
+
+  for (const name of schema.required ?? []) {
+    if (values[name] === undefined) {
+      throw new Error(`Missing required argument: ${name}`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      checkValue(name, value, properties[name]);
+    }
+  }
+}
+
+function checkValue(path: string, value: unknown, schema: ArgumentSchema): void {
+  const shown = JSON.stringify(value);
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Invalid ${path}: ${shown}. Must be a number.`);
+      }
+      break;
+    case 'integer':
+      if (!Number.isInteger(value)) {
+        throw new Error(`Invalid ${path}: ${shown}. Must be a whole number.`);
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`Invalid ${path}: ${shown}. Must be true or false.`);
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new Error(`Invalid ${path}: ${shown}. Must be a string.`);
+      }
+      if (CONTROL_CHARACTERS.test(value)) {
+        throw new Error(`Invalid ${path}: ${shown}. Must not contain control characters.`);
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        throw new Error(`Invalid ${path}: ${shown}. Must be an array.`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => checkValue(`${path}[${index}]`, item, schema.items!));
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    throw new Error(`Invalid ${path}: ${shown}. Use: ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      throw new Error(`Invalid ${path}: ${shown}. Must be at least ${schema.minimum}.`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      throw new Error(`Invalid ${path}: ${shown}. Must be at most ${schema.maximum}.`);
+    }
+  }
+}
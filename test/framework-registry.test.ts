@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesProcessPattern } from '../src/framework-registry.js';
+
+test('matchesProcessPattern finds a program by its file name', () => {
+  assert.ok(matchesProcessPattern('vite', 'vite'));
+  assert.ok(matchesProcessPattern('node /work/app/node_modules/.bin/vite --port 5173', 'vite'));
+  assert.ok(matchesProcessPattern('node /work/app/node_modules/vite/bin/vite.js', 'vite'));
+  assert.ok(matchesProcessPattern('python ./manage.py runserver 8000', 'manage.py runserver'));
+  assert.ok(matchesProcessPattern('npm run dev', 'npm run dev'));
+});
+
+test('matchesProcessPattern ignores lookalike arguments and paths', () => {
+  assert.ok(!matchesProcessPattern('node /work/app/node_modules/.bin/vitest --watch', 'vite'));
+  assert.ok(!matchesProcessPattern('node /srv/invite-service/server.js', 'vite'));
+  assert.ok(!matchesProcessPattern('/usr/bin/code /home/dev/vite-app', 'vite'));
+  assert.ok(!matchesProcessPattern('python manage.py migrate', 'manage.py runserver'));
+  assert.ok(!matchesProcessPattern('npm run develop', 'npm run dev'));
+});
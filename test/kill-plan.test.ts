@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KillPlan, KillPlanStore, planSignature } from '../src/kill-plan.js';
+
+function killPortPlan(pids: number[]): KillPlan {
+  return {
+    tool: 'kill_port',
+    signal: 'TERM',
+    targets: pids.map(pid => ({ pid, ppid: 1, processName: 'node', command: 'node server.js', role: 'target' as const, ports: [3000] })),
+    skipped: [],
+    denied: [],
+    availablePorts: []
+  };
+}
+
+const ARGS = JSON.stringify({ port: 3000, force: false, includeClients: false });
+
+test('KillPlanStore redeems a token once', () => {
+  const store = new KillPlanStore(() => 0);
+  const plan = killPortPlan([4242]);
+  const { token, expiresAt } = store.issue(plan, ARGS);
+
+  assert.equal(expiresAt, 2 * 60 * 1000);
+  assert.deepEqual(store.redeem(token, 'kill_port', ARGS), { ok: true, signature: planSignature(plan) });
+  assert.deepEqual(store.redeem(token, 'kill_port', ARGS), { ok: false, reason: 'Confirmation token is unknown, already used or expired' });
+  assert.deepEqual(store.redeem('0123456789abcdef', 'kill_port', ARGS), { ok: false, reason: 'Confirmation token is unknown, already used or expired' });
+});
+
+test('KillPlanStore rejects a token after two minutes', () => {
+  let now = 0;
+  const store = new KillPlanStore(() => now);
+  const early = store.issue(killPortPlan([4242]), ARGS);
+  const late = store.issue(killPortPlan([4242]), ARGS);
+
+  now = 2 * 60 * 1000 - 1;
+  assert.equal(store.redeem(early.token, 'kill_port', ARGS).ok, true);
+  now = 2 * 60 * 1000;
+  assert.deepEqual(store.redeem(late.token, 'kill_port', ARGS), { ok: false, reason: 'Confirmation token is unknown, already used or expired' });
+});
+
+test('KillPlanStore rejects a token for another tool or other arguments, and burns it', () => {
+  const store = new KillPlanStore(() => 0);
+  const forTool = store.issue(killPortPlan([4242]), ARGS);
+  const forArgs = store.issue(killPortPlan([4242]), ARGS);
+
+  assert.deepEqual(store.redeem(forTool.token, 'kill_project_ports', ARGS), {
+    ok: false, reason: 'Confirmation token was issued for a different kill_port call'
+  });
+  assert.deepEqual(store.redeem(forArgs.token, 'kill_port', JSON.stringify({ port: 3000, force: true, includeClients: false })), {
+    ok: false, reason: 'Confirmation token was issued for a different kill_port call'
+  });
+  // A token tried on the wrong call cannot be used for the right one afterwards
+  assert.equal(store.redeem(forTool.token, 'kill_port', ARGS).ok, false);
+  assert.equal(store.redeem(forArgs.token, 'kill_port', ARGS).ok, false);
+});
+
+test('planSignature changes when the process set does, but not with its order', () => {
+  const plan = killPortPlan([4242, 4243]);
+
+  assert.equal(planSignature(killPortPlan([4243, 4242])), planSignature(plan));
+  assert.notEqual(planSignature(killPortPlan([4242])), planSignature(plan));
+  assert.notEqual(planSignature({ ...plan, signal: 'KILL' }), planSignature(plan));
+  assert.notEqual(planSignature({ ...plan, skipped: [{ port: 5432, reason: 'protected-port', services: ['PostgreSQL'] }] }), planSignature(plan));
+  assert.notEqual(planSignature({
+    ...plan,
+    targets: plan.targets.map(target => target.pid === 4243 ? { ...target, command: 'node other.js' } : target)
+  }), planSignature(plan));
+});
@@ -0,0 +1,229 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { userInfo } from 'os';
+import { KillPolicy, KillPolicyConfig, parseKillPolicy } from '../src/kill-policy.js';
+import type { ListeningSocket, PlatformBackend, ProcessDetails } from '../src/platform-backend.js';
+import type { ProjectInfo } from '../src/session-manager.js';
+
+const SELF = userInfo().username;
+// Some user other than whoever runs the tests, which may be root
+const OTHER = `${SELF}-other`;
+
+interface FakeProcess {
+  pid: number;
+  user: string;
+  cwd?: string | null;
+  executable?: string | null;
+  /** Ports it listens on */
+  listens?: number[];
+}
+
+/** Just the two lookups KillPolicy makes, answered from a fixed process list */
+function fakeBackend(processes: FakeProcess[]): PlatformBackend {
+  const backend: Pick<PlatformBackend, 'getProcessDetails' | 'listListeningSockets'> = {
+    async getProcessDetails(pid: number): Promise<ProcessDetails | null> {
+      const process = processes.find(candidate => candidate.pid === pid);
+      if (!process) {
+        return null;
+      }
+      return {
+        pid, ppid: 1, processName: 'node', command: 'node server.js', cpuPercent: 0, rssBytes: 0,
+        user: process.user, cwd: process.cwd ?? null, executable: process.executable ?? null, startedAt: null
+      };
+    },
+    async listListeningSockets(): Promise<ListeningSocket[]> {
+      return processes.flatMap(process => (process.listens ?? []).map(port => ({
+        protocol: 'tcp' as const, family: 'IPv4' as const, address: '127.0.0.1', port,
+        pid: process.pid, processName: 'node', command: 'node server.js'
+      })));
+    }
+  };
+  return backend as PlatformBackend;
+}
+
+const PROJECTS: ProjectInfo[] = [
+  { name: 'shop', directory: '/work/shop', ports: [3000], framework: 'nextjs', lastActive: 0 }
+];
+
+function policyFor(config: KillPolicyConfig, processes: FakeProcess[], time = new Date(2026, 9, 19, 12, 0)): KillPolicy {
+  return new KillPolicy(fakeBackend(processes), { getProjects: () => PROJECTS, getPolicy: () => config }, () => time.getTime());
+}
+
+async function decide(config: KillPolicyConfig, process: FakeProcess, time?: Date) {
+  const decisions = await policyFor(config, [process], time).evaluate([{ pid: process.pid }]);
+  return decisions.get(process.pid)!;
+}
+
+test('KillPolicy lets the first matching rule decide and falls back to the default', async () => {
+  const config: KillPolicyConfig = {
+    default: 'deny',
+    rules: [
+      { name: 'keep-api', effect: 'deny', when: { ports: [4000] } },
+      { name: 'dev-ports', effect: 'allow', when: { ports: ['3000-4999'] } }
+    ]
+  };
+
+  assert.deepEqual(await decide(config, { pid: 10, user: SELF, listens: [4000] }), {
+    effect: 'deny', rule: 'keep-api', builtIn: false, reason: 'port 4000'
+  });
+  assert.equal((await decide(config, { pid: 11, user: SELF, listens: [3000] })).rule, 'dev-ports');
+  assert.deepEqual(await decide(config, { pid: 12, user: SELF, listens: [8080] }), {
+    effect: 'deny', rule: 'default', builtIn: false, reason: 'No rule matched'
+  });
+});
+
+test('KillPolicy counts the ports a process is being killed for as well as the ones it listens on', async () => {
+  const config: KillPolicyConfig = { default: 'allow', rules: [{ name: 'keep-api', effect: 'deny', when: { ports: [4000] } }] };
+  const decisions = await policyFor(config, [{ pid: 10, user: SELF }]).evaluate([{ pid: 10, ports: [4000] }]);
+
+  assert.equal(decisions.get(10)!.rule, 'keep-api');
+});
+
+test('KillPolicy skips a rule whose unless conditions all hold', async () => {
+  const config: KillPolicyConfig = {
+    default: 'allow',
+    rules: [{ name: 'outside-work', effect: 'deny', unless: { cwdUnder: ['/work/'], executables: ['/usr/local/bin/'] } }]
+  };
+
+  assert.equal((await decide(config, { pid: 10, user: SELF, cwd: '/work/shop', executable: '/usr/local/bin/node' })).rule, 'default');
+  assert.deepEqual(await decide(config, { pid: 11, user: SELF, cwd: '/tmp/scratch', executable: '/usr/local/bin/node' }), {
+    effect: 'deny', rule: 'outside-work', builtIn: false, reason: 'cwd /tmp/scratch, not under /work/'
+  });
+});
+
+test('KillPolicy expands $self to the account running the server', async () => {
+  const config: KillPolicyConfig = { default: 'deny', rules: [{ name: 'mine', effect: 'allow', when: { users: ['$self'] } }] };
+
+  assert.equal((await decide(config, { pid: 10, user: SELF })).rule, 'mine');
+  assert.equal((await decide(config, { pid: 11, user: OTHER })).rule, 'other-users');
+});
+
+test('KillPolicy expands $projects to every registered project directory', async () => {
+  const config: KillPolicyConfig = { default: 'deny', rules: [{ name: 'in-projects', effect: 'allow', when: { cwdUnder: ['$projects'] } }] };
+
+  assert.equal((await decide(config, { pid: 10, user: SELF, cwd: '/work/shop/packages/web' })).rule, 'in-projects');
+  assert.equal((await decide(config, { pid: 11, user: SELF, cwd: '/work/shopfront' })).rule, 'default');
+  assert.equal((await decide(config, { pid: 12, user: SELF, cwd: null })).rule, 'default');
+});
+
+test('KillPolicy ties a process to a project by its port or its working directory', async () => {
+  const config: KillPolicyConfig = { default: 'deny', rules: [{ name: 'shop', effect: 'allow', when: { projects: ['Shop'] } }] };
+
+  assert.equal((await decide(config, { pid: 10, user: SELF, listens: [3000] })).rule, 'shop');
+  assert.equal((await decide(config, { pid: 11, user: SELF, cwd: '/work/shop' })).rule, 'shop');
+  assert.equal((await decide(config, { pid: 12, user: SELF, cwd: '/work/blog', listens: [4000] })).rule, 'default');
+});
+
+test('KillPolicy matches an hours window within the day, end excluded', async () => {
+  const config: KillPolicyConfig = { default: 'allow', rules: [{ name: 'office-hours', effect: 'deny', when: { hours: '09:00-18:00' } }] };
+  const process = { pid: 10, user: SELF };
+
+  assert.equal((await decide(config, process, new Date(2026, 9, 19, 9, 0))).rule, 'office-hours');
+  assert.equal((await decide(config, process, new Date(2026, 9, 19, 17, 59))).rule, 'office-hours');
+  assert.equal((await decide(config, process, new Date(2026, 9, 19, 18, 0))).rule, 'default');
+  assert.equal((await decide(config, process, new Date(2026, 9, 19, 8, 59))).rule, 'default');
+});
+
+test('KillPolicy runs an hours window that ends before it starts past midnight', async () => {
+  const config: KillPolicyConfig = { default: 'allow', rules: [{ name: 'nightly-jobs', effect: 'deny', when: { hours: '22:00-06:00' } }] };
+  const process = { pid: 10, user: SELF };
+
+  assert.equal((await decide(config, process, new Date(2026, 9, 19, 23, 30))).rule, 'nightly-jobs');
+  assert.equal((await decide(config, process, new Date(2026, 9, 20, 0, 0))).rule, 'nightly-jobs');
+  assert.equal((await decide(config, process, new Date(2026, 9, 20, 5, 59))).rule, 'nightly-jobs');
+  assert.equal((await decide(config, process, new Date(2026, 9, 20, 6, 0))).rule, 'default');
+  assert.equal((await decide(config, process, new Date(2026, 9, 19, 12, 0))).rule, 'default');
+});
+
+test('KillPolicy matches days of the week in local time', async () => {
+  const config: KillPolicyConfig = { default: 'allow', rules: [{ name: 'weekend', effect: 'deny', when: { days: ['sat', 'sun'] } }] };
+  const process = { pid: 10, user: SELF };
+
+  // 24 October 2026 is a Saturday
+  assert.deepEqual(await decide(config, process, new Date(2026, 9, 24, 10, 0)), {
+    effect: 'deny', rule: 'weekend', builtIn: false, reason: 'day sat'
+  });
+  assert.equal((await decide(config, process, new Date(2026, 9, 23, 23, 59))).rule, 'default');
+});
+
+test('KillPolicy falls back to the built-in other-users rule after the configured ones', async () => {
+  const config: KillPolicyConfig = { default: 'allow', rules: [] };
+
+  assert.deepEqual(await decide(config, { pid: 10, user: OTHER }), {
+    effect: 'deny',
+    rule: 'other-users',
+    builtIn: true,
+    reason: `Processes owned by root or another user (owner ${OTHER}, not $self (${SELF}))`
+  });
+  assert.equal((await decide(config, { pid: 11, user: SELF })).rule, 'default');
+  // A process that is gone by the time it is looked up has no known owner
+  assert.equal((await policyFor(config, []).evaluate([{ pid: 12 }])).get(12)!.rule, 'other-users');
+
+  const carveOut: KillPolicyConfig = { default: 'allow', rules: [{ name: 'postgres', effect: 'allow', when: { users: ['postgres'] } }] };
+  assert.equal((await decide(carveOut, { pid: 13, user: 'postgres' })).rule, 'postgres');
+});
+
+test('KillPolicy leaves the other-users rule out for containers', () => {
+  const config: KillPolicyConfig = { default: 'allow', rules: [{ name: 'shop', effect: 'deny', when: { projects: ['*'] } }] };
+  const policy = policyFor(config, []);
+
+  assert.equal(policy.evaluateContainer({ ports: [8080], directory: null }).rule, 'default');
+  assert.equal(policy.evaluateContainer({ ports: [8080], directory: '/work/shop' }).rule, 'shop');
+  assert.equal(policy.evaluateContainer({ ports: [3000, 3000], directory: null }).reason, 'project shop');
+});
+
+function parse(value: unknown): { policy: KillPolicyConfig | undefined; issues: string[] } {
+  const issues: string[] = [];
+  const policy = parseKillPolicy(value, 'killPolicy', (path, message) => issues.push(`${path}: ${message}`));
+  return { policy, issues };
+}
+
+test('parseKillPolicy keeps valid rules', () => {
+  const rules = [
+    { name: 'mine', effect: 'allow', when: { users: ['$self'], cwdUnder: ['$projects', '~/code'] }, description: 'My servers' },
+    { name: 'nights', effect: 'deny', when: { hours: '22:00-06:00', days: ['mon', 'fri'], ports: [5432, '3000-3999'] } }
+  ];
+
+  assert.deepEqual(parse({ default: 'deny', rules }), { policy: { default: 'deny', rules }, issues: [] });
+  assert.deepEqual(parse({}), { policy: { default: 'allow', rules: [] }, issues: [] });
+});
+
+test('parseKillPolicy drops a rule with any bad condition as a whole', () => {
+  const { policy, issues } = parse({
+    rules: [
+      { name: 'too-wide', effect: 'deny', when: { users: ['root'], hours: '9-17' } },
+      { name: 'bad-port', effect: 'deny', when: { ports: [3000, '4000-3000', 70000] } },
+      { name: 'relative', effect: 'allow', when: { cwdUnder: ['work'], days: ['monday'] } },
+      { name: 'typo', effect: 'deny', when: { user: ['root'] } },
+      { name: 'kept', effect: 'allow', when: { users: ['root'] } }
+    ]
+  });
+
+  assert.deepEqual(policy, { default: 'allow', rules: [{ name: 'kept', effect: 'allow', when: { users: ['root'] } }] });
+  assert.deepEqual(issues, [
+    'killPolicy.rules[0].when.hours: Must be a local time window like "09:00-18:00"',
+    'killPolicy.rules[1].when.ports[1]: "4000-3000" is not a port (1-65535) or "from-to" range',
+    'killPolicy.rules[1].when.ports[2]: 70000 is not a port (1-65535) or "from-to" range',
+    'killPolicy.rules[2].when.cwdUnder[0]: "work" must be an absolute path or start with ~/',
+    'killPolicy.rules[2].when.days[0]: "monday" is not a day. Use: sun, mon, tue, wed, thu, fri, sat',
+    'killPolicy.rules[3].when.user: Unknown condition. Use: users, cwdUnder, executables, ports, projects, hours, days'
+  ]);
+});
+
+test('parseKillPolicy reserves the name default and rejects duplicate names', () => {
+  const { policy, issues } = parse({
+    default: 'block',
+    rules: [
+      { name: 'default', effect: 'allow' },
+      { name: 'local', effect: 'allow', when: { ports: [3000] } },
+      { name: 'local', effect: 'deny', when: { ports: [4000] } }
+    ]
+  });
+
+  assert.deepEqual(policy, { default: 'allow', rules: [{ name: 'local', effect: 'allow', when: { ports: [3000] } }] });
+  assert.deepEqual(issues, [
+    'killPolicy.default: Must be "allow" or "deny"',
+    'killPolicy.rules[0].name: "default" is reserved',
+    'killPolicy.rules[2].name: Duplicate rule name "local"'
+  ]);
+});
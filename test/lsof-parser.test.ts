@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { parseLsofSockets } from '../src/lsof-parser.js';
+
+// Compiled to dist-test/test, two levels below the repository root
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'fixtures', 'lsof');
+
+for (const file of readdirSync(FIXTURES).filter(name => name.endsWith('.txt'))) {
+  const name = file.slice(0, -'.txt'.length);
+
+  test(`parseLsofSockets reads fixtures/lsof/${name}`, () => {
+    const output = readFileSync(join(FIXTURES, file), 'utf-8');
+    const expected = JSON.parse(readFileSync(join(FIXTURES, `${name}.json`), 'utf-8'));
+
+    assert.deepEqual(parseLsofSockets(output), expected);
+  });
+}
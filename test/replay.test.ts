@@ -0,0 +1,222 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { ReplayCommandRunner } from '../src/command-runner.js';
+import { MacResourceManager } from '../src/resource-manager.js';
+
+// Compiled to dist-test/test, two levels below the repository root
+const TRANSCRIPTS = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'fixtures', 'transcripts');
+
+/**
+ * A manager replaying one of fixtures/transcripts. State files go to a fresh
+ * home directory whose config lets the kill tools signal the transcripts'
+ * user "dev", who is not whoever runs the tests.
+ */
+async function replay(transcript: string, settings: Record<string, unknown> = {}): Promise<MacResourceManager> {
+  const home = mkdtempSync(join(tmpdir(), 'mac-resource-mcp-test-'));
+  mkdirSync(join(home, '.mac-resource-mcp'));
+  writeFileSync(join(home, '.mac-resource-mcp', 'config.json'), JSON.stringify({
+    ...settings,
+    killPolicy: {
+      default: 'allow',
+      rules: [{ name: 'transcript-user', effect: 'allow', when: { users: ['dev'] } }]
+    }
+  }));
+  process.env.HOME = home;
+
+  const manager = new MacResourceManager(ReplayCommandRunner.fromFile(join(TRANSCRIPTS, `${transcript}.json`)));
+  await manager.ready;
+  return manager;
+}
+
+/** structuredContent as a client receives it, without the keys JSON drops */
+function sent(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Every scenario is recorded once per OS, and both must give the client the same result
+const PLATFORMS = [
+  { name: 'macOS', prefix: 'macos-' },
+  { name: 'Linux', prefix: 'linux-' }
+];
+
+for (const { name, prefix } of PLATFORMS) {
+  test(`check_port reports the listener with its full command line (${name})`, async () => {
+    const manager = await replay(`${prefix}check-port-in-use`);
+    const result = await manager.checkPort(3000);
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(sent(result.structuredContent), {
+      port: 3000,
+      status: 'in-use',
+      exposure: 'all-interfaces',
+      processes: [
+        {
+          pid: 4242, processName: 'node', command: 'node server.js', protocol: 'tcp', family: 'IPv6',
+          localAddress: '::', localPort: 3000, remoteAddress: null, remotePort: null, state: 'LISTEN'
+        },
+        {
+          pid: 4242, processName: 'node', command: 'node server.js', protocol: 'tcp', family: 'IPv4',
+          localAddress: '127.0.0.1', localPort: 3000, remoteAddress: null, remotePort: null, state: 'LISTEN'
+        }
+      ]
+    });
+    assert.match(result.content[0].text, /Port 3000 is in use, listening on all interfaces/);
+  });
+
+  test(`kill_port frees the port when the process exits on SIGTERM (${name})`, async () => {
+    const manager = await replay(`${prefix}kill-port-exits`);
+    const result = await manager.killPort(3000, false, 2000);
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(sent(result.structuredContent), {
+      port: 3000,
+      signal: 'TERM',
+      outcomes: [{ pid: 4242, processName: 'node', command: 'node server.js', role: 'target', signal: 'TERM', status: 'exited' }],
+      exited: [4242],
+      escalated: [],
+      survived: [],
+      failed: [],
+      denied: [],
+      portFree: true
+    });
+    assert.match(result.content[0].text, /PID 4242 \(node\) exited after SIGTERM/);
+    assert.match(result.content[0].text, /Port 3000 is now free/);
+  });
+
+  test(`kill_port escalates to SIGKILL when the grace period runs out (${name})`, async () => {
+    const manager = await replay(`${prefix}kill-port-escalates`);
+    const result = await manager.killPort(3000, false, 2000);
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(sent(result.structuredContent), {
+      port: 3000,
+      signal: 'TERM',
+      outcomes: [{ pid: 4242, processName: 'node', command: 'node server.js', role: 'target', signal: 'KILL', status: 'escalated' }],
+      exited: [],
+      escalated: [4242],
+      survived: [],
+      failed: [],
+      denied: [],
+      portFree: true
+    });
+    assert.match(result.content[0].text, /ignored SIGTERM, killed with SIGKILL/);
+  });
+
+  test(`kill_port reports a process that outlives SIGKILL and leaves the port taken (${name})`, async () => {
+    const manager = await replay(`${prefix}kill-port-survives`);
+    const result = await manager.killPort(3000, false, 2000);
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(sent(result.structuredContent), {
+      port: 3000,
+      signal: 'TERM',
+      outcomes: [{ pid: 4242, processName: 'node', command: 'node server.js', role: 'target', signal: 'KILL', status: 'survived' }],
+      exited: [],
+      escalated: [],
+      survived: [4242],
+      failed: [],
+      denied: [],
+      portFree: false
+    });
+    assert.match(result.content[0].text, /is still running after SIGKILL/);
+    assert.match(result.content[0].text, /Some processes may still be running on port 3000/);
+  });
+
+  test(`kill_port with requireConfirmation returns a plan and kills only once its token comes back (${name})`, async () => {
+    const manager = await replay(`${prefix}kill-port-survives`, { requireConfirmation: true });
+    const planned = await manager.killPort(3000, false, 2000);
+    const plan = sent(planned.structuredContent) as { mode: string; confirmationRequired: boolean; token: string; plan: { targets: Array<{ pid: number }> } };
+
+    assert.equal(planned.isError, undefined);
+    assert.equal(plan.mode, 'plan');
+    assert.equal(plan.confirmationRequired, true);
+    assert.deepEqual(plan.plan.targets.map(target => target.pid), [4242]);
+    assert.match(planned.content[0].text, /requireConfirmation is on, so nothing was killed/);
+
+    const result = await manager.killPort(3000, false, 2000, false, { token: plan.token });
+    assert.deepEqual((sent(result.structuredContent) as { survived: number[] }).survived, [4242]);
+  });
+
+  test(`kill_port replans instead of killing when the port changed since the plan (${name})`, async () => {
+    const manager = await replay(`${prefix}kill-port-exits`);
+    const planned = await manager.killPort(3000, false, 2000, false, { plan: true });
+    const { token } = sent(planned.structuredContent) as { token: string };
+
+    // The transcript's next lookup finds the port free, as if the server stopped on its own
+    const result = await manager.killPort(3000, false, 2000, false, { token });
+    const replanned = sent(result.structuredContent) as { stale: boolean; token: string; plan: { targets: unknown[] } };
+    assert.equal(result.isError, true);
+    assert.equal(replanned.stale, true);
+    assert.deepEqual(replanned.plan.targets, []);
+    assert.notEqual(replanned.token, token);
+    assert.match(result.content[0].text, /Processes changed since the plan was made. Nothing was killed/);
+  });
+
+  test(`list_dev_ports reports each common dev port with how far it is exposed (${name})`, async () => {
+    const manager = await replay(`${prefix}list-dev-ports`);
+    const result = await manager.listDevPorts();
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(sent(result.structuredContent), {
+      ports: [
+        {
+          port: 3000, status: 'in-use', pid: 4242, processName: 'node', command: 'node server.js',
+          protocol: 'tcp', family: 'IPv6', address: '::', state: 'LISTEN', exposure: 'all-interfaces'
+        },
+        { port: 3001, status: 'available' },
+        { port: 4321, status: 'available' },
+        {
+          port: 5173, status: 'in-use', pid: 5101, processName: 'node', command: 'node node_modules/.bin/vite',
+          protocol: 'tcp', family: 'IPv6', address: '::1', state: 'LISTEN', exposure: 'loopback'
+        },
+        {
+          port: 8000, status: 'in-use', pid: 4300, processName: 'python3', command: 'python3 manage.py runserver 192.168.1.20:8000',
+          protocol: 'tcp', family: 'IPv4', address: '192.168.1.20', state: 'LISTEN', exposure: 'interface'
+        },
+        {
+          port: 8080, status: 'available', pid: 4400, processName: 'curl', command: 'curl http://10.0.0.5:8080/health',
+          protocol: 'tcp', family: 'IPv4', address: '192.168.1.20', state: 'ESTABLISHED', exposure: 'client-only'
+        },
+        { port: 8100, status: 'available' },
+        {
+          port: 9000, status: 'in-use', pid: 4500, processName: 'java', command: 'java -jar gateway.jar',
+          protocol: 'tcp', family: 'IPv6', address: '::ffff:127.0.0.1', state: 'LISTEN', exposure: 'loopback'
+        }
+      ]
+    });
+  });
+
+  test(`monitor_port records each change of state on the replay clock (${name})`, async () => {
+    const manager = await replay(`${prefix}monitor-port-restart`);
+    const result = await manager.monitorPort(3000, 20);
+
+    const startedAt = Date.parse('2026-10-19T09:00:00Z');
+    assert.deepEqual(sent(result.structuredContent), {
+      port: 3000,
+      duration: 20,
+      events: [
+        { timestamp: startedAt, status: 'available' },
+        { timestamp: startedAt + 5000, status: 'in-use', pid: 4242, processName: 'node' },
+        { timestamp: startedAt + 15000, status: 'available' }
+      ]
+    });
+  });
+
+  test(`kill_port leaves a database started by the same launcher running, and the launcher with it (${name})`, async () => {
+    const manager = await replay(`${prefix}kill-port-spares-launcher-database`);
+    const result = await manager.killPort(5173, false, 2000);
+    const report = sent(result.structuredContent) as { exited: number[]; denied: Array<{ pid: number; decision: { rule: string } }>; portFree: boolean };
+
+    assert.deepEqual(report.exited, [5101]);
+    assert.deepEqual(report.denied.map(denied => [denied.pid, denied.decision.rule]), [
+      [5102, 'critical-process'],
+      [5103, 'critical-process'],
+      [5100, 'critical-process']
+    ]);
+    assert.equal(report.portFree, true);
+  });
+}
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, readdirSync, readFileSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SESSION_SCHEMA_VERSION, SessionStore, SessionVersionError } from '../src/session-store.js';
+import { SessionData, SessionManager } from '../src/session-manager.js';
+
+function tempDirectory(): string {
+  return mkdtempSync(join(tmpdir(), 'mac-resource-mcp-test-'));
+}
+
+const SESSION: SessionData = {
+  activeProjects: [{ name: 'shop', directory: '/work/shop', ports: [3000], framework: 'nextjs', lastActive: 1000 }],
+  protectedPorts: [5432],
+  lastActivity: 1000,
+  customProtectedServices: { 5432: 'PostgreSQL' },
+  leases: []
+};
+
+test('SessionStore migrates a file written before schema versions', async () => {
+  const path = join(tempDirectory(), 'session.json');
+  writeFileSync(path, JSON.stringify({ activeProjects: SESSION.activeProjects, protectedPorts: [5432] }));
+  const store = new SessionStore(path);
+
+  assert.deepEqual(await store.read(), {
+    activeProjects: SESSION.activeProjects,
+    protectedPorts: [5432],
+    customProtectedServices: {},
+    leases: [],
+    lastActivity: 0
+  });
+
+  await store.write(SESSION);
+  assert.deepEqual(JSON.parse(readFileSync(path, 'utf-8')), { schemaVersion: SESSION_SCHEMA_VERSION, ...SESSION });
+});
+
+test('SessionStore refuses a file from a newer server and leaves it untouched', async () => {
+  const path = join(tempDirectory(), 'session.json');
+  const raw = JSON.stringify({ schemaVersion: SESSION_SCHEMA_VERSION + 1, ...SESSION, futureField: true });
+  writeFileSync(path, raw);
+
+  await assert.rejects(new SessionStore(path).read(), (error: unknown) =>
+    error instanceof SessionVersionError && error.version === SESSION_SCHEMA_VERSION + 1
+  );
+  assert.equal(readFileSync(path, 'utf-8'), raw);
+});
+
+test('SessionStore moves a corrupt file aside and restores the last good copy from the backup', async () => {
+  const directory = tempDirectory();
+  const path = join(directory, 'session.json');
+  const writer = new SessionStore(path);
+  await writer.write(SESSION);
+  // The second write keeps the first as session.json.bak
+  await writer.write({ ...SESSION, protectedPorts: [5432, 6379] });
+  writeFileSync(path, '{"activeProjects": [');
+
+  assert.deepEqual(await new SessionStore(path).read(), SESSION);
+  const corrupt = readdirSync(directory).filter(name => name.startsWith('session.json.corrupt-'));
+  assert.equal(corrupt.length, 1);
+  assert.equal(readFileSync(join(directory, corrupt[0]), 'utf-8'), '{"activeProjects": [');
+});
+
+test('SessionStore takes over a lock left by a process that died or held it too long', async () => {
+  const path = join(tempDirectory(), 'session.json');
+  const store = new SessionStore(path);
+
+  // No process has this PID, so whoever wrote the lock is gone
+  writeFileSync(`${path}.lock`, JSON.stringify({ pid: 2 ** 31 - 2, acquiredAt: Date.now() }));
+  assert.equal(await store.withLock(async () => 'dead holder'), 'dead holder');
+
+  // The parent process is alive, but nothing legitimately holds the lock for a minute
+  writeFileSync(`${path}.lock`, JSON.stringify({ pid: process.ppid, acquiredAt: Date.now() - 60 * 1000 }));
+  const minuteAgo = new Date(Date.now() - 60 * 1000);
+  utimesSync(`${path}.lock`, minuteAgo, minuteAgo);
+  assert.equal(await store.withLock(async () => 'old lock'), 'old lock');
+
+  assert.deepEqual(readdirSync(join(path, '..')), []);
+});
+
+test('SessionManager merges concurrent updates from two server processes', async () => {
+  const home = tempDirectory();
+  mkdirSync(join(home, '.mac-resource-mcp'));
+  process.env.HOME = home;
+  // Each manager has its own in-process queue, so only the file lock keeps them apart
+  const first = new SessionManager();
+  const second = new SessionManager();
+  await first.loadSession();
+  await second.loadSession();
+
+  await Promise.all([
+    first.addProject('shop', '/work/shop', [3000], 'nextjs'),
+    second.addProject('blog', '/work/blog', [4321], 'astro'),
+    first.addProtectedPort(5432, 'PostgreSQL'),
+    second.addProtectedPort(6379, 'Redis')
+  ]);
+
+  const session = JSON.parse(readFileSync(join(home, '.mac-resource-mcp', 'session.json'), 'utf-8')) as SessionData;
+  assert.deepEqual(session.activeProjects.map(project => project.name).sort(), ['blog', 'shop']);
+  assert.deepEqual(session.protectedPorts.sort(), [5432, 6379]);
+  assert.deepEqual(session.customProtectedServices, { 5432: 'PostgreSQL', 6379: 'Redis' });
+});
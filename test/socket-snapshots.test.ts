@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SnapshotStore } from '../src/socket-snapshots.js';
+import type { ListeningSocket, PlatformBackend } from '../src/platform-backend.js';
+
+/** A backend whose only listener is node on the given port */
+function listeningOn(port: number): PlatformBackend {
+  const backend: Pick<PlatformBackend, 'listListeningSockets'> = {
+    async listListeningSockets(): Promise<ListeningSocket[]> {
+      return [{ protocol: 'tcp', family: 'IPv4', address: '127.0.0.1', port, pid: 4242, processName: 'node', command: 'node server.js' }];
+    }
+  };
+  return backend as PlatformBackend;
+}
+
+test('SnapshotStore keeps the snapshots every server process captures at once', async () => {
+  const directory = mkdtempSync(join(tmpdir(), 'mac-resource-mcp-test-'));
+  const path = join(directory, 'snapshots.json');
+  // One store per editor window's server, all sharing the file
+  const windows = [new SnapshotStore(listeningOn(3000), Date.now, path), new SnapshotStore(listeningOn(4000), Date.now, path)];
+
+  const captured = await Promise.all(windows.flatMap(store => [store.capture(), store.capture(), store.capture()]));
+
+  const stored = await new SnapshotStore(listeningOn(5000), Date.now, path).list();
+  assert.equal(stored.length, 6);
+  assert.deepEqual(stored.map(summary => summary.id).sort(), captured.map(snapshot => snapshot.id).sort());
+  assert.equal(new Set(captured.map(snapshot => snapshot.id)).size, 6);
+  // The lock and temp files are gone
+  assert.deepEqual(readdirSync(directory), ['snapshots.json']);
+});
+
+test('SnapshotStore sees snapshots another server process captured', async () => {
+  const path = join(mkdtempSync(join(tmpdir(), 'mac-resource-mcp-test-')), 'snapshots.json');
+  const first = new SnapshotStore(listeningOn(3000), Date.now, path);
+  const second = new SnapshotStore(listeningOn(4000), Date.now, path);
+  await first.list();
+
+  await second.capture('before-upgrade');
+
+  assert.deepEqual((await first.resolve('before-upgrade')).sockets.map(socket => socket.port), [4000]);
+  assert.equal((await first.capture()).id, 'snap-2');
+});